@@ -5,6 +5,7 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useChat } from "@/hooks/useChat";
 import { useAuth } from "@/hooks/useAuth";
 import { useSocket } from "@/hooks/useSocket";
+import { authFetch } from "@/lib/queryClient";
 import { Users, UserPlus, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import type { User } from "@shared/schema";
@@ -25,13 +26,7 @@ export function AvailableUsersList() {
       if (searchQuery) {
         url.searchParams.set("q", searchQuery);
       }
-      url.searchParams.set("userId", currentUser!.id);
-      const response = await fetch(url.toString(), {
-        credentials: "include",
-        headers: {
-          "x-user-id": currentUser!.id,
-        },
-      });
+      const response = await authFetch(url.pathname + url.search);
       if (!response.ok) throw new Error("Failed to fetch users");
       return response.json();
     },
@@ -1,14 +1,37 @@
-import { Phone, Video, MoreVertical } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Phone, Video, MoreVertical, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { MessageList } from "./MessageList";
 import { MessageInput } from "./MessageInput";
+import { ThreadPanel } from "./ThreadPanel";
 import { useChat } from "@/hooks/useChat";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { CHAT_EXPORT_FORMATS, downloadChatExport, type ChatExportFormat } from "@/lib/chatExport";
+import type { MessageWithSender } from "@shared/schema";
 
 export function ChatArea() {
   const { user } = useAuth();
   const { conversations, activeConversationId } = useChat();
+  const { toast } = useToast();
+  const [replyTo, setReplyTo] = useState<MessageWithSender | null>(null);
+  const [threadRootId, setThreadRootId] = useState<number | null>(null);
+
+  // Replies and threads belong to the conversation they were opened in
+  useEffect(() => {
+    setReplyTo(null);
+    setThreadRootId(null);
+  }, [activeConversationId]);
 
   const activeConversation = conversations?.find(c => c.id === activeConversationId);
   const otherUser = activeConversation ? (
@@ -17,6 +40,20 @@ export function ChatArea() {
       : activeConversation.participant1
   ) : null;
 
+  const handleExport = async (format: ChatExportFormat) => {
+    if (!activeConversationId) return;
+    try {
+      await downloadChatExport(activeConversationId, format);
+    } catch (error) {
+      console.error("Error exporting chat:", error);
+      toast({
+        title: "Export failed",
+        description: "Could not download this chat, please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
   if (!activeConversationId || !activeConversation) {
     return (
       <div className="flex-1 flex items-center justify-center bg-background">
@@ -34,52 +71,78 @@ export function ChatArea() {
   }
 
   return (
-    <div className="flex-1 flex flex-col bg-background">
-      {/* Chat Header */}
-      <div className="h-16 px-6 border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 flex items-center justify-between">
-        <div className="flex items-center gap-3">
-          <div className="relative">
-            <Avatar className="w-10 h-10">
-              <AvatarImage src={otherUser?.profileImageUrl || ""} alt={otherUser?.firstName || ""} />
-              <AvatarFallback>
-                {otherUser?.firstName?.[0]}{otherUser?.lastName?.[0]}
-              </AvatarFallback>
-            </Avatar>
-            {otherUser?.isOnline && (
-              <div className="absolute -bottom-0.5 -right-0.5 w-3.5 h-3.5 bg-green-500 border-2 border-background rounded-full"></div>
-            )}
-          </div>
-          <div>
-            <h2 className="font-semibold text-foreground text-sm">
-              {otherUser?.firstName} {otherUser?.lastName}
-            </h2>
-            <div className="flex items-center gap-1.5">
-              <div className={`w-1.5 h-1.5 rounded-full ${otherUser?.isOnline ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></div>
-              <span className="text-xs text-muted-foreground">
-                {otherUser?.isOnline ? 'Online' : 'Offline'}
-              </span>
+    <div className="flex-1 flex bg-background">
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Chat Header */}
+        <div className="h-16 px-6 border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="relative">
+              <Avatar className="w-10 h-10">
+                <AvatarImage src={otherUser?.profileImageUrl || ""} alt={otherUser?.firstName || ""} />
+                <AvatarFallback>
+                  {otherUser?.firstName?.[0]}{otherUser?.lastName?.[0]}
+                </AvatarFallback>
+              </Avatar>
+              {otherUser?.isOnline && (
+                <div className="absolute -bottom-0.5 -right-0.5 w-3.5 h-3.5 bg-green-500 border-2 border-background rounded-full"></div>
+              )}
+            </div>
+            <div>
+              <h2 className="font-semibold text-foreground text-sm">
+                {otherUser?.firstName} {otherUser?.lastName}
+              </h2>
+              <div className="flex items-center gap-1.5">
+                <div className={`w-1.5 h-1.5 rounded-full ${otherUser?.isOnline ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></div>
+                <span className="text-xs text-muted-foreground">
+                  {otherUser?.isOnline ? 'Online' : 'Offline'}
+                </span>
+              </div>
             </div>
           </div>
-        </div>
         
-        <div className="flex items-center gap-1">
-          <Button variant="ghost" size="icon" className="h-9 w-9">
-            <Video className="h-4 w-4" />
-          </Button>
-          <Button variant="ghost" size="icon" className="h-9 w-9">
-            <Phone className="h-4 w-4" />
-          </Button>
-          <Button variant="ghost" size="icon" className="h-9 w-9">
-            <MoreVertical className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" className="h-9 w-9">
+              <Video className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-9 w-9">
+              <Phone className="h-4 w-4" />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-9 w-9">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export chat
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    {CHAT_EXPORT_FORMATS.map(({ format, label }) => (
+                      <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+                        {label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
-      </div>
 
-      {/* Messages */}
-      <MessageList />
+        {/* Messages */}
+        <MessageList onReply={setReplyTo} onOpenThread={setThreadRootId} />
+
+        {/* Message Input */}
+        <MessageInput replyTo={replyTo} onCancelReply={() => setReplyTo(null)} />
+      </div>
 
-      {/* Message Input */}
-      <MessageInput />
+      {/* Thread side panel */}
+      {threadRootId && (
+        <ThreadPanel rootId={threadRootId} onClose={() => setThreadRootId(null)} />
+      )}
     </div>
   );
 }
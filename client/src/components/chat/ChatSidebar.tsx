@@ -3,6 +3,7 @@ import { Input } from "@/components/ui/input";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { ConversationList } from "./ConversationList";
 import { UserSearchDialog } from "./UserSearchDialog";
+import { MessageSearchDialog } from "./MessageSearchDialog";
 import { AvailableUsersList } from "./AvailableUsersList";
 import { useAuth } from "@/hooks/useAuth";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -28,6 +29,7 @@ export function ChatSidebar() {
             <h1 className="text-lg font-bold text-foreground">Connect</h1>
           </div>
           <div className="flex items-center gap-1.5">
+            <MessageSearchDialog />
             <UserSearchDialog />
             <ThemeToggle />
           </div>
@@ -4,6 +4,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
 import { formatDistanceToNow } from "date-fns";
 import { MessageCircle } from "lucide-react";
+import { markdownToPlainText } from "@shared/markdown";
 
 export function ConversationList() {
   const { user } = useAuth();
@@ -67,7 +68,7 @@ export function ConversationList() {
                   <div className="flex items-center justify-between">
                     {lastMessage ? (
                       <p className="text-xs text-muted-foreground truncate">
-                        {lastMessage.content}
+                        {markdownToPlainText(lastMessage.content)}
                       </p>
                     ) : (
                       <p className="text-xs text-muted-foreground italic">
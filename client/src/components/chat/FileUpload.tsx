@@ -1,28 +1,59 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { Paperclip, X, File, Image, FileText, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import {
+  formatFileSize,
+  hasResumableUpload,
+  isFileTypeAllowed,
+  UPLOAD_POLICY_QUERY_KEY,
+  type UploadPolicy,
+} from "@/lib/uploads";
+import type { MediaInfo } from "@shared/schema";
+
+// Matches max-w-xs, the widest an image is shown inline
+const IMAGE_MAX_WIDTH = 320;
 
 interface FileUploadProps {
   onFileSelect: (file: File, preview: string | null) => void;
   onClear: () => void;
   selectedFile: File | null;
   preview: string | null;
+  // Fraction of selectedFile uploaded so far, or null when no upload is running
+  uploadProgress?: number | null;
 }
 
-export function FileUpload({ onFileSelect, onClear, selectedFile, preview }: FileUploadProps) {
+export function FileUpload({ onFileSelect, onClear, selectedFile, preview, uploadProgress = null }: FileUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { data: policy } = useQuery<UploadPolicy>({ queryKey: UPLOAD_POLICY_QUERY_KEY });
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    // Check file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
+    // Reset input so the same file can be picked again after a rejection
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+
+    // The server enforces the same policy; checking here saves a doomed upload
+    if (policy && !isFileTypeAllowed(file, policy)) {
+      toast({
+        title: "File type not supported",
+        description: `${file.name} can't be shared here`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const maxFileSize = (file.type.startsWith('image/') ? policy?.maxImageSize : policy?.maxFileSize) ?? 1024 * 1024 * 1024;
+    if (file.size > maxFileSize) {
       toast({
         title: "File too large",
-        description: "Please select a file smaller than 10MB",
+        description: `Please select a file smaller than ${formatFileSize(maxFileSize)}`,
         variant: "destructive",
       });
       return;
@@ -38,11 +69,6 @@ export function FileUpload({ onFileSelect, onClear, selectedFile, preview }: Fil
     } else {
       onFileSelect(file, null);
     }
-
-    // Reset input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
   };
 
   const getFileIcon = (type: string) => {
@@ -51,13 +77,18 @@ export function FileUpload({ onFileSelect, onClear, selectedFile, preview }: Fil
     return <File className="h-4 w-4" />;
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
+  // An unfinished upload of the same file, e.g. from before a page reload, is picked up where it stopped
+  const isResuming = useMemo(() => selectedFile !== null && hasResumableUpload(selectedFile), [selectedFile]);
+
+  const uploadStatus = selectedFile && (uploadProgress !== null || isResuming) && (
+    <div className="space-y-1 pt-2">
+      {uploadProgress !== null && <Progress value={uploadProgress * 100} className="h-1.5" />}
+      <p className="text-xs text-muted-foreground">
+        {isResuming ? "Resuming upload…" : "Uploading…"}
+        {uploadProgress !== null && ` ${Math.round(uploadProgress * 100)}%`}
+      </p>
+    </div>
+  );
 
   return (
     <div className="space-y-2">
@@ -65,7 +96,7 @@ export function FileUpload({ onFileSelect, onClear, selectedFile, preview }: Fil
         ref={fileInputRef}
         type="file"
         className="hidden"
-        accept="image/*,.pdf,.doc,.docx,.txt,.zip,.rar"
+        accept={policy?.allowedTypes.join(',') || "image/*,.pdf,.doc,.docx,.txt,.zip,.rar"}
         onChange={handleFileSelect}
       />
       
@@ -94,6 +125,7 @@ export function FileUpload({ onFileSelect, onClear, selectedFile, preview }: Fil
                 <span className="truncate">{selectedFile.name}</span>
                 <span>({formatFileSize(selectedFile.size)})</span>
               </div>
+              {uploadStatus}
             </div>
           ) : (
             // File preview
@@ -108,6 +140,7 @@ export function FileUpload({ onFileSelect, onClear, selectedFile, preview }: Fil
               </Button>
             </div>
           )}
+          {!preview && uploadStatus}
         </div>
       ) : (
         <Button
@@ -128,9 +161,12 @@ interface FileMessageProps {
   fileUrl: string;
   fileType: string;
   fileSize?: number;
+  media?: MediaInfo | null;
 }
 
-export function FileMessage({ fileName, fileUrl, fileType, fileSize }: FileMessageProps) {
+export function FileMessage({ fileName, fileUrl, fileType, fileSize, media }: FileMessageProps) {
+  const [isImageLoaded, setIsImageLoaded] = useState(false);
+
   const getFileIcon = (type: string) => {
     if (type.startsWith('image/')) return <Image className="h-5 w-5" />;
     if (type.includes('pdf') || type.includes('document')) return <FileText className="h-5 w-5" />;
@@ -146,6 +182,11 @@ export function FileMessage({ fileName, fileUrl, fileType, fileSize }: FileMessa
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const formatDuration = (seconds: number) => {
+    const total = Math.round(seconds);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+  };
+
   const handleDownload = () => {
     const link = document.createElement('a');
     link.href = fileUrl;
@@ -158,12 +199,30 @@ export function FileMessage({ fileName, fileUrl, fileType, fileSize }: FileMessa
   if (fileType.startsWith('image/')) {
     return (
       <div className="space-y-2">
-        <img 
-          src={fileUrl} 
-          alt={fileName}
-          className="max-w-xs rounded cursor-pointer hover:opacity-90 transition-opacity"
-          onClick={() => window.open(fileUrl, '_blank')}
-        />
+        {/* Reserve the image's box up front so the list doesn't jump when it loads */}
+        <div
+          className="relative max-w-xs overflow-hidden rounded"
+          style={media?.width && media.height ? {
+            width: Math.min(media.width, IMAGE_MAX_WIDTH),
+            aspectRatio: `${media.width} / ${media.height}`,
+          } : undefined}
+        >
+          {media?.placeholder && !isImageLoaded && (
+            <img
+              src={media.placeholder}
+              alt=""
+              aria-hidden="true"
+              className="absolute inset-0 w-full h-full object-cover blur-md scale-110"
+            />
+          )}
+          <img
+            src={media?.thumbnailUrl || fileUrl}
+            alt={fileName}
+            className="relative w-full h-full object-cover cursor-pointer hover:opacity-90 transition-opacity"
+            onLoad={() => setIsImageLoaded(true)}
+            onClick={() => window.open(fileUrl, '_blank')}
+          />
+        </div>
         <div className="flex items-center space-x-2 text-xs text-muted-foreground">
           <Image className="h-3 w-3" />
           <span>{fileName}</span>
@@ -178,8 +237,12 @@ export function FileMessage({ fileName, fileUrl, fileType, fileSize }: FileMessa
       {getFileIcon(fileType)}
       <div className="flex-1 min-w-0">
         <p className="text-sm font-medium truncate">{fileName}</p>
-        {fileSize && (
-          <p className="text-xs text-muted-foreground">{formatFileSize(fileSize)}</p>
+        {(fileSize || media?.duration) && (
+          <p className="text-xs text-muted-foreground">
+            {[media?.duration && formatDuration(media.duration), fileSize && formatFileSize(fileSize)]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
         )}
       </div>
       <Button variant="ghost" size="sm" onClick={handleDownload}>
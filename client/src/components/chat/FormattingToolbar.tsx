@@ -0,0 +1,44 @@
+import { Button } from "@/components/ui/button";
+import { Bold, Code, Italic, Link, List, ListOrdered, Quote, SquareCode } from "lucide-react";
+import type { FormatAction } from "@/lib/formatting";
+
+const isMac = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+const mod = isMac ? "⌘" : "Ctrl+";
+
+const ACTIONS: { action: FormatAction; label: string; shortcut: string; icon: typeof Bold }[] = [
+  { action: "bold", label: "Bold", shortcut: `${mod}B`, icon: Bold },
+  { action: "italic", label: "Italic", shortcut: `${mod}I`, icon: Italic },
+  { action: "code", label: "Code", shortcut: `${mod}E`, icon: Code },
+  { action: "codeBlock", label: "Code block", shortcut: `${mod}Shift+C`, icon: SquareCode },
+  { action: "link", label: "Link", shortcut: `${mod}K`, icon: Link },
+  { action: "quote", label: "Quote", shortcut: `${mod}Shift+9`, icon: Quote },
+  { action: "bulletList", label: "Bulleted list", shortcut: `${mod}Shift+8`, icon: List },
+  { action: "numberedList", label: "Numbered list", shortcut: `${mod}Shift+7`, icon: ListOrdered },
+];
+
+interface FormattingToolbarProps {
+  onFormat: (action: FormatAction) => void;
+}
+
+export function FormattingToolbar({ onFormat }: FormattingToolbarProps) {
+  return (
+    <div className="flex items-center gap-0.5 mb-2" role="toolbar" aria-label="Formatting">
+      {ACTIONS.map(({ action, label, shortcut, icon: Icon }) => (
+        <Button
+          key={action}
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0 text-muted-foreground"
+          title={`${label} (${shortcut})`}
+          aria-label={label}
+          // Keep focus, and so the selection, in the message box
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onFormat(action)}
+        >
+          <Icon className="h-3.5 w-3.5" />
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useState } from "react";
+import type { LinkPreview } from "@shared/schema";
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+}
+
+export function LinkPreviewCard({ preview }: LinkPreviewCardProps) {
+  const [imageFailed, setImageFailed] = useState(false);
+  const hostname = (() => {
+    try {
+      return new URL(preview.url).hostname;
+    } catch {
+      return preview.url;
+    }
+  })();
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="mt-2 block max-w-xs overflow-hidden rounded-lg border border-current/20 bg-background/10 hover:bg-background/20 transition-colors"
+    >
+      {preview.imageUrl && !imageFailed && (
+        <img
+          src={preview.imageUrl}
+          alt=""
+          loading="lazy"
+          // Image hosts don't need to know which page the preview was shown on
+          referrerPolicy="no-referrer"
+          className="w-full max-h-40 object-cover"
+          onError={() => setImageFailed(true)}
+        />
+      )}
+      <div className="px-3 py-2 space-y-0.5">
+        <p className="text-xs opacity-70 truncate">{preview.siteName || hostname}</p>
+        <p className="text-sm font-medium line-clamp-2">{preview.title}</p>
+        {preview.description && (
+          <p className="text-xs opacity-80 line-clamp-3">{preview.description}</p>
+        )}
+      </div>
+    </a>
+  );
+}
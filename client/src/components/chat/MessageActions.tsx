@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MessageSquare, MoreHorizontal, Pencil, Reply, Trash2 } from "lucide-react";
+
+interface MessageActionsProps {
+  messageId: number;
+  isOwnMessage: boolean;
+  canEdit: boolean;
+  onEdit: (messageId: number) => void;
+  onDelete: (messageId: number, scope: "me" | "everyone") => void;
+  onReply?: (messageId: number) => void;
+  onReplyInThread?: (messageId: number) => void;
+}
+
+export function MessageActions({
+  messageId,
+  isOwnMessage,
+  canEdit,
+  onEdit,
+  onDelete,
+  onReply,
+  onReplyInThread,
+}: MessageActionsProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          <MoreHorizontal className="h-3.5 w-3.5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align={isOwnMessage ? "end" : "start"}>
+        {onReply && (
+          <DropdownMenuItem onClick={() => onReply(messageId)}>
+            <Reply className="mr-2 h-4 w-4" />
+            Reply
+          </DropdownMenuItem>
+        )}
+        {onReplyInThread && (
+          <DropdownMenuItem onClick={() => onReplyInThread(messageId)}>
+            <MessageSquare className="mr-2 h-4 w-4" />
+            Reply in thread
+          </DropdownMenuItem>
+        )}
+        {isOwnMessage && canEdit && (
+          <DropdownMenuItem onClick={() => onEdit(messageId)}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onClick={() => onDelete(messageId, "me")}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete for me
+        </DropdownMenuItem>
+        {isOwnMessage && (
+          <DropdownMenuItem
+            className="text-destructive focus:text-destructive"
+            onClick={() => onDelete(messageId, "everyone")}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete for everyone
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -2,15 +2,42 @@ import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useChat } from "@/hooks/useChat";
+import { useToast } from "@/hooks/use-toast";
+import { useVoiceRecorder } from "@/hooks/useVoiceRecorder";
+import { describeUploadError, uploadFile } from "@/lib/uploads";
+import { formatDuration, isVoiceRecordingSupported } from "@/lib/voice";
+import { applyFormat, formatForShortcut, type FormatAction } from "@/lib/formatting";
 import { EmojiPicker } from "./EmojiPicker";
 import { FileUpload } from "./FileUpload";
-import { Send } from "lucide-react";
+import { FormattingToolbar } from "./FormattingToolbar";
+import { MessageQuote } from "./MessageQuote";
+import { Mic, Send, Trash2 } from "lucide-react";
+import { MAX_MESSAGE_LENGTH, type MessageWithSender } from "@shared/schema";
 
-export function MessageInput() {
+interface MessageInputProps {
+  replyTo?: MessageWithSender | null;
+  onCancelReply?: () => void;
+  // Post into this thread instead of the main conversation
+  threadRootId?: number;
+  placeholder?: string;
+}
+
+export function MessageInput({
+  replyTo,
+  onCancelReply,
+  threadRootId,
+  placeholder = "Type a message...",
+}: MessageInputProps = {}) {
   const [message, setMessage] = useState("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [filePreview, setFilePreview] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  // Fraction of the selected file uploaded so far, while an upload runs
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
   const { sendMessage, sendTypingIndicator, isLoading } = useChat();
+  const { toast } = useToast();
+  const voiceRecorder = useVoiceRecorder();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
 
@@ -43,32 +70,44 @@ export function MessageInput() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if ((message.trim() || selectedFile) && !isLoading) {
+    if ((message.trim() || selectedFile) && !isLoading && !isUploading) {
+      const reply = { replyToId: replyTo?.id, threadRootId };
+
       try {
         if (selectedFile) {
-          // Convert file to base64 for simple transmission
-          const reader = new FileReader();
-          reader.onload = () => {
-            const fileData = {
-              content: message.trim() || `Shared ${selectedFile.type.startsWith('image/') ? 'image' : 'file'}: ${selectedFile.name}`,
-              messageType: selectedFile.type.startsWith('image/') ? 'image' : 'file',
-              fileUrl: reader.result as string,
-              fileName: selectedFile.name,
-              fileSize: selectedFile.size,
-            };
-            sendMessage(fileData.content, {
-              messageType: fileData.messageType,
-              fileUrl: fileData.fileUrl,
-              fileName: fileData.fileName,
-              fileSize: fileData.fileSize,
-            });
-          };
-          reader.readAsDataURL(selectedFile);
+          // Upload first; the message only carries the stored file's URL
+          setIsUploading(true);
+          setUploadProgress(0);
+          const controller = new AbortController();
+          uploadAbortRef.current = controller;
+          let uploaded;
+          try {
+            uploaded = await uploadFile(selectedFile, { onProgress: setUploadProgress, signal: controller.signal });
+          } catch (error) {
+            // Cancelled uploads were cleared on purpose; nothing to report
+            if (!controller.signal.aborted) {
+              toast({ ...describeUploadError(error), variant: "destructive" });
+            }
+            return;
+          } finally {
+            uploadAbortRef.current = null;
+            setIsUploading(false);
+            setUploadProgress(null);
+          }
+
+          const isImage = uploaded.mimeType.startsWith('image/');
+          sendMessage(message.trim() || `Shared ${isImage ? 'image' : 'file'}: ${uploaded.fileName}`, {
+            messageType: isImage ? 'image' : 'file',
+            fileUrl: uploaded.url,
+            fileName: uploaded.fileName,
+            fileSize: uploaded.fileSize,
+          }, reply);
         } else {
-          sendMessage(message.trim());
+          sendMessage(message.trim(), undefined, reply);
         }
         
         setMessage("");
+        onCancelReply?.();
         setSelectedFile(null);
         setFilePreview(null);
         sendTypingIndicator(false);
@@ -82,17 +121,82 @@ export function MessageInput() {
     }
   };
 
+  const startRecording = async () => {
+    try {
+      await voiceRecorder.start();
+    } catch (error) {
+      toast({
+        title: "Microphone unavailable",
+        description: "Allow microphone access to record a voice message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Stop recording, upload it, and send it as a voice message
+  const sendRecording = async () => {
+    const recording = await voiceRecorder.stop();
+    if (!recording) return;
+
+    setIsUploading(true);
+    let uploaded;
+    try {
+      uploaded = await uploadFile(recording.file, {
+        voice: { duration: recording.duration, waveform: recording.waveform },
+      });
+    } catch (error) {
+      toast({ ...describeUploadError(error), variant: "destructive" });
+      return;
+    } finally {
+      setIsUploading(false);
+    }
+
+    sendMessage("Voice message", {
+      messageType: 'voice',
+      fileUrl: uploaded.url,
+      fileName: uploaded.fileName,
+      fileSize: uploaded.fileSize,
+    }, { replyToId: replyTo?.id, threadRootId });
+    onCancelReply?.();
+  };
+
   const handleFileSelect = (file: File, preview: string | null) => {
     setSelectedFile(file);
     setFilePreview(preview);
   };
 
   const handleFileClear = () => {
+    uploadAbortRef.current?.abort();
     setSelectedFile(null);
     setFilePreview(null);
   };
 
+  const applyFormatting = (action: FormatAction) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const result = applyFormat({
+      value: message,
+      selectionStart: textarea.selectionStart,
+      selectionEnd: textarea.selectionEnd,
+    }, action);
+    setMessage(result.value);
+
+    // Restore the selection once React has rendered the new value
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.selectionStart, result.selectionEnd);
+    }, 0);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    const action = formatForShortcut(e);
+    if (action) {
+      e.preventDefault();
+      applyFormatting(action);
+      return;
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
@@ -118,6 +222,10 @@ export function MessageInput() {
   return (
     <div className="relative">
       <form onSubmit={handleSubmit} className="p-4 border-t border-border bg-background">
+        {replyTo && (
+          <MessageQuote message={replyTo} onClear={onCancelReply} className="mb-3" />
+        )}
+
         {/* File upload preview */}
         {selectedFile && (
           <div className="mb-3">
@@ -126,42 +234,90 @@ export function MessageInput() {
               onClear={handleFileClear}
               selectedFile={selectedFile}
               preview={filePreview}
+              uploadProgress={uploadProgress}
             />
           </div>
         )}
         
-        <div className="flex items-end space-x-3">
-          <FileUpload
-            onFileSelect={handleFileSelect}
-            onClear={handleFileClear}
-            selectedFile={null}
-            preview={null}
-          />
-          
-          <div className="flex-1 relative">
-            <Textarea
-              ref={textareaRef}
-              value={message}
-              onChange={handleInputChange}
-              onKeyDown={handleKeyDown}
-              placeholder="Type a message..."
-              className="min-h-[40px] max-h-24 resize-none pr-12"
-              rows={1}
-            />
-            
-            <div className="absolute right-2 bottom-2">
-              <EmojiPicker onEmojiSelect={insertEmoji} />
+        {voiceRecorder.isRecording ? (
+          <div className="flex items-center space-x-3">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={voiceRecorder.cancel}
+              className="h-8 w-8 p-0"
+              aria-label="Discard recording"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+
+            <div className="flex-1 flex items-center space-x-2 h-10 px-3 rounded-md border border-input">
+              <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+              <span className="text-sm tabular-nums">{formatDuration(voiceRecorder.elapsed)}</span>
+              <span className="text-sm text-muted-foreground">Recording…</span>
             </div>
+
+            <Button
+              type="button"
+              onClick={sendRecording}
+              className="h-10 w-10 rounded-full p-0"
+              aria-label="Send voice message"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
           </div>
-          
-          <Button
-            type="submit"
-            disabled={!message.trim() || isLoading}
-            className="h-10 w-10 rounded-full p-0"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
-        </div>
+        ) : (
+          <>
+            <FormattingToolbar onFormat={applyFormatting} />
+            <div className="flex items-end space-x-3">
+              <FileUpload
+                onFileSelect={handleFileSelect}
+                onClear={handleFileClear}
+                selectedFile={null}
+                preview={null}
+              />
+              
+              <div className="flex-1 relative">
+                <Textarea
+                  ref={textareaRef}
+                  value={message}
+                  onChange={handleInputChange}
+                  onKeyDown={handleKeyDown}
+                  placeholder={placeholder}
+                  maxLength={MAX_MESSAGE_LENGTH}
+                  className="min-h-[40px] max-h-24 resize-none pr-12"
+                  rows={1}
+                />
+                
+                <div className="absolute right-2 bottom-2">
+                  <EmojiPicker onEmojiSelect={insertEmoji} />
+                </div>
+              </div>
+              
+              {/* With nothing typed or attached, the send button records a voice message instead */}
+              {!message.trim() && !selectedFile && isVoiceRecordingSupported() ? (
+                <Button
+                  type="button"
+                  onClick={startRecording}
+                  disabled={isLoading || isUploading}
+                  className="h-10 w-10 rounded-full p-0"
+                  aria-label="Record voice message"
+                >
+                  <Mic className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  disabled={(!message.trim() && !selectedFile) || isLoading || isUploading}
+                  className="h-10 w-10 rounded-full p-0"
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </>
+        )}
       </form>
     </div>
   );
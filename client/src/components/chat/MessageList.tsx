@@ -1,21 +1,153 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { useChat } from "@/hooks/useChat";
 import { useAuth } from "@/hooks/useAuth";
 import { TypingIndicator } from "./TypingIndicator";
 import { MessageReactions } from "./MessageReactions";
+import { MessageActions } from "./MessageActions";
+import { MessageQuote } from "./MessageQuote";
 import { FileMessage } from "./FileUpload";
+import { VoiceMessage } from "./VoiceMessage";
+import { MessageText } from "./MessageText";
+import { LinkPreviewCard } from "./LinkPreviewCard";
 import { format } from "date-fns";
-import { Check, CheckCheck } from "lucide-react";
+import { AlertCircle, Check, CheckCheck, Clock, MessageSquare } from "lucide-react";
+import { MAX_MESSAGE_LENGTH, type MessageWithSender } from "@shared/schema";
 
-export function MessageList() {
+// Start loading older messages when scrolled this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 80;
+
+interface MessageListProps {
+  onReply?: (message: MessageWithSender) => void;
+  onOpenThread?: (messageId: number) => void;
+}
+
+export function MessageList({ onReply, onOpenThread }: MessageListProps = {}) {
   const { user } = useAuth();
-  const { messages, messagesLoading, typingUsers, addReaction } = useChat();
+  const {
+    messages,
+    messagesLoading,
+    pendingMessages,
+    retryMessage,
+    discardMessage,
+    hasOlderMessages,
+    isLoadingOlderMessages,
+    loadOlderMessages,
+    typingUsers,
+    addReaction,
+    editMessage,
+    deleteMessage,
+    focusedMessageId,
+    clearFocusedMessage,
+    sendReadReceipt,
+  } = useChat();
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
+  const [editContent, setEditContent] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const lastMessageKeyRef = useRef<string | number | null>(null);
+  // Scroll height before an older page was requested, to keep the viewport in place
+  const prevScrollHeightRef = useRef<number | null>(null);
+
+  // Thread replies waiting to be sent are shown in the thread panel instead
+  const outgoingMessages = pendingMessages.filter(entry => !entry.threadRootId);
+
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    const lastMessageKey = outgoingMessages.length > 0
+      ? outgoingMessages[outgoingMessages.length - 1].clientMessageId
+      : messages?.[messages.length - 1]?.id ?? null;
+
+    if (container && prevScrollHeightRef.current !== null && !isLoadingOlderMessages) {
+      // Older messages were prepended; offset by the height they added
+      container.scrollTop += container.scrollHeight - prevScrollHeightRef.current;
+      prevScrollHeightRef.current = null;
+    } else if (lastMessageKey !== lastMessageKeyRef.current) {
+      messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+
+    lastMessageKeyRef.current = lastMessageKey;
+  }, [messages, outgoingMessages, isLoadingOlderMessages]);
 
+  // Messages on screen are read; one receipt covers everything up to the latest
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+    if (!messages || !user) return;
+
+    const latestIncoming = messages.slice().reverse().find(m => m.senderId !== user.id);
+    if (latestIncoming && !latestIncoming.receipts?.[user.id]?.readAt) {
+      sendReadReceipt(latestIncoming.id);
+    }
+  }, [messages, user, sendReadReceipt]);
+
+  // Jump to a message opened from search, paging back until it is loaded
+  useEffect(() => {
+    if (!focusedMessageId || !messages) return;
+
+    const element = document.getElementById(`message-${focusedMessageId}`);
+    if (element) {
+      element.scrollIntoView({ behavior: "smooth", block: "center" });
+      setHighlightedMessageId(focusedMessageId);
+      clearFocusedMessage();
+    } else if (hasOlderMessages) {
+      loadOlderMessages();
+    } else if (!isLoadingOlderMessages) {
+      clearFocusedMessage();
+    }
+  }, [focusedMessageId, messages, hasOlderMessages, isLoadingOlderMessages, loadOlderMessages, clearFocusedMessage]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (!container || !hasOlderMessages || isLoadingOlderMessages) return;
+
+    if (container.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+      prevScrollHeightRef.current = container.scrollHeight;
+      loadOlderMessages();
+    }
+  };
+
+  const startEditing = (messageId: number) => {
+    const message = messages?.find(m => m.id === messageId);
+    if (!message) return;
+    setEditingMessageId(messageId);
+    setEditContent(message.content);
+  };
+
+  const handleReply = (messageId: number) => {
+    const message = messages?.find(m => m.id === messageId);
+    if (message && onReply) onReply(message);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditContent("");
+  };
+
+  const saveEdit = () => {
+    const content = editContent.trim();
+    const message = messages?.find(m => m.id === editingMessageId);
+    if (message && content && content !== message.content) {
+      editMessage(message.id, content);
+    }
+    cancelEditing();
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit();
+    } else if (e.key === 'Escape') {
+      cancelEditing();
+    }
+  };
 
   const formatTime = (date: string | Date) => {
     const dateObj = typeof date === 'string' ? new Date(date) : date;
@@ -48,7 +180,7 @@ export function MessageList() {
     );
   }
 
-  if (!messages || messages.length === 0) {
+  if ((!messages || messages.length === 0) && outgoingMessages.length === 0) {
     return (
       <div className="flex-1 flex items-center justify-center">
         <div className="text-center text-muted-foreground">
@@ -67,17 +199,31 @@ export function MessageList() {
   let lastDate: string | null = null;
 
   return (
-    <div className="flex-1 overflow-y-auto">
+    <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto">
       <div className="px-4 py-6 space-y-4">
-        {messages.map((message, index) => {
+        {isLoadingOlderMessages && (
+          <div className="flex justify-center">
+            <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        )}
+
+        {messages?.map((message, index) => {
           const isOwnMessage = message.senderId === user?.id;
+          const isDeleted = !!message.deletedAt;
+          // One-to-one conversations have a single recipient receipt
+          const receipt = Object.values(message.receipts || {})[0];
+          const isEditing = editingMessageId === message.id;
           const messageDate = typeof message.createdAt === 'string' ? message.createdAt : new Date().toISOString();
           const currentDate = formatDate(messageDate);
           const showDateSeparator = lastDate !== currentDate;
           if (showDateSeparator) lastDate = currentDate;
           
           return (
-            <div key={message.id}>
+            <div
+              key={message.id}
+              id={`message-${message.id}`}
+              className={`rounded-lg transition-colors ${highlightedMessageId === message.id ? "bg-primary/10" : ""}`}
+            >
               {showDateSeparator && (
                 <div className="flex items-center justify-center my-6">
                   <div className="bg-muted/50 px-3 py-1 rounded-full">
@@ -114,46 +260,110 @@ export function MessageList() {
                         : "bg-muted text-foreground rounded-bl-sm"
                     }`}
                   >
-                    {message.messageType === 'image' && message.fileUrl ? (
+                    {message.replyTo && !isDeleted && (
+                      <MessageQuote message={message.replyTo} className="mb-1.5" />
+                    )}
+
+                    {isDeleted ? (
+                      <p className="text-sm italic opacity-70">This message was deleted</p>
+                    ) : isEditing ? (
+                      <div className="flex flex-col gap-2 min-w-[240px]">
+                        <Textarea
+                          value={editContent}
+                          onChange={(e) => setEditContent(e.target.value)}
+                          onKeyDown={handleEditKeyDown}
+                          maxLength={MAX_MESSAGE_LENGTH}
+                          className="min-h-[60px] text-sm text-foreground bg-background"
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" className="h-7" onClick={cancelEditing}>
+                            Cancel
+                          </Button>
+                          <Button variant="secondary" size="sm" className="h-7" onClick={saveEdit}>
+                            Save
+                          </Button>
+                        </div>
+                      </div>
+                    ) : message.messageType === 'image' && message.fileUrl ? (
                       <FileMessage 
                         fileName={message.fileName || 'image'} 
                         fileUrl={message.fileUrl} 
-                        fileType="image/*"
+                        fileType={message.media?.mimeType || "image/*"}
                         fileSize={message.fileSize || undefined}
+                        media={message.media}
                       />
+                    ) : message.messageType === 'voice' && message.fileUrl ? (
+                      <VoiceMessage fileUrl={message.fileUrl} media={message.media} />
                     ) : message.messageType === 'file' && message.fileUrl ? (
                       <FileMessage 
                         fileName={message.fileName || 'file'} 
                         fileUrl={message.fileUrl} 
-                        fileType="application/*"
+                        fileType={message.media?.mimeType || "application/*"}
                         fileSize={message.fileSize || undefined}
+                        media={message.media}
                       />
                     ) : (
-                      <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">{message.content}</p>
+                      <>
+                        <MessageText content={message.content} />
+                        {message.linkPreview && <LinkPreviewCard preview={message.linkPreview} />}
+                      </>
                     )}
                     
-                    <MessageReactions
-                      messageId={message.id}
-                      reactions={(message.reactions as Record<string, string[]>) || {}}
-                      currentUserId={user?.id || ''}
-                      onReaction={addReaction}
-                    />
+                    {!isDeleted && (
+                      <MessageReactions
+                        messageId={message.id}
+                        reactions={(message.reactions as Record<string, string[]>) || {}}
+                        currentUserId={user?.id || ''}
+                        onReaction={addReaction}
+                      />
+                    )}
                   </div>
                   
                   <div className={`flex items-center gap-1.5 px-1 ${isOwnMessage ? "flex-row-reverse" : "flex-row"}`}>
                     <span className="text-xs text-muted-foreground">
                       {formatTime(messageDate)}
                     </span>
+                    {message.editedAt && !isDeleted && (
+                      <span className="text-xs text-muted-foreground">edited</span>
+                    )}
                     {isOwnMessage && (
                       <div className="text-xs">
-                        {message.isRead ? (
+                        {receipt?.readAt ? (
                           <CheckCheck className="w-3.5 h-3.5 text-primary" />
+                        ) : receipt?.deliveredAt ? (
+                          <CheckCheck className="w-3.5 h-3.5 text-muted-foreground" />
                         ) : (
                           <Check className="w-3.5 h-3.5 text-muted-foreground" />
                         )}
                       </div>
                     )}
+                    {!isDeleted && !isEditing && (
+                      <MessageActions
+                        messageId={message.id}
+                        isOwnMessage={isOwnMessage}
+                        canEdit={!message.fileUrl}
+                        onEdit={startEditing}
+                        onDelete={deleteMessage}
+                        onReply={onReply ? handleReply : undefined}
+                        onReplyInThread={onOpenThread}
+                      />
+                    )}
                   </div>
+
+                  {!!message.replyCount && onOpenThread && (
+                    <button
+                      type="button"
+                      onClick={() => onOpenThread(message.id)}
+                      className="flex items-center gap-1 px-1 text-xs text-primary hover:underline"
+                    >
+                      <MessageSquare className="w-3 h-3" />
+                      {message.replyCount} {message.replyCount === 1 ? "reply" : "replies"}
+                      {message.lastReplyAt && (
+                        <span className="text-muted-foreground">· {formatTime(message.lastReplyAt)}</span>
+                      )}
+                    </button>
+                  )}
                 </div>
                 
                 {isOwnMessage && (
@@ -169,6 +379,50 @@ export function MessageList() {
           );
         })}
 
+        {outgoingMessages.map((entry) => (
+          <div key={entry.clientMessageId} className="flex items-start gap-2 flex-row-reverse">
+            <div className="flex flex-col gap-1 max-w-[70%] items-end">
+              <div
+                className={`rounded-2xl rounded-br-sm px-4 py-2.5 bg-primary text-primary-foreground ${
+                  entry.status === "failed" ? "opacity-50" : "opacity-70"
+                }`}
+              >
+                {entry.fileUrl ? (
+                  <p className="text-sm leading-relaxed break-words">{entry.fileName}</p>
+                ) : (
+                  <MessageText content={entry.content} />
+                )}
+              </div>
+
+              {entry.status === "failed" ? (
+                <div className="flex items-center gap-2 px-1 text-xs">
+                  <AlertCircle className="w-3.5 h-3.5 text-destructive" />
+                  <span className="text-destructive">{entry.error || "Failed to send"}</span>
+                  <button
+                    type="button"
+                    onClick={() => retryMessage(entry.clientMessageId)}
+                    className="font-medium text-foreground hover:underline"
+                  >
+                    Retry
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => discardMessage(entry.clientMessageId)}
+                    className="text-muted-foreground hover:underline"
+                  >
+                    Discard
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-1.5 px-1 text-xs text-muted-foreground">
+                  <Clock className="w-3.5 h-3.5" />
+                  <span>Sending…</span>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
         {typingUsers.size > 0 && <TypingIndicator />}
         
         <div ref={messagesEndRef} />
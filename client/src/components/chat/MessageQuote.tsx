@@ -0,0 +1,33 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { markdownToPlainText } from "@shared/markdown";
+import type { Message, User } from "@shared/schema";
+
+interface MessageQuoteProps {
+  message: Message & { sender?: User };
+  onClear?: () => void;
+  className?: string;
+}
+
+export function MessageQuote({ message, onClear, className = "" }: MessageQuoteProps) {
+  const senderName = [message.sender?.firstName, message.sender?.lastName].filter(Boolean).join(" ");
+  const preview = message.deletedAt
+    ? "This message was deleted"
+    : message.fileName && !message.content
+      ? message.fileName
+      : markdownToPlainText(message.content);
+
+  return (
+    <div className={`flex items-start gap-2 border-l-2 border-primary/60 bg-background/40 rounded-sm px-2 py-1 ${className}`}>
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-medium truncate">{senderName || "Unknown"}</p>
+        <p className={`text-xs opacity-80 truncate ${message.deletedAt ? "italic" : ""}`}>{preview}</p>
+      </div>
+      {onClear && (
+        <Button type="button" variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={onClear}>
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
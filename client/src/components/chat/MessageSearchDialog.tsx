@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Paperclip, TextSearch } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useQuery } from "@tanstack/react-query";
+import { useChat } from "@/hooks/useChat";
+import { authFetch } from "@/lib/queryClient";
+import type { MessageSearchResult } from "@shared/schema";
+
+/**
+ * Render a snippet with its matched ranges wrapped in <mark>
+ */
+function HighlightedSnippet({ snippet, highlights }: Pick<MessageSearchResult, "snippet" | "highlights">) {
+  const parts: JSX.Element[] = [];
+  let position = 0;
+
+  highlights.forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(<span key={`text-${index}`}>{snippet.slice(position, start)}</span>);
+    }
+    parts.push(
+      <mark key={`mark-${index}`} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+        {snippet.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(<span key="text-end">{snippet.slice(position)}</span>);
+
+  return <p className="text-sm text-muted-foreground line-clamp-2 break-words">{parts}</p>;
+}
+
+export function MessageSearchDialog() {
+  const [open, setOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [filesOnly, setFilesOnly] = useState(false);
+  const [onlyThisChat, setOnlyThisChat] = useState(false);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const { activeConversationId, jumpToMessage } = useChat();
+
+  const query = filesOnly ? `${searchQuery} has:file` : searchQuery;
+  const scopedConversationId = onlyThisChat ? activeConversationId : null;
+  const canSearch = searchQuery.trim().length >= 2 || filesOnly;
+
+  const { data: results, isLoading } = useQuery<MessageSearchResult[]>({
+    queryKey: ["/api/search/messages", query, scopedConversationId, from, to],
+    enabled: open && canSearch,
+    queryFn: async () => {
+      const url = new URL("/api/search/messages", window.location.origin);
+      url.searchParams.set("q", query);
+      if (scopedConversationId) url.searchParams.set("conversationId", String(scopedConversationId));
+      if (from) url.searchParams.set("from", new Date(from).toISOString());
+      // Include the whole "to" day
+      if (to) url.searchParams.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+      const response = await authFetch(url.pathname + url.search);
+      if (!response.ok) throw new Error("Failed to search messages");
+      return response.json();
+    },
+  });
+
+  const handleSelect = (result: MessageSearchResult) => {
+    if (!result.conversationId) return;
+
+    // Thread replies live in the side panel, so jump to their root instead
+    const { message } = result;
+    const threadRootId = "threadRootId" in message ? message.threadRootId : null;
+    jumpToMessage(result.conversationId, threadRootId || message.id);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-foreground"
+        >
+          <TextSearch className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Search Messages</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Input
+            placeholder="Search messages..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Checkbox id="search-files-only" checked={filesOnly} onCheckedChange={(checked) => setFilesOnly(!!checked)} />
+              <Label htmlFor="search-files-only" className="text-sm">Files only</Label>
+            </div>
+            {activeConversationId && (
+              <div className="flex items-center gap-2">
+                <Checkbox id="search-this-chat" checked={onlyThisChat} onCheckedChange={(checked) => setOnlyThisChat(!!checked)} />
+                <Label htmlFor="search-this-chat" className="text-sm">This chat only</Label>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-9" />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-9" />
+          </div>
+
+          {isLoading && canSearch && (
+            <div className="text-center py-4 text-muted-foreground">
+              Searching...
+            </div>
+          )}
+
+          {results && results.length > 0 && (
+            <div className="space-y-1 max-h-80 overflow-y-auto">
+              {results.map((result) => (
+                <div
+                  key={`${result.groupId ? "group" : "message"}-${result.message.id}`}
+                  onClick={() => handleSelect(result)}
+                  className={`p-3 rounded-lg transition-colors ${
+                    result.conversationId ? "hover:bg-accent cursor-pointer" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <span className="text-sm font-medium text-foreground truncate">
+                      {result.message.sender?.firstName} {result.message.sender?.lastName}
+                      {result.groupId && <span className="text-muted-foreground font-normal"> in group</span>}
+                    </span>
+                    {result.message.createdAt && (
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {format(new Date(result.message.createdAt), 'MMM d, yyyy')}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-start gap-1.5">
+                    {result.message.fileUrl && <Paperclip className="h-3.5 w-3.5 mt-0.5 text-muted-foreground flex-shrink-0" />}
+                    <HighlightedSnippet snippet={result.snippet} highlights={result.highlights} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canSearch && results && results.length === 0 && !isLoading && (
+            <div className="text-center py-4 text-muted-foreground">
+              No messages found
+            </div>
+          )}
+
+          {!canSearch && (
+            <div className="text-center py-4 text-muted-foreground">
+              Type at least 2 characters to search
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
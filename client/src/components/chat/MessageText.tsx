@@ -0,0 +1,99 @@
+import { useMemo } from "react";
+import { parseMarkdown, type BlockNode, type InlineNode } from "@shared/markdown";
+import { highlightCode } from "@/lib/highlight";
+import "highlight.js/styles/github-dark.css";
+
+interface MessageTextProps {
+  content: string;
+  className?: string;
+}
+
+function renderInline(nodes: InlineNode[]): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "break":
+        return <br key={i} />;
+      case "strong":
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case "emphasis":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "code":
+        return (
+          <code key={i} className="rounded bg-black/10 dark:bg-white/10 px-1 py-0.5 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      case "link":
+        // The parser only produces http(s) and mailto links
+        return (
+          <a
+            key={i}
+            href={node.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline underline-offset-2 break-all"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function CodeBlock({ text, language }: { text: string; language?: string }) {
+  const highlighted = useMemo(() => highlightCode(text, language), [text, language]);
+
+  return (
+    <pre className="my-1 max-w-full overflow-x-auto rounded-md bg-zinc-900 p-3 text-xs leading-relaxed text-zinc-100">
+      {highlighted !== null ? (
+        // highlight.js escapes the code, and only adds its own <span> tags
+        <code className="hljs bg-transparent p-0 font-mono" dangerouslySetInnerHTML={{ __html: highlighted }} />
+      ) : (
+        <code className="font-mono">{text}</code>
+      )}
+    </pre>
+  );
+}
+
+function renderBlocks(blocks: BlockNode[]): React.ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case "paragraph":
+        return <p key={i}>{renderInline(block.children)}</p>;
+      case "codeBlock":
+        return <CodeBlock key={i} text={block.text} language={block.language} />;
+      case "blockquote":
+        return (
+          <blockquote key={i} className="border-l-2 border-current/40 pl-3 opacity-90">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case "list":
+        return block.ordered ? (
+          <ol key={i} start={block.start} className="list-decimal pl-5">
+            {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+          </ol>
+        ) : (
+          <ul key={i} className="list-disc pl-5">
+            {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+          </ul>
+        );
+    }
+  });
+}
+
+/**
+ * Message content rendered from its markdown
+ * Everything is built as React elements, so text from a message is never parsed as HTML
+ */
+export function MessageText({ content, className = "" }: MessageTextProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <div className={`text-sm leading-relaxed break-words space-y-1 ${className}`}>
+      {renderBlocks(blocks)}
+    </div>
+  );
+}
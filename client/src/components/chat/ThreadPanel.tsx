@@ -0,0 +1,111 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { X } from "lucide-react";
+import { useChat } from "@/hooks/useChat";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { MessageInput } from "./MessageInput";
+import { MessageText } from "./MessageText";
+import { LinkPreviewCard } from "./LinkPreviewCard";
+import type { MessageThread, MessageWithSender } from "@shared/schema";
+
+interface ThreadPanelProps {
+  rootId: number;
+  onClose: () => void;
+}
+
+function ThreadMessage({ message }: { message: MessageWithSender }) {
+  return (
+    <div className="flex items-start gap-2">
+      <Avatar className="w-7 h-7 flex-shrink-0">
+        <AvatarImage src={message.sender?.profileImageUrl || ""} alt={message.sender?.firstName || ""} />
+        <AvatarFallback className="text-xs">
+          {(message.sender?.firstName?.[0] || "") + (message.sender?.lastName?.[0] || "") || "U"}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline gap-2">
+          <span className="text-xs font-medium">
+            {message.sender?.firstName} {message.sender?.lastName}
+          </span>
+          {message.createdAt && (
+            <span className="text-xs text-muted-foreground">
+              {format(new Date(message.createdAt), 'h:mm a')}
+            </span>
+          )}
+          {message.editedAt && !message.deletedAt && (
+            <span className="text-xs text-muted-foreground">edited</span>
+          )}
+        </div>
+        {message.deletedAt ? (
+          <p className="text-sm italic text-muted-foreground">This message was deleted</p>
+        ) : (
+          <>
+            <MessageText content={message.content} />
+            {message.linkPreview && <LinkPreviewCard preview={message.linkPreview} />}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function ThreadPanel({ rootId, onClose }: ThreadPanelProps) {
+  const { data: thread, isLoading } = useQuery<MessageThread>({
+    queryKey: [`/api/messages/${rootId}/thread`],
+  });
+  const { pendingMessages, retryMessage, discardMessage } = useChat();
+  const pendingReplies = pendingMessages.filter(entry => entry.threadRootId === rootId);
+
+  return (
+    <div className="w-80 flex flex-col border-l border-border/40 bg-background">
+      <div className="h-16 px-4 border-b border-border/40 flex items-center justify-between">
+        <h3 className="font-semibold text-sm">Thread</h3>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
+        {isLoading || !thread ? (
+          <div className="flex justify-center">
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <>
+            <ThreadMessage message={thread.root} />
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">
+                {thread.replies.length} {thread.replies.length === 1 ? "reply" : "replies"}
+              </span>
+              <div className="flex-1 border-t border-border/40"></div>
+            </div>
+            {thread.replies.map((reply) => (
+              <ThreadMessage key={reply.id} message={reply} />
+            ))}
+            {pendingReplies.map((entry) => (
+              <div key={entry.clientMessageId} className="pl-9 opacity-70">
+                <MessageText content={entry.content} />
+                {entry.status === "failed" ? (
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="text-destructive">{entry.error || "Failed to send"}</span>
+                    <button type="button" onClick={() => retryMessage(entry.clientMessageId)} className="font-medium hover:underline">
+                      Retry
+                    </button>
+                    <button type="button" onClick={() => discardMessage(entry.clientMessageId)} className="text-muted-foreground hover:underline">
+                      Discard
+                    </button>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Sending…</span>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      <MessageInput threadRootId={rootId} placeholder="Reply in thread..." />
+    </div>
+  );
+}
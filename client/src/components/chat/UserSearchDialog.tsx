@@ -7,6 +7,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useQuery } from "@tanstack/react-query";
 import { useChat } from "@/hooks/useChat";
 import { useAuth } from "@/hooks/useAuth";
+import { authFetch } from "@/lib/queryClient";
 import type { User } from "@shared/schema";
 
 export function UserSearchDialog() {
@@ -21,13 +22,7 @@ export function UserSearchDialog() {
     queryFn: async () => {
       const url = new URL("/api/users/search", window.location.origin);
       url.searchParams.set("q", searchQuery);
-      url.searchParams.set("userId", currentUser!.id);
-      const response = await fetch(url.toString(), {
-        credentials: "include",
-        headers: {
-          "x-user-id": currentUser!.id,
-        },
-      });
+      const response = await authFetch(url.pathname + url.search);
       if (!response.ok) throw new Error("Failed to search users");
       return response.json();
     },
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Pause, Play } from "lucide-react";
+import { VOICE_WAVEFORM_BARS, type MediaInfo } from "@shared/schema";
+import { formatDuration } from "@/lib/voice";
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+// Shown for recordings stored without a waveform
+const FLAT_WAVEFORM = Array.from({ length: VOICE_WAVEFORM_BARS }, () => 64);
+
+interface VoiceMessageProps {
+  fileUrl: string;
+  media?: MediaInfo | null;
+}
+
+export function VoiceMessage({ fileUrl, media }: VoiceMessageProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  // Browser recordings often leave the duration out of the file, so start from the stored one
+  const [duration, setDuration] = useState(media?.duration || 0);
+  const [rateIndex, setRateIndex] = useState(0);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+
+  const waveform = media?.waveform?.length ? media.waveform : FLAT_WAVEFORM;
+  const progress = duration > 0 ? Math.min(currentTime / duration, 1) : 0;
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.playbackRate = PLAYBACK_RATES[rateIndex];
+    }
+  }, [rateIndex]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (audio.paused) {
+      audio.play().catch((error) => console.error("Error playing voice message:", error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  // Map a pointer position on the waveform to a time in the recording
+  const seekTo = (clientX: number) => {
+    const audio = audioRef.current;
+    const bounds = waveformRef.current?.getBoundingClientRect();
+    if (!audio || !bounds || duration <= 0) return;
+
+    const fraction = Math.min(Math.max((clientX - bounds.left) / bounds.width, 0), 1);
+    audio.currentTime = fraction * duration;
+    setCurrentTime(audio.currentTime);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsScrubbing(true);
+    seekTo(e.clientX);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (isScrubbing) seekTo(e.clientX);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || (e.key !== "ArrowLeft" && e.key !== "ArrowRight")) return;
+
+    e.preventDefault();
+    const step = e.key === "ArrowLeft" ? -5 : 5;
+    audio.currentTime = Math.min(Math.max(audio.currentTime + step, 0), duration);
+    setCurrentTime(audio.currentTime);
+  };
+
+  return (
+    <div className="flex items-center gap-2 w-64 max-w-full">
+      <audio
+        ref={audioRef}
+        src={fileUrl}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+        onTimeUpdate={(e) => {
+          if (!isScrubbing) setCurrentTime(e.currentTarget.currentTime);
+        }}
+        onLoadedMetadata={(e) => {
+          if (isFinite(e.currentTarget.duration)) setDuration(e.currentTarget.duration);
+        }}
+      />
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={togglePlayback}
+        className="h-8 w-8 p-0 rounded-full shrink-0"
+        aria-label={isPlaying ? "Pause voice message" : "Play voice message"}
+      >
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+
+      <div
+        ref={waveformRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="Playback position"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration)}
+        aria-valuenow={Math.round(currentTime)}
+        aria-valuetext={formatDuration(currentTime)}
+        className="flex-1 flex items-center gap-px h-8 cursor-pointer touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setIsScrubbing(false)}
+        onPointerCancel={() => setIsScrubbing(false)}
+        onKeyDown={handleKeyDown}
+      >
+        {waveform.map((level, i) => (
+          <div
+            key={i}
+            className={`flex-1 rounded-full ${(i + 0.5) / waveform.length <= progress ? "bg-current" : "bg-current opacity-30"}`}
+            style={{ height: `${Math.max(level / 255, 0.1) * 100}%` }}
+          />
+        ))}
+      </div>
+
+      <span className="text-xs tabular-nums opacity-70 shrink-0">
+        {formatDuration(isPlaying || currentTime > 0 ? currentTime : duration)}
+      </span>
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => setRateIndex((rateIndex + 1) % PLAYBACK_RATES.length)}
+        className="h-6 px-1.5 text-xs shrink-0"
+        aria-label="Playback speed"
+      >
+        {PLAYBACK_RATES[rateIndex]}×
+      </Button>
+    </div>
+  );
+}
@@ -1,72 +1,135 @@
-import { useState, useEffect, useCallback } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect, useCallback, useMemo, useSyncExternalStore } from "react";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, type Query } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import {
+  OUTBOX_QUERY_KEY,
+  createClientMessageId,
+  deleteOutboxMessage,
+  flushOutbox,
+  getOutboxMessages,
+  putOutboxMessage,
+  type OutboxMessage,
+} from "@/lib/outbox";
 import { useSocket } from "./useSocket";
 import { useAuth } from "./useAuth";
 import type { Conversation, Message, MessageWithSender, User } from "@shared/schema";
 
+const MESSAGE_PAGE_SIZE = 50;
+
+type MessagePageResponse = {
+  messages: MessageWithSender[];
+  hasMore: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+};
+
+// The open conversation and the message to jump to are shared by every
+// component that calls useChat, so the sidebar, search and message list agree
+type ChatSelection = {
+  activeConversationId: number | null;
+  focusedMessageId: number | null;
+};
+
+let chatSelection: ChatSelection = { activeConversationId: null, focusedMessageId: null };
+const selectionListeners = new Set<() => void>();
+
+function updateChatSelection(update: Partial<ChatSelection>) {
+  chatSelection = { ...chatSelection, ...update };
+  selectionListeners.forEach(listener => listener());
+}
+
+function subscribeChatSelection(listener: () => void) {
+  selectionListeners.add(listener);
+  return () => {
+    selectionListeners.delete(listener);
+  };
+}
+
+// Thread queries are keyed by their URL, e.g. "/api/messages/12/thread"
+const isThreadQuery = (query: Query) => String(query.queryKey[0]).endsWith("/thread");
+
 export function useChat() {
   const { user } = useAuth();
   const { sendMessage: sendSocketMessage, subscribe } = useSocket();
   const queryClient = useQueryClient();
-  const [activeConversationId, setActiveConversationId] = useState<number | null>(null);
+  const { activeConversationId, focusedMessageId } = useSyncExternalStore(
+    subscribeChatSelection,
+    () => chatSelection,
+  );
+
+  const setActiveConversationId = useCallback((conversationId: number | null) => {
+    updateChatSelection({ activeConversationId: conversationId, focusedMessageId: null });
+  }, []);
+
+  // Open a conversation scrolled to one of its messages
+  const jumpToMessage = useCallback((conversationId: number, messageId: number) => {
+    updateChatSelection({ activeConversationId: conversationId, focusedMessageId: messageId });
+  }, []);
+
+  const clearFocusedMessage = useCallback(() => {
+    updateChatSelection({ focusedMessageId: null });
+  }, []);
   const [typingUsers, setTypingUsers] = useState<Map<number, Set<string>>>(new Map());
 
   // Get conversations
   const { data: conversations, isLoading: conversationsLoading } = useQuery<Conversation[]>({
     queryKey: ["/api/conversations", user?.id],
     enabled: !!user,
-    queryFn: async () => {
-      const url = new URL("/api/conversations", window.location.origin);
-      url.searchParams.set("userId", user!.id);
-      const res = await fetch(url.toString(), {
-        credentials: "include",
-        headers: {
-          "x-user-id": user!.id,
-        },
-      });
-      if (!res.ok) throw new Error("Failed to fetch conversations");
-      return res.json();
-    },
   });
 
-  // Get messages for active conversation
-  const { data: messages, isLoading: messagesLoading } = useQuery<MessageWithSender[]>({
+  // Get messages for active conversation, newest page first; older pages
+  // are fetched with the start cursor of the oldest page loaded so far
+  const {
+    data: messagePages,
+    isLoading: messagesLoading,
+    fetchNextPage,
+    hasNextPage: hasOlderMessages,
+    isFetchingNextPage: isLoadingOlderMessages,
+  } = useInfiniteQuery({
     queryKey: ["/api/conversations", activeConversationId, "messages"],
-    enabled: !!activeConversationId,
-  });
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(MESSAGE_PAGE_SIZE) });
+      if (pageParam) params.set("before", pageParam);
 
-  // Send message mutation
-  const sendMessageMutation = useMutation({
-    mutationFn: async (data: { 
-      conversationId: number; 
-      content: string; 
-      messageType?: string;
-      fileUrl?: string;
-      fileName?: string;
-      fileSize?: number;
-    }) => {
       const response = await apiRequest(
-        "POST", 
-        `/api/conversations/${data.conversationId}/messages`, 
-        {
-          content: data.content,
-          messageType: data.messageType || "text",
-          fileUrl: data.fileUrl,
-          fileName: data.fileName,
-          fileSize: data.fileSize,
-          senderId: user?.id,
-        },
-        user?.id
+        "GET",
+        `/api/conversations/${activeConversationId}/messages?${params}`,
       );
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConversationId, "messages"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations", user?.id] });
+      return response.json() as Promise<MessagePageResponse>;
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.hasMore ? lastPage.startCursor : undefined,
+    enabled: !!activeConversationId,
+  });
+
+  const messages = useMemo(
+    () => messagePages?.pages.slice().reverse().flatMap(page => page.messages),
+    [messagePages],
+  );
+
+  const loadOlderMessages = useCallback(() => {
+    if (hasOlderMessages && !isLoadingOlderMessages) {
+      fetchNextPage();
+    }
+  }, [hasOlderMessages, isLoadingOlderMessages, fetchNextPage]);
+
+  // Messages written but not yet stored by the server, oldest first
+  const { data: outboxMessages = [] } = useQuery<OutboxMessage[]>({
+    queryKey: OUTBOX_QUERY_KEY,
+    queryFn: getOutboxMessages,
+    enabled: !!user,
   });
 
+  // Leave out entries the server already has but the outbox hasn't dropped yet
+  const pendingMessages = useMemo(() => {
+    const storedIds = new Set((messages || []).map(m => m.clientMessageId));
+    return outboxMessages.filter(entry =>
+      entry.senderId === user?.id &&
+      entry.conversationId === activeConversationId &&
+      !storedIds.has(entry.clientMessageId)
+    );
+  }, [outboxMessages, messages, user?.id, activeConversationId]);
+
   // Create conversation mutation
   const createConversationMutation = useMutation({
     mutationFn: async (participantId: string) => {
@@ -74,10 +137,8 @@ export function useChat() {
         "POST", 
         "/api/conversations", 
         {
-          participant1Id: user?.id,
           participant2Id: participantId,
         },
-        user?.id
       );
       return response.json();
     },
@@ -93,8 +154,6 @@ export function useChat() {
       await apiRequest(
         "PATCH", 
         `/api/conversations/${conversationId}/read`,
-        { userId: user?.id },
-        user?.id
       );
     },
     onSuccess: () => {
@@ -105,13 +164,56 @@ export function useChat() {
   // Handle incoming messages
   useEffect(() => {
     const unsubscribeMessage = subscribe("message", (data) => {
+      const { conversationId, message } = data;
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
+      if (message?.threadRootId) {
+        queryClient.invalidateQueries({ queryKey: [`/api/messages/${message.threadRootId}/thread`] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", user?.id] });
+    });
+
+    const unsubscribeReaction = subscribe("messageReaction", (data) => {
+      const { conversationId } = data;
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
+    });
+
+    const unsubscribeEdited = subscribe("messageEdited", (data) => {
+      const { conversationId } = data;
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
+      queryClient.invalidateQueries({ predicate: isThreadQuery });
+    });
+
+    // Previews are fetched after sending, so they arrive separately
+    const unsubscribeLinkPreview = subscribe("linkPreview", (data) => {
       const { conversationId } = data;
+      if (!conversationId) return;
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
+      queryClient.invalidateQueries({ predicate: isThreadQuery });
+    });
+
+    const unsubscribeDeleted = subscribe("messageDeleted", (data) => {
+      const { conversationId } = data;
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
+      queryClient.invalidateQueries({ predicate: isThreadQuery });
+    });
+
+    // Receipts only change the ticks on the sender's messages
+    const unsubscribeDelivered = subscribe("messageDelivered", (data) => {
+      const { conversationId } = data;
+      if (!conversationId) return;
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
+    });
+
+    const unsubscribeRead = subscribe("messageRead", (data) => {
+      const { conversationId } = data;
+      if (!conversationId) return;
       queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
       queryClient.invalidateQueries({ queryKey: ["/api/conversations", user?.id] });
     });
 
     const unsubscribeTyping = subscribe("typing", (data) => {
       const { conversationId, userId, isTyping } = data;
+      if (!conversationId) return;
       setTypingUsers(prev => {
         const newMap = new Map(prev);
         if (!newMap.has(conversationId)) {
@@ -129,26 +231,78 @@ export function useChat() {
 
     return () => {
       unsubscribeMessage();
+      unsubscribeReaction();
+      unsubscribeEdited();
+      unsubscribeLinkPreview();
+      unsubscribeDeleted();
+      unsubscribeDelivered();
+      unsubscribeRead();
       unsubscribeTyping();
     };
   }, [subscribe, queryClient]);
 
-  const sendMessage = useCallback((content: string, fileData?: {
+  // Replay the outbox after a reload and whenever the connection comes back
+  useEffect(() => {
+    if (!user) return;
+
+    const flush = () => {
+      flushOutbox(user.id).then(() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations", user.id] });
+      });
+    };
+
+    flush();
+    const unsubscribeConnect = subscribe("connect", flush);
+    window.addEventListener("online", flush);
+
+    return () => {
+      unsubscribeConnect();
+      window.removeEventListener("online", flush);
+    };
+  }, [user?.id, subscribe, queryClient]);
+
+  // Messages go through the outbox so they survive reloads and lost connections
+  const sendMessage = useCallback(async (content: string, fileData?: {
     messageType: string;
     fileUrl: string;
     fileName: string;
     fileSize: number;
+  }, reply?: {
+    replyToId?: number;
+    threadRootId?: number;
   }) => {
-    if (!activeConversationId) return;
-    sendMessageMutation.mutate({
+    if (!activeConversationId || !user) return;
+
+    await putOutboxMessage({
+      clientMessageId: createClientMessageId(),
       conversationId: activeConversationId,
+      senderId: user.id,
       content,
       messageType: fileData?.messageType || "text",
       fileUrl: fileData?.fileUrl,
       fileName: fileData?.fileName,
       fileSize: fileData?.fileSize,
+      replyToId: reply?.replyToId,
+      threadRootId: reply?.threadRootId,
+      status: "pending",
+      createdAt: new Date().toISOString(),
     });
-  }, [activeConversationId, sendMessageMutation]);
+
+    await flushOutbox(user.id);
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations", user.id] });
+  }, [activeConversationId, user, queryClient]);
+
+  const retryMessage = useCallback(async (clientMessageId: string) => {
+    const entry = outboxMessages.find(m => m.clientMessageId === clientMessageId);
+    if (!entry || !user) return;
+
+    await putOutboxMessage({ ...entry, status: "pending", error: undefined });
+    await flushOutbox(user.id);
+  }, [outboxMessages, user]);
+
+  const discardMessage = useCallback((clientMessageId: string) => {
+    deleteOutboxMessage(clientMessageId);
+  }, []);
 
   const startConversation = useCallback((participantId: string) => {
     createConversationMutation.mutate(participantId);
@@ -159,10 +313,19 @@ export function useChat() {
     sendSocketMessage({
       type: "typing",
       conversationId: activeConversationId,
-      userId: user?.id,
       isTyping,
     });
-  }, [activeConversationId, sendSocketMessage, user?.id]);
+  }, [activeConversationId, sendSocketMessage]);
+
+  // Tell the sender everything up to messageId has been read
+  const sendReadReceipt = useCallback((messageId: number) => {
+    if (!activeConversationId) return;
+    sendSocketMessage({
+      type: "messageRead",
+      conversationId: activeConversationId,
+      messageId,
+    });
+  }, [activeConversationId, sendSocketMessage]);
 
   const markAsRead = useCallback((conversationId: number) => {
     markAsReadMutation.mutate(conversationId);
@@ -173,8 +336,7 @@ export function useChat() {
       await apiRequest(
         "POST", 
         `/api/messages/${messageId}/reactions`, 
-        { emoji, userId: user?.id },
-        user?.id
+        { emoji },
       );
       queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConversationId, "messages"] });
     } catch (error) {
@@ -182,19 +344,56 @@ export function useChat() {
     }
   }, [activeConversationId, queryClient, user?.id]);
 
+  const editMessage = useCallback(async (messageId: number, content: string) => {
+    try {
+      await apiRequest(
+        "PATCH",
+        `/api/messages/${messageId}`,
+        { content },
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConversationId, "messages"] });
+    } catch (error) {
+      console.error("Error editing message:", error);
+    }
+  }, [activeConversationId, queryClient]);
+
+  const deleteMessage = useCallback(async (messageId: number, scope: "me" | "everyone") => {
+    try {
+      await apiRequest(
+        "DELETE",
+        `/api/messages/${messageId}?scope=${scope}`,
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConversationId, "messages"] });
+    } catch (error) {
+      console.error("Error deleting message:", error);
+    }
+  }, [activeConversationId, queryClient]);
+
   return {
     conversations,
     conversationsLoading,
     messages,
     messagesLoading,
+    pendingMessages,
+    retryMessage,
+    discardMessage,
+    hasOlderMessages,
+    isLoadingOlderMessages,
+    loadOlderMessages,
     activeConversationId,
     setActiveConversationId,
+    focusedMessageId,
+    jumpToMessage,
+    clearFocusedMessage,
     sendMessage,
     startConversation,
     sendTypingIndicator,
+    sendReadReceipt,
     markAsRead,
     addReaction,
+    editMessage,
+    deleteMessage,
     typingUsers: typingUsers.get(activeConversationId || 0) || new Set(),
-    isLoading: sendMessageMutation.isPending || createConversationMutation.isPending,
+    isLoading: createConversationMutation.isPending,
   };
 }
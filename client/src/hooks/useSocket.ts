@@ -1,6 +1,7 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useAuth } from "./useAuth";
 import { socket } from "../lib/socket";
+import { authFetch } from "../lib/queryClient";
 
 export interface SocketMessage {
   type: string;
@@ -17,9 +18,6 @@ export function useSocket() {
     function onConnect() {
       setIsConnected(true);
       console.log("Socket connected");
-
-      // Authenticate with the server
-      socket.emit('auth', { userId: user?.id });
     }
 
     function onDisconnect() {
@@ -32,24 +30,34 @@ export function useSocket() {
       socket.connect();
     }
 
-    socket.on("connect", onConnect);
-    socket.on("disconnect", onDisconnect);
+    // The handshake is authenticated with the access token cookie; when it has
+    // expired, refresh it and try again
+    async function onConnectError(error: Error) {
+      if (error.message !== "Unauthorized") return;
 
-    // If already connected, authenticate immediately
-    if (socket.connected) {
-      onConnect();
+      const res = await authFetch("/api/auth/refresh", { method: "POST" });
+      if (res.ok) {
+        socket.connect();
+      }
     }
 
+    socket.on("connect", onConnect);
+    socket.on("disconnect", onDisconnect);
+    socket.on("connect_error", onConnectError);
+
     return () => {
       socket.off("connect", onConnect);
       socket.off("disconnect", onDisconnect);
+      socket.off("connect_error", onConnectError);
       // We don't necessarily want to disconnect on unmount if we want to keep the connection alive across pages,
       // but for now let's leave it managed by the app state or explicit disconnects.
       // socket.disconnect(); 
     };
   }, [isAuthenticated, user]);
 
-  const sendMessage = (message: SocketMessage) => {
+  // Both only use the shared socket, so they keep their identity across
+  // renders and effects that depend on them don't re-run every time
+  const sendMessage = useCallback((message: SocketMessage) => {
     if (socket.connected) {
       // For Socket.IO, we usually emit specific events, but to keep compatibility with the existing
       // message structure (type: 'typing', etc.), we can emit them as events or a generic 'message' event.
@@ -68,14 +76,16 @@ export function useSocket() {
       // So if message.type is 'typing', we should emit 'typing'.
       if (message.type === 'typing') {
         socket.emit('typing', message);
+      } else if (message.type === 'messageRead') {
+        socket.emit('messageRead', message);
       } else {
         // Fallback or other types
         console.warn("Unknown message type for socket:", message.type);
       }
     }
-  };
+  }, []);
 
-  const subscribe = (type: string, handler: (data: any) => void) => {
+  const subscribe = useCallback((type: string, handler: (data: any) => void) => {
     // Map generic types to specific socket events if needed
     // The server emits: 'message', 'typing', 'userStatus', 'userList'
 
@@ -86,7 +96,7 @@ export function useSocket() {
     return () => {
       socket.off(eventName, handler);
     };
-  };
+  }, []);
 
   return {
     isConnected,
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { MAX_VOICE_DURATION } from "@shared/schema";
+import { finishRecording, preferredRecordingType, type VoiceRecording } from "@/lib/voice";
+
+/**
+ * Record a voice message from the microphone
+ * Recording stops by itself at MAX_VOICE_DURATION; the recording is then
+ * returned by the next call to stop()
+ */
+export function useVoiceRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  // Seconds recorded so far
+  const [elapsed, setElapsed] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const stoppedRef = useRef<Promise<void> | null>(null);
+
+  const release = useCallback(() => {
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    recorderRef.current = null;
+    setIsRecording(false);
+    setElapsed(0);
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream, { mimeType: preferredRecordingType() });
+
+    chunksRef.current = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    stoppedRef.current = new Promise((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    recorder.start(1000);
+    setIsRecording(true);
+  }, []);
+
+  const stop = useCallback(async (): Promise<VoiceRecording | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder) return null;
+
+    if (recorder.state !== "inactive") recorder.stop();
+    await stoppedRef.current;
+
+    const duration = (Date.now() - startedAtRef.current) / 1000;
+    const chunks = chunksRef.current;
+    release();
+
+    if (chunks.length === 0) return null;
+    return finishRecording(chunks, recorder.mimeType, Math.min(duration, MAX_VOICE_DURATION));
+  }, [release]);
+
+  const cancel = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+    chunksRef.current = [];
+    release();
+  }, [release]);
+
+  // Tick the timer, and stop at the length limit without discarding the recording
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const interval = setInterval(() => {
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      setElapsed(seconds);
+      if (seconds >= MAX_VOICE_DURATION && recorderRef.current?.state === "recording") {
+        recorderRef.current.stop();
+      }
+    }, 250);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Let go of the microphone when the component goes away mid-recording
+  useEffect(() => cancel, [cancel]);
+
+  return { isRecording, elapsed, start, stop, cancel };
+}
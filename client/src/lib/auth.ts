@@ -75,6 +75,18 @@ export async function logout(): Promise<void> {
   }
 }
 
+/**
+ * Logout on every device
+ * Revokes all sessions of the current user and clears localStorage
+ */
+export async function logoutAllDevices(): Promise<void> {
+  try {
+    await api.post('/api/auth/logout-all');
+  } finally {
+    localStorage.removeItem('user');
+  }
+}
+
 /**
  * Get current user from localStorage
  * @returns User object or null if not logged in
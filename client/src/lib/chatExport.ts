@@ -0,0 +1,26 @@
+import { api } from "./api";
+
+export type ChatExportFormat = "html" | "txt" | "json";
+
+export const CHAT_EXPORT_FORMATS: { format: ChatExportFormat; label: string }[] = [
+  { format: "html", label: "Web page (with images)" },
+  { format: "txt", label: "Plain text" },
+  { format: "json", label: "JSON" },
+];
+
+/**
+ * Download a conversation's transcript
+ * The browser fetches the file itself, so a long history streams straight
+ * to disk. The session is checked first, since a plain download can't
+ * refresh an expired access token.
+ */
+export async function downloadChatExport(conversationId: number, format: ChatExportFormat): Promise<void> {
+  await api.get("/api/auth/me");
+
+  const link = document.createElement("a");
+  link.href = api.getUri({ url: `/api/conversations/${conversationId}/export`, params: { format } });
+  link.download = "";
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
@@ -0,0 +1,162 @@
+/**
+ * Markdown formatting commands for the message box
+ * Each takes the text and selection and returns them with the format applied,
+ * or removed when the selection already has it.
+ */
+
+export type FormatAction =
+  | "bold"
+  | "italic"
+  | "code"
+  | "codeBlock"
+  | "link"
+  | "quote"
+  | "bulletList"
+  | "numberedList";
+
+export interface TextSelection {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const INLINE_MARKERS: Partial<Record<FormatAction, string>> = {
+  bold: "**",
+  italic: "_",
+  code: "`",
+};
+
+const LINE_PREFIXES: Partial<Record<FormatAction, (index: number) => string>> = {
+  quote: () => "> ",
+  bulletList: () => "- ",
+  numberedList: (index) => `${index + 1}. `,
+};
+
+const PREFIX_PATTERNS: Partial<Record<FormatAction, RegExp>> = {
+  quote: /^>\s?/,
+  bulletList: /^[-*+]\s+/,
+  numberedList: /^\d+[.)]\s+/,
+};
+
+function wrapInline({ value, selectionStart, selectionEnd }: TextSelection, marker: string): TextSelection {
+  const before = value.slice(0, selectionStart);
+  const selected = value.slice(selectionStart, selectionEnd);
+  const after = value.slice(selectionEnd);
+
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      value: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+      selectionStart: selectionStart - marker.length,
+      selectionEnd: selectionEnd - marker.length,
+    };
+  }
+
+  return {
+    value: before + marker + selected + marker + after,
+    selectionStart: selectionStart + marker.length,
+    selectionEnd: selectionEnd + marker.length,
+  };
+}
+
+function insertLink({ value, selectionStart, selectionEnd }: TextSelection): TextSelection {
+  const selected = value.slice(selectionStart, selectionEnd);
+
+  // A selected URL becomes the target, leaving the cursor in place for the text
+  if (/^https?:\/\/\S+$/i.test(selected)) {
+    return {
+      value: `${value.slice(0, selectionStart)}[](${selected})${value.slice(selectionEnd)}`,
+      selectionStart: selectionStart + 1,
+      selectionEnd: selectionStart + 1,
+    };
+  }
+
+  const placeholder = "https://";
+  const urlStart = selectionStart + selected.length + 3;
+  return {
+    value: `${value.slice(0, selectionStart)}[${selected}](${placeholder})${value.slice(selectionEnd)}`,
+    selectionStart: urlStart,
+    selectionEnd: urlStart + placeholder.length,
+  };
+}
+
+function insertCodeBlock({ value, selectionStart, selectionEnd }: TextSelection): TextSelection {
+  const before = value.slice(0, selectionStart);
+  const after = value.slice(selectionEnd);
+  // Fences only count on lines of their own
+  const open = (before && !before.endsWith("\n") ? "\n" : "") + "```\n";
+  const close = "\n```" + (after && !after.startsWith("\n") ? "\n" : "");
+
+  return {
+    value: before + open + value.slice(selectionStart, selectionEnd) + close + after,
+    selectionStart: selectionStart + open.length,
+    selectionEnd: selectionEnd + open.length,
+  };
+}
+
+function toggleLinePrefix({ value, selectionStart, selectionEnd }: TextSelection, action: FormatAction): TextSelection {
+  const prefix = LINE_PREFIXES[action]!;
+  const pattern = PREFIX_PATTERNS[action]!;
+
+  // Work on whole lines, from the start of the first selected one
+  const lineStart = value.lastIndexOf("\n", selectionStart - 1) + 1;
+  const nextBreak = value.indexOf("\n", selectionEnd);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value.slice(lineStart, lineEnd).split("\n");
+
+  const remove = lines.every((line) => pattern.test(line));
+  const updated = lines.map((line, i) => (remove ? line.replace(pattern, "") : prefix(i) + line)).join("\n");
+
+  return {
+    value: value.slice(0, lineStart) + updated + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + updated.length,
+  };
+}
+
+/**
+ * Apply a formatting command to the message box's text
+ * @returns The new text and the selection to restore
+ */
+export function applyFormat(selection: TextSelection, action: FormatAction): TextSelection {
+  const marker = INLINE_MARKERS[action];
+  if (marker) return wrapInline(selection, marker);
+  if (action === "link") return insertLink(selection);
+  if (action === "codeBlock") return insertCodeBlock(selection);
+  return toggleLinePrefix(selection, action);
+}
+
+/**
+ * The formatting command a key press is a shortcut for, if any
+ * Ctrl (Cmd on macOS) with B, I, E or K, or with Shift and C, 7, 8 or 9
+ */
+export function formatForShortcut(event: Pick<KeyboardEvent, "key" | "code" | "ctrlKey" | "metaKey" | "shiftKey" | "altKey">): FormatAction | null {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+
+  if (event.shiftKey) {
+    switch (event.code) {
+      case "KeyC":
+        return "codeBlock";
+      case "Digit7":
+        return "numberedList";
+      case "Digit8":
+        return "bulletList";
+      case "Digit9":
+        return "quote";
+      default:
+        return null;
+    }
+  }
+
+  switch (event.key.toLowerCase()) {
+    case "b":
+      return "bold";
+    case "i":
+      return "italic";
+    case "e":
+      return "code";
+    case "k":
+      return "link";
+    default:
+      return null;
+  }
+}
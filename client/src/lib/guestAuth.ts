@@ -1,4 +1,6 @@
-// Simple guest user system without authentication
+import { apiRequest, authFetch } from "./queryClient";
+
+// Guest user system; the server assigns the ID and issues the session cookies
 export interface GuestUser {
   id: string;
   name: string;
@@ -15,16 +17,23 @@ class GuestAuthManager {
       const saved = localStorage.getItem('guestUser');
       if (saved) {
         this.currentUser = JSON.parse(saved);
+        this.verifySession();
       }
     }
     return this.currentUser;
   }
 
-  setUser(name: string): GuestUser {
+  async setUser(name: string): Promise<GuestUser> {
+    const avatar = this.generateAvatar(name);
+    const res = await apiRequest("POST", "/api/guest/join", {
+      user: { name: name.trim(), avatar },
+    });
+    const { user: serverUser } = await res.json();
+
     const user: GuestUser = {
-      id: `guest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: serverUser.id,
       name: name.trim(),
-      avatar: this.generateAvatar(name),
+      avatar,
       joinedAt: new Date(),
     };
 
@@ -34,7 +43,13 @@ class GuestAuthManager {
     return user;
   }
 
-  clearUser(): void {
+  async clearUser(): Promise<void> {
+    try {
+      await apiRequest("POST", "/api/auth/logout");
+    } catch (error) {
+      console.error("Logout error:", error);
+    }
+
     this.currentUser = null;
     localStorage.removeItem('guestUser');
     this.notifyListeners(null);
@@ -53,6 +68,16 @@ class GuestAuthManager {
     };
   }
 
+  // Drop a stored guest whose session can no longer be refreshed
+  private async verifySession(): Promise<void> {
+    const res = await authFetch("/api/auth/me");
+    if (res.status === 401) {
+      this.currentUser = null;
+      localStorage.removeItem('guestUser');
+      this.notifyListeners(null);
+    }
+  }
+
   private generateAvatar(name: string): string {
     const colors = [
       '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEAA7',
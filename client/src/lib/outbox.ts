@@ -0,0 +1,171 @@
+import { authFetch, queryClient } from "./queryClient";
+import type { Message } from "@shared/schema";
+
+/**
+ * Offline outbox for outgoing messages
+ * Every message is stored here before it is posted and removed once the server
+ * has it. The clientMessageId makes replays safe: the server returns the
+ * already-stored message instead of creating a duplicate.
+ */
+
+export type OutboxStatus = "pending" | "failed";
+
+export interface OutboxMessage {
+  clientMessageId: string;
+  conversationId: number;
+  senderId: string;
+  content: string;
+  messageType: string;
+  fileUrl?: string;
+  fileName?: string;
+  fileSize?: number;
+  replyToId?: number;
+  threadRootId?: number;
+  status: OutboxStatus;
+  error?: string;
+  createdAt: string;
+}
+
+export const OUTBOX_QUERY_KEY = ["outbox"];
+
+const DB_NAME = "connect-outbox";
+const STORE_NAME = "messages";
+
+// Used when IndexedDB is unavailable (e.g. some private browsing modes)
+const memoryOutbox = new Map<string, OutboxMessage>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let flushPromise: Promise<void> | null = null;
+let flushRequested = false;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") return resolve(null);
+
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "clientMessageId" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  if (!db) throw new Error("IndexedDB unavailable");
+
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createClientMessageId(): string {
+  return crypto.randomUUID();
+}
+
+export async function getOutboxMessages(): Promise<OutboxMessage[]> {
+  let messages: OutboxMessage[];
+  try {
+    messages = await runTransaction("readonly", (store) => store.getAll());
+  } catch {
+    messages = Array.from(memoryOutbox.values());
+  }
+
+  return messages.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function putOutboxMessage(message: OutboxMessage): Promise<void> {
+  try {
+    await runTransaction("readwrite", (store) => store.put(message));
+  } catch {
+    memoryOutbox.set(message.clientMessageId, message);
+  }
+  queryClient.invalidateQueries({ queryKey: OUTBOX_QUERY_KEY });
+}
+
+export async function deleteOutboxMessage(clientMessageId: string): Promise<void> {
+  try {
+    await runTransaction("readwrite", (store) => store.delete(clientMessageId));
+  } catch {
+    memoryOutbox.delete(clientMessageId);
+  }
+  queryClient.invalidateQueries({ queryKey: OUTBOX_QUERY_KEY });
+}
+
+/**
+ * Post one outbox message
+ * Network errors leave it pending for the next flush; an error response from
+ * the server marks it failed so the user can retry or discard it.
+ */
+async function postOutboxMessage(entry: OutboxMessage): Promise<"sent" | "failed" | "offline"> {
+  let res: Response;
+  try {
+    res = await authFetch(`/api/conversations/${entry.conversationId}/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        clientMessageId: entry.clientMessageId,
+        content: entry.content,
+        messageType: entry.messageType,
+        fileUrl: entry.fileUrl,
+        fileName: entry.fileName,
+        fileSize: entry.fileSize,
+        replyToId: entry.replyToId,
+        threadRootId: entry.threadRootId,
+      }),
+    });
+  } catch {
+    return "offline";
+  }
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    await putOutboxMessage({ ...entry, status: "failed", error: body.message || res.statusText });
+    return "failed";
+  }
+
+  const message: Message = await res.json();
+  await deleteOutboxMessage(entry.clientMessageId);
+  queryClient.invalidateQueries({ queryKey: ["/api/conversations", entry.conversationId, "messages"] });
+  if (message.threadRootId) {
+    queryClient.invalidateQueries({ queryKey: [`/api/messages/${message.threadRootId}/thread`] });
+  }
+  return "sent";
+}
+
+/**
+ * Send every pending message of a user in the order it was written
+ * Stops at the first network error so later messages can't overtake it.
+ * Calls made while a flush is running make it go round once more, so
+ * messages queued in the meantime are picked up.
+ */
+export function flushOutbox(senderId: string): Promise<void> {
+  flushRequested = true;
+
+  if (!flushPromise) {
+    flushPromise = (async () => {
+      while (flushRequested) {
+        flushRequested = false;
+
+        const pending = (await getOutboxMessages())
+          .filter((entry) => entry.senderId === senderId && entry.status === "pending");
+
+        for (const entry of pending) {
+          if (await postOutboxMessage(entry) === "offline") return;
+        }
+      }
+    })().finally(() => {
+      flushPromise = null;
+    });
+  }
+
+  return flushPromise;
+}
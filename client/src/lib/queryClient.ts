@@ -7,27 +7,39 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Fetch with the auth cookies; on 401 refresh the access token once and retry
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const res = await fetch(url, { ...init, credentials: "include" });
+  if (res.status !== 401 || url.startsWith("/api/auth/")) {
+    return res;
+  }
+
+  const refreshRes = await fetch("/api/auth/refresh", {
+    method: "POST",
+    credentials: "include",
+  });
+  if (!refreshRes.ok) {
+    return res;
+  }
+
+  return fetch(url, { ...init, credentials: "include" });
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
-  userId?: string | undefined,
 ): Promise<Response> {
   const headers: Record<string, string> = {};
   
   if (data) {
     headers["Content-Type"] = "application/json";
   }
-  
-  if (userId) {
-    headers["x-user-id"] = userId;
-  }
 
-  const res = await fetch(url, {
+  const res = await authFetch(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -37,30 +49,10 @@ export async function apiRequest(
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
-  userId?: string;
 }) => QueryFunction<T> =
-  ({ on401: unauthorizedBehavior, userId }) =>
+  ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    let url = queryKey[0] as string;
-    const headers: Record<string, string> = {};
-    
-    if (userId) {
-      headers["x-user-id"] = userId;
-      // Also add to query string for GET requests
-      try {
-        const urlObj = new URL(url, window.location.origin);
-        urlObj.searchParams.set("userId", userId);
-        url = urlObj.pathname + urlObj.search;
-      } catch {
-        // If URL construction fails, just use the original URL
-        // The header will still be sent
-      }
-    }
-    
-    const res = await fetch(url, {
-      credentials: "include",
-      headers,
-    });
+    const res = await authFetch(queryKey[0] as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -85,7 +77,3 @@ export const queryClient = new QueryClient({
   },
 });
 
-// Helper to get query function with user ID
-export const getQueryFnWithUserId = (userId: string) => {
-  return getQueryFn({ on401: "throw", userId });
-};
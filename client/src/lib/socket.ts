@@ -1,4 +1,5 @@
 import { io, Socket } from 'socket.io-client';
+import { queryClient } from './queryClient';
 
 /**
  * Socket.IO server URL from environment variable
@@ -26,3 +27,69 @@ socket.on('disconnect', () => {
 socket.on('connect_error', (error) => {
   console.error('Socket.IO connection error:', error);
 });
+
+// Acknowledge incoming messages so the server marks them delivered to this device
+socket.on('message', (_data, ack) => ack?.());
+socket.on('groupMessage', (_data, ack) => ack?.());
+
+/**
+ * Missed-event catch-up
+ * Logged server events carry a per-user seq that increases by one each time.
+ * After a reconnect, or when a gap shows up, the events after the last one
+ * applied are fetched with 'sync' and handed to the same listeners as live
+ * events. If the server no longer has them every query is refetched instead.
+ */
+const SYNC_TIMEOUT_MS = 10 * 1000;
+
+let lastSeq: number | null = null;
+let syncing = false;
+let syncRequested = false;
+
+async function syncMissedEvents() {
+  syncRequested = true;
+  if (syncing) return;
+
+  syncing = true;
+  try {
+    while (syncRequested && socket.connected) {
+      syncRequested = false;
+
+      const page = await socket.timeout(SYNC_TIMEOUT_MS).emitWithAck('sync', { since: lastSeq ?? undefined });
+      if (typeof page?.latestSeq !== 'number') {
+        console.error('Socket.IO sync failed:', page?.message);
+        return;
+      }
+
+      // The first sync only sets where to continue from
+      if (lastSeq === null || page.reset) {
+        if (page.reset) queryClient.invalidateQueries();
+        lastSeq = page.latestSeq;
+        continue;
+      }
+
+      page.events.forEach((event: { seq: number; type: string; data: any }) => {
+        lastSeq = event.seq;
+        socket.listeners(event.type).forEach((listener) => listener({ ...event.data, seq: event.seq }));
+      });
+      if (page.hasMore) syncRequested = true;
+    }
+  } catch (error) {
+    console.error('Socket.IO sync failed:', error);
+  } finally {
+    syncing = false;
+  }
+}
+
+socket.on('connect', syncMissedEvents);
+
+socket.onAny((_event, data) => {
+  const seq = data?.seq;
+  if (typeof seq !== 'number' || lastSeq === null || seq <= lastSeq) return;
+
+  // Events arriving mid-sync or after a gap are picked up by the next sync round
+  if (syncing || seq > lastSeq + 1) {
+    syncMissedEvents();
+  } else {
+    lastSeq = seq;
+  }
+});
@@ -0,0 +1,244 @@
+import { authFetch, queryClient } from "./queryClient";
+import type { MediaInfo } from "@shared/schema";
+
+export interface UploadedFile {
+  url: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  media: MediaInfo;
+}
+
+// Served by GET /api/uploads/policy
+export interface UploadPolicy {
+  allowedTypes: string[];
+  deniedTypes: string[];
+  deniedExtensions: string[];
+  maxFileSize: number;
+  // Lower limit for images, which the server re-encodes
+  maxImageSize: number;
+  // Larger files are sent in chunkSize parts through an upload session
+  maxDirectUploadSize: number;
+  chunkSize: number;
+}
+
+// Served by the /api/uploads/sessions endpoints
+interface UploadSessionStatus {
+  id: string;
+  chunkSize: number;
+  partCount: number;
+  receivedParts: number[];
+}
+
+export interface UploadOptions {
+  // Group the file will be posted to, so its size limit applies
+  groupId?: number;
+  // Called with the fraction uploaded so far, from 0 to 1
+  onProgress?: (progress: number) => void;
+  // Aborting cancels the upload and discards what was sent
+  signal?: AbortSignal;
+  // Details of a voice recording, stored with it for the player
+  voice?: { duration: number; waveform: number[] };
+}
+
+// Attempts per part before the upload fails and is left to be resumed
+const PART_ATTEMPTS = 3;
+const PART_RETRY_DELAY_MS = 1000;
+
+export const UPLOAD_POLICY_QUERY_KEY = ["/api/uploads/policy"];
+
+/**
+ * Upload refused by the server
+ * status is 413 when the file is too large and 415 when its type isn't accepted
+ */
+export class UploadError extends Error {
+  constructor(message: string, public status: number, public maxFileSize?: number) {
+    super(message);
+  }
+}
+
+function mimeTypeMatches(mimeType: string, pattern: string): boolean {
+  return pattern.endsWith("/*") ? mimeType.startsWith(pattern.slice(0, -1)) : mimeType === pattern;
+}
+
+/**
+ * Mirror of the server's type check, to refuse files before uploading them
+ * The server still sniffs the content, so this can't be relied on alone
+ */
+export function isFileTypeAllowed(file: File, policy: UploadPolicy): boolean {
+  const type = file.type.toLowerCase();
+  const extension = file.name.includes(".") ? file.name.split(".").pop()!.toLowerCase() : "";
+
+  if (policy.deniedExtensions.includes(extension)) return false;
+  if (policy.deniedTypes.some((pattern) => mimeTypeMatches(type, pattern))) return false;
+  return policy.allowedTypes.some((pattern) => mimeTypeMatches(type, pattern));
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+}
+
+async function throwUploadError(res: Response): Promise<never> {
+  const error = await res.json().catch(() => ({}));
+  throw new UploadError(error.message || res.statusText, res.status, error.maxFileSize);
+}
+
+/**
+ * Upload a file to the server's blob store
+ * Files over the policy's maxDirectUploadSize are sent in parts, which
+ * survive a dropped connection or page reload: uploading the same file
+ * again picks up from the parts the server already has.
+ * @returns The stored file; its url goes into the message's fileUrl
+ */
+export async function uploadFile(file: File, options: UploadOptions = {}): Promise<UploadedFile> {
+  const policy = await queryClient.fetchQuery<UploadPolicy>({ queryKey: UPLOAD_POLICY_QUERY_KEY });
+
+  if (file.size > policy.maxDirectUploadSize) {
+    return uploadInParts(file, options);
+  }
+
+  const { groupId, onProgress, signal, voice } = options;
+  const body = new FormData();
+  if (voice) {
+    body.append("duration", String(voice.duration));
+    body.append("waveform", JSON.stringify(voice.waveform));
+  }
+  body.append("file", file);
+
+  const url = groupId !== undefined ? `/api/uploads?groupId=${groupId}` : "/api/uploads";
+  const res = await authFetch(url, { method: "POST", body, signal });
+  if (!res.ok) {
+    await throwUploadError(res);
+  }
+
+  onProgress?.(1);
+  return res.json();
+}
+
+// Identifies a file across page reloads, to find its unfinished upload session
+function sessionStorageKey(file: File, groupId?: number): string {
+  return `upload-session:${[file.name, file.size, file.lastModified, file.type, groupId ?? ""].join(":")}`;
+}
+
+/**
+ * Whether an earlier chunked upload of this file can be resumed
+ */
+export function hasResumableUpload(file: File, groupId?: number): boolean {
+  return localStorage.getItem(sessionStorageKey(file, groupId)) !== null;
+}
+
+async function fetchUploadSession(sessionId: string): Promise<UploadSessionStatus | null> {
+  const res = await authFetch(`/api/uploads/sessions/${encodeURIComponent(sessionId)}`);
+  return res.ok ? res.json() : null;
+}
+
+async function createUploadSession(file: File, groupId?: number): Promise<UploadSessionStatus> {
+  const res = await authFetch("/api/uploads/sessions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type || "application/octet-stream",
+      groupId,
+    }),
+  });
+  if (!res.ok) {
+    await throwUploadError(res);
+  }
+  return res.json();
+}
+
+async function uploadPart(session: UploadSessionStatus, file: File, index: number, signal?: AbortSignal) {
+  const part = file.slice(index * session.chunkSize, (index + 1) * session.chunkSize);
+  const url = `/api/uploads/sessions/${encodeURIComponent(session.id)}/parts/${index}`;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const res = await authFetch(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: part,
+        signal,
+      });
+      if (res.ok) return;
+      // Only server errors are worth another try
+      if (res.status < 500 || attempt >= PART_ATTEMPTS) {
+        await throwUploadError(res);
+      }
+    } catch (error) {
+      if (error instanceof UploadError || signal?.aborted || attempt >= PART_ATTEMPTS) {
+        throw error;
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, PART_RETRY_DELAY_MS * attempt));
+  }
+}
+
+async function uploadInParts(file: File, { groupId, onProgress, signal }: UploadOptions): Promise<UploadedFile> {
+  const storageKey = sessionStorageKey(file, groupId);
+  const savedId = localStorage.getItem(storageKey);
+
+  let session = savedId ? await fetchUploadSession(savedId) : null;
+  if (!session) {
+    session = await createUploadSession(file, groupId);
+    localStorage.setItem(storageKey, session.id);
+  }
+  const sessionUrl = `/api/uploads/sessions/${encodeURIComponent(session.id)}`;
+
+  try {
+    const received = new Set(session.receivedParts);
+    const reportProgress = () => onProgress?.(Math.min(received.size * session!.chunkSize, file.size) / file.size);
+    reportProgress();
+
+    for (let index = 0; index < session.partCount; index++) {
+      if (received.has(index)) continue;
+      await uploadPart(session, file, index, signal);
+      received.add(index);
+      reportProgress();
+    }
+
+    const res = await authFetch(`${sessionUrl}/complete`, { method: "POST", signal });
+    if (!res.ok) {
+      // A refused file can't be resumed, so forget its session
+      if (res.status === 415 || res.status === 400) {
+        localStorage.removeItem(storageKey);
+      }
+      await throwUploadError(res);
+    }
+
+    localStorage.removeItem(storageKey);
+    return res.json();
+  } catch (error) {
+    if (signal?.aborted) {
+      localStorage.removeItem(storageKey);
+      authFetch(sessionUrl, { method: "DELETE" }).catch(() => {});
+    }
+    throw error;
+  }
+}
+
+/**
+ * Describe a failed upload for a toast
+ */
+export function describeUploadError(error: unknown): { title: string; description: string } {
+  if (error instanceof UploadError && error.status === 413) {
+    return {
+      title: "File too large",
+      description: error.maxFileSize
+        ? `Please select a file smaller than ${formatFileSize(error.maxFileSize)}`
+        : error.message,
+    };
+  }
+  if (error instanceof UploadError && error.status === 415) {
+    return { title: "File type not supported", description: error.message };
+  }
+  return {
+    title: "Upload failed",
+    description: error instanceof Error ? error.message : "Could not upload the file",
+  };
+}
@@ -0,0 +1,69 @@
+import { VOICE_WAVEFORM_BARS } from "@shared/schema";
+
+// First format the browser can record; every one of them is accepted by the upload policy
+const RECORDING_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"];
+
+export interface VoiceRecording {
+  file: File;
+  // Length in seconds
+  duration: number;
+  // Peak level of each slice, 0-255
+  waveform: number[];
+}
+
+export function isVoiceRecordingSupported(): boolean {
+  return typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+}
+
+export function preferredRecordingType(): string | undefined {
+  return RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Reduce decoded audio to VOICE_WAVEFORM_BARS peak levels, scaled so the
+ * loudest bar is 255
+ */
+function summarizeSamples(samples: Float32Array): number[] {
+  const sliceLength = Math.max(1, Math.floor(samples.length / VOICE_WAVEFORM_BARS));
+  const peaks: number[] = [];
+
+  for (let bar = 0; bar < VOICE_WAVEFORM_BARS; bar++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (bar + 1) * sliceLength);
+    for (let i = bar * sliceLength; i < end; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks) || 1;
+  return peaks.map((peak) => Math.round((peak / loudest) * 255));
+}
+
+/**
+ * Turn recorded chunks into a file for upload, with its duration and waveform
+ * @param elapsed - Recording time in seconds, used when the audio can't be decoded
+ */
+export async function finishRecording(chunks: Blob[], mimeType: string, elapsed: number): Promise<VoiceRecording> {
+  // Codec parameters aren't part of the type the server checks the content against
+  const type = mimeType.split(";")[0];
+  const extension = type === "audio/mp4" ? "m4a" : type.split("/")[1];
+  const file = new File(chunks, `voice-message.${extension}`, { type });
+
+  try {
+    const context = new AudioContext();
+    try {
+      const audio = await context.decodeAudioData(await file.arrayBuffer());
+      return { file, duration: audio.duration, waveform: summarizeSamples(audio.getChannelData(0)) };
+    } finally {
+      context.close();
+    }
+  } catch (error) {
+    return { file, duration: elapsed, waveform: [] };
+  }
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
@@ -10,9 +10,13 @@ export default function Landing() {
   const [name, setName] = useState("");
   const { setGuestUser } = useAuth();
 
-  const handleJoinChat = () => {
+  const handleJoinChat = async () => {
     if (name.trim()) {
-      setGuestUser(name.trim());
+      try {
+        await setGuestUser(name.trim());
+      } catch (error) {
+        console.error("Failed to join chat:", error);
+      }
     }
   };
 
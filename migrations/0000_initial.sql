@@ -0,0 +1,154 @@
+CREATE TABLE "conversations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"participant1_id" varchar NOT NULL,
+	"participant2_id" varchar NOT NULL,
+	"last_message_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "group_chats" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar NOT NULL,
+	"description" text,
+	"created_by" varchar NOT NULL,
+	"avatar" varchar,
+	"max_upload_size" integer,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "group_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_id" integer NOT NULL,
+	"user_id" varchar NOT NULL,
+	"role" varchar DEFAULT 'member',
+	"joined_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "group_messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_id" integer NOT NULL,
+	"sender_id" varchar NOT NULL,
+	"content" text NOT NULL,
+	"message_type" varchar DEFAULT 'text',
+	"file_url" varchar,
+	"file_name" varchar,
+	"file_size" integer,
+	"media" jsonb,
+	"link_preview" jsonb,
+	"reactions" jsonb DEFAULT '{}',
+	"receipts" jsonb DEFAULT '{}'::jsonb,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"conversation_id" serial NOT NULL,
+	"sender_id" varchar NOT NULL,
+	"client_message_id" varchar,
+	"content" text NOT NULL,
+	"message_type" varchar DEFAULT 'text',
+	"file_url" varchar,
+	"file_name" varchar,
+	"file_size" integer,
+	"media" jsonb,
+	"link_preview" jsonb,
+	"is_read" boolean DEFAULT false,
+	"receipts" jsonb DEFAULT '{}'::jsonb,
+	"reactions" jsonb DEFAULT '{}',
+	"reply_to_id" integer,
+	"thread_root_id" integer,
+	"reply_count" integer DEFAULT 0,
+	"last_reply_at" timestamp,
+	"edit_history" jsonb DEFAULT '[]'::jsonb,
+	"edited_at" timestamp,
+	"deleted_at" timestamp,
+	"deleted_for" jsonb DEFAULT '[]'::jsonb,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "refresh_token_families" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"current_token_id" varchar NOT NULL,
+	"previous_token_id" varchar,
+	"user_agent" varchar,
+	"rotated_at" timestamp DEFAULT now(),
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"sess" jsonb NOT NULL,
+	"expire" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "upload_sessions" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"owner_id" varchar NOT NULL,
+	"file_name" varchar NOT NULL,
+	"file_size" integer NOT NULL,
+	"mime_type" varchar NOT NULL,
+	"group_id" integer,
+	"chunk_size" integer NOT NULL,
+	"received_parts" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "uploads" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"owner_id" varchar NOT NULL,
+	"url" varchar NOT NULL,
+	"storage_key" varchar NOT NULL,
+	"file_name" varchar NOT NULL,
+	"file_size" integer NOT NULL,
+	"media" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "uploads_url_unique" UNIQUE("url")
+);
+--> statement-breakpoint
+CREATE TABLE "user_credentials" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"password_hash" varchar NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "user_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"seq" integer NOT NULL,
+	"type" varchar NOT NULL,
+	"data" jsonb,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"email" varchar,
+	"first_name" varchar,
+	"last_name" varchar,
+	"profile_image_url" varchar,
+	"is_online" boolean DEFAULT false,
+	"last_seen" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_participant1_id_users_id_fk" FOREIGN KEY ("participant1_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_participant2_id_users_id_fk" FOREIGN KEY ("participant2_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "group_members" ADD CONSTRAINT "group_members_group_id_group_chats_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."group_chats"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "group_messages" ADD CONSTRAINT "group_messages_group_id_group_chats_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."group_chats"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refresh_token_families" ADD CONSTRAINT "refresh_token_families_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "upload_sessions" ADD CONSTRAINT "upload_sessions_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "uploads" ADD CONSTRAINT "uploads_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_credentials" ADD CONSTRAINT "user_credentials_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_events" ADD CONSTRAINT "user_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "messages_sender_client_message_id" ON "messages" USING btree ("sender_id","client_message_id");--> statement-breakpoint
+CREATE INDEX "IDX_session_expire" ON "sessions" USING btree ("expire");--> statement-breakpoint
+CREATE UNIQUE INDEX "user_events_user_seq" ON "user_events" USING btree ("user_id","seq");
\ No newline at end of file
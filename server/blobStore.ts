@@ -0,0 +1,80 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { nanoid } from "nanoid";
+import { uploadFileToCloudinary, uploadToCloudinary } from "./config/cloudinary";
+import { extensionForType } from "./utils/fileType";
+
+// Where the local-disk store keeps files and the URL path they are served from
+export const LOCAL_UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || "uploads");
+export const LOCAL_UPLOAD_URL_PATH = "/uploads";
+
+export interface StoredBlob {
+  // URL that messages reference in fileUrl
+  url: string;
+  // Provider-specific key, e.g. the file name on disk or the Cloudinary public ID
+  key: string;
+}
+
+export interface IBlobStore {
+  put(data: Buffer, originalName: string, mimeType: string): Promise<StoredBlob>;
+  // Store a file from disk without loading it into memory; the source file is left in place
+  putFile(filePath: string, originalName: string, mimeType: string): Promise<StoredBlob>;
+}
+
+/**
+ * Name a stored file with a random ID and the extension of its MIME type;
+ * types without a known extension get none, and are served as binary
+ */
+function storedName(mimeType: string): string {
+  const ext = extensionForType(mimeType);
+  return ext ? `${nanoid()}.${ext}` : nanoid();
+}
+
+export class LocalDiskBlobStore implements IBlobStore {
+  constructor(private directory: string, private urlPath: string) {}
+
+  async put(data: Buffer, _originalName: string, mimeType: string): Promise<StoredBlob> {
+    const key = storedName(mimeType);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, key), data);
+
+    return { url: `${this.urlPath}/${key}`, key };
+  }
+
+  async putFile(filePath: string, _originalName: string, mimeType: string): Promise<StoredBlob> {
+    const key = storedName(mimeType);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.copyFile(filePath, path.join(this.directory, key));
+
+    return { url: `${this.urlPath}/${key}`, key };
+  }
+}
+
+export class CloudinaryBlobStore implements IBlobStore {
+  async put(data: Buffer, originalName: string): Promise<StoredBlob> {
+    const { url, publicId } = await uploadToCloudinary(data, originalName);
+    return { url, key: publicId };
+  }
+
+  async putFile(filePath: string): Promise<StoredBlob> {
+    const { url, publicId } = await uploadFileToCloudinary(filePath);
+    return { url, key: publicId };
+  }
+}
+
+/**
+ * Pick the provider from BLOB_STORE ("local" or "cloudinary"); without it,
+ * Cloudinary is used when its credentials are configured
+ */
+function createBlobStore(): IBlobStore {
+  const provider = process.env.BLOB_STORE || (process.env.CLOUDINARY_CLOUD_NAME ? "cloudinary" : "local");
+
+  if (provider === "cloudinary") {
+    return new CloudinaryBlobStore();
+  }
+  return new LocalDiskBlobStore(LOCAL_UPLOAD_DIR, LOCAL_UPLOAD_URL_PATH);
+}
+
+export const blobStore = createBlobStore();
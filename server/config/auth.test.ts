@@ -0,0 +1,38 @@
+import { randomBytes } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// The secrets are checked when the module loads
+async function loadWith(accessSecret: string | undefined, refreshSecret = randomBytes(32).toString("hex")) {
+  vi.resetModules();
+  vi.stubEnv("JWT_ACCESS_SECRET", accessSecret);
+  vi.stubEnv("JWT_REFRESH_SECRET", refreshSecret);
+  return import("./auth");
+}
+
+describe("jwtConfig", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("takes random secrets from the environment", async () => {
+    const secret = randomBytes(32).toString("hex");
+    const { jwtConfig } = await loadWith(secret);
+
+    expect(jwtConfig.accessSecret).toBe(secret);
+  });
+
+  it("refuses to start without a secret", async () => {
+    await expect(loadWith(undefined)).rejects.toThrow("JWT_ACCESS_SECRET is not set");
+    await expect(loadWith("  ")).rejects.toThrow("JWT_ACCESS_SECRET is not set");
+  });
+
+  it("refuses the example values", async () => {
+    await expect(loadWith("your-access-secret-key-here-change-this-to-secure-random-string"))
+      .rejects.toThrow("example value");
+  });
+
+  it("refuses short or repetitive secrets", async () => {
+    await expect(loadWith("s3cr3t")).rejects.toThrow("too weak");
+    await expect(loadWith("ab".repeat(32))).rejects.toThrow("too weak");
+  });
+});
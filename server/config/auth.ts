@@ -0,0 +1,35 @@
+/**
+ * Secrets that sign access and refresh tokens
+ * JWT_ACCESS_SECRET and JWT_REFRESH_SECRET have no defaults: with a known
+ * secret anyone could sign their own tokens, so the server refuses to start
+ * until both are set to long random strings.
+ */
+
+const MIN_SECRET_LENGTH = 32;
+// A random string this long has far more; "aaaa..." or "123123..." don't
+const MIN_DISTINCT_CHARS = 10;
+
+// Values that have appeared in server/.env.example, which copied configs may still have
+const EXAMPLE_SECRETS = [
+  'your-access-secret-key-here-change-this-to-secure-random-string',
+  'your-refresh-secret-key-here-change-this-to-secure-random-string',
+];
+
+function secretFromEnv(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    throw new Error(`${name} is not set; give it a long random string (see server/.env.example)`);
+  }
+  if (EXAMPLE_SECRETS.includes(value) || /change[-_ ]?(this|me)/i.test(value)) {
+    throw new Error(`${name} is still the example value; replace it with a long random string, e.g. from openssl rand -hex 32`);
+  }
+  if (value.length < MIN_SECRET_LENGTH || new Set(value).size < MIN_DISTINCT_CHARS) {
+    throw new Error(`${name} is too weak; use at least ${MIN_SECRET_LENGTH} random characters, e.g. from openssl rand -hex 32`);
+  }
+  return value;
+}
+
+export const jwtConfig = {
+  accessSecret: secretFromEnv('JWT_ACCESS_SECRET'),
+  refreshSecret: secretFromEnv('JWT_REFRESH_SECRET'),
+};
@@ -49,5 +49,38 @@ export async function uploadToCloudinary(
   });
 }
 
+/**
+ * Upload a file on disk to Cloudinary in chunks
+ * Used for files too large to hold in memory
+ * @param filePath - Path of the file
+ * @returns Object containing URL and public ID
+ */
+export async function uploadFileToCloudinary(
+  filePath: string
+): Promise<{ url: string; publicId: string }> {
+  return new Promise((resolve, reject) => {
+    cloudinary.uploader.upload_large(
+      filePath,
+      {
+        folder: 'chat_app_uploads',
+        resource_type: 'auto',
+      },
+      (error, result) => {
+        if (error) {
+          console.error('Cloudinary upload error:', error);
+          reject(new Error('File upload failed'));
+        } else if (result) {
+          resolve({
+            url: result.secure_url,
+            publicId: result.public_id,
+          });
+        } else {
+          reject(new Error('Upload failed: no result'));
+        }
+      }
+    );
+  });
+}
+
 // Export configured cloudinary instance for other uses
 export { cloudinary };
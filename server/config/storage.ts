@@ -0,0 +1,30 @@
+/**
+ * Storage backend selection
+ * STORAGE_BACKEND picks where users, conversations, groups and messages are
+ * kept: "memory" (the default), "postgres" (DATABASE_URL) or "mongo"
+ * (MONGODB_URI). Memory storage is lost on restart unless MEMORY_STORAGE_DIR
+ * names a directory to journal it to.
+ */
+
+export const STORAGE_BACKENDS = ['memory', 'postgres', 'mongo'] as const;
+export type StorageBackend = (typeof STORAGE_BACKENDS)[number];
+
+function backendFromEnv(): StorageBackend {
+  const value = (process.env.STORAGE_BACKEND || 'memory').trim().toLowerCase();
+  if (!(STORAGE_BACKENDS as readonly string[]).includes(value)) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND "${value}", expected one of: ${STORAGE_BACKENDS.join(', ')}`,
+    );
+  }
+  return value as StorageBackend;
+}
+
+export const storageBackend: StorageBackend = backendFromEnv();
+
+export const memoryStorageConfig = {
+  // Journal and snapshots of memory storage; unset keeps nothing across restarts
+  dataDir: process.env.MEMORY_STORAGE_DIR || null,
+  snapshotIntervalMs: (Number(process.env.MEMORY_SNAPSHOT_INTERVAL) || 5 * 60) * 1000, // 5 minutes
+  // Compact sooner when this many changes have been journaled since the last snapshot
+  maxJournalEntries: Number(process.env.MEMORY_JOURNAL_MAX_ENTRIES) || 10000,
+};
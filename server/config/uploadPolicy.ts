@@ -0,0 +1,85 @@
+/**
+ * Upload type and size policy
+ * Each list can be overridden with a comma-separated environment variable.
+ * MIME patterns may end in "/*" to match a whole family.
+ */
+
+function listFromEnv(name: string, defaults: string[]): string[] {
+  const value = process.env[name];
+  if (!value) return defaults;
+  return value.split(',').map((item) => item.trim().toLowerCase()).filter(Boolean);
+}
+
+export interface UploadPolicy {
+  allowedTypes: string[];
+  deniedTypes: string[];
+  deniedExtensions: string[];
+  // Largest file accepted anywhere; groups may only lower it
+  maxFileSize: number;
+  // Largest file accepted in a single request; bigger ones need a chunked upload
+  maxDirectUploadSize: number;
+  // Size of every part of a chunked upload except the last
+  chunkSize: number;
+  // Largest image accepted; images are decoded in memory to be re-encoded
+  maxImageSize: number;
+}
+
+export const uploadPolicy: UploadPolicy = {
+  allowedTypes: listFromEnv('UPLOAD_ALLOWED_TYPES', [
+    'image/*',
+    'audio/*',
+    'video/*',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.rar',
+    'application/x-rar-compressed',
+  ]),
+  // Served from our own origin, so anything a browser would run is refused
+  deniedTypes: listFromEnv('UPLOAD_DENIED_TYPES', [
+    'image/svg+xml',
+    'text/html',
+    'application/xhtml+xml',
+    'application/javascript',
+    'text/javascript',
+  ]),
+  deniedExtensions: listFromEnv('UPLOAD_DENIED_EXTENSIONS', [
+    'exe', 'dll', 'msi', 'bat', 'cmd', 'com', 'scr', 'ps1', 'sh', 'jar',
+    'js', 'mjs', 'html', 'htm', 'xhtml', 'xht', 'xml', 'xsl', 'xslt', 'svg', 'svgz',
+  ]),
+  maxFileSize: Number(process.env.UPLOAD_MAX_FILE_SIZE) || 1024 * 1024 * 1024, // 1GB
+  maxDirectUploadSize: Number(process.env.UPLOAD_MAX_DIRECT_SIZE) || 10 * 1024 * 1024, // 10MB
+  chunkSize: Number(process.env.UPLOAD_CHUNK_SIZE) || 5 * 1024 * 1024, // 5MB
+  maxImageSize: Number(process.env.UPLOAD_MAX_IMAGE_SIZE) || 50 * 1024 * 1024, // 50MB
+};
+
+/**
+ * Check whether a MIME type matches a pattern such as "image/png" or "image/*"
+ */
+export function mimeTypeMatches(mimeType: string, pattern: string): boolean {
+  if (pattern.endsWith('/*')) {
+    return mimeType.startsWith(pattern.slice(0, -1));
+  }
+  return mimeType === pattern;
+}
+
+/**
+ * Check a file's declared MIME type and extension against the policy
+ * Deny rules win over allow rules
+ */
+export function isTypeAllowed(mimeType: string, extension: string): boolean {
+  const type = mimeType.toLowerCase();
+  const ext = extension.toLowerCase();
+
+  if (uploadPolicy.deniedExtensions.includes(ext)) return false;
+  if (uploadPolicy.deniedTypes.some((pattern) => mimeTypeMatches(type, pattern))) return false;
+  return uploadPolicy.allowedTypes.some((pattern) => mimeTypeMatches(type, pattern));
+}
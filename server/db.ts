@@ -1,15 +1,50 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle, type NeonDatabase } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+let pool: Pool | undefined;
+let db: NeonDatabase<typeof schema> | undefined;
+
+/**
+ * Connect to the Postgres database
+ * Only done when Postgres is the storage backend, so DATABASE_URL is not
+ * needed otherwise
+ */
+export async function connectPostgres(): Promise<void> {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  db = drizzle({ client: pool, schema });
+
+  // Fail at startup rather than on the first request
+  await pool.query("select 1");
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+/**
+ * Get the Drizzle database
+ * @returns Database bound to the shared schema
+ */
+export function getPostgres(): NeonDatabase<typeof schema> {
+  if (!db) {
+    throw new Error("Database not initialized. Call connectPostgres() first.");
+  }
+  return db;
+}
+
+/**
+ * Close the connection pool
+ */
+export async function closePostgres(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = undefined;
+    db = undefined;
+  }
+}
@@ -3,7 +3,8 @@ import cookieParser from "cookie-parser";
 import { Server } from "socket.io";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { connectDB } from "./config/db";
+import { closeStorage, connectStorage } from "./storage";
+import { storageBackend } from "./config/storage";
 
 const app = express();
 app.use(express.json());
@@ -41,9 +42,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  // Connect to MongoDB database
-  log("Connecting to MongoDB...");
-  await connectDB();
+  // Connect to the configured storage backend's database
+  log(`Using ${storageBackend} storage`);
+  await connectStorage();
 
   // Create HTTP server (required before Socket.IO initialization)
   const { createServer } = await import("http");
@@ -89,4 +90,14 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Let storage flush before exiting, e.g. memory storage's final snapshot
+  const shutdown = (signal: string) => {
+    log(`${signal} received, shutting down`);
+    closeStorage()
+      .catch((error) => console.error("Error closing storage:", error))
+      .finally(() => process.exit(0));
+  };
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
 })();
@@ -0,0 +1,332 @@
+import type { Express, Request, RequestHandler, Response } from "express";
+import type { Server as SocketIOServer, RemoteSocket } from "socket.io";
+import bcrypt from "bcryptjs";
+import cookieParser from "cookie-parser";
+import { nanoid } from "nanoid";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { authenticateToken } from "./middleware/auth";
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  verifyAccessToken,
+  verifyRefreshToken,
+} from "./utils/jwt";
+import { validateEmail, validatePassword, validateName } from "./utils/validators";
+
+const ACCESS_TOKEN_MAX_AGE = 60 * 60 * 1000; // 1 hour
+const REFRESH_TOKEN_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Tabs of one browser share cookies and may refresh concurrently with the same
+// token, so the token replaced last is still accepted for a few seconds
+const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+let socketServer: SocketIOServer | undefined;
+
+/**
+ * Set access and refresh tokens as httpOnly cookies
+ * The refresh token is only sent to the auth endpoints
+ */
+function setAuthCookies(res: Response, user: User, familyId: string, tokenId: string) {
+  const secure = process.env.NODE_ENV === 'production';
+
+  res.cookie('accessToken', generateAccessToken(user.id, user.email || '', familyId), {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    maxAge: ACCESS_TOKEN_MAX_AGE,
+  });
+
+  res.cookie('refreshToken', generateRefreshToken(user.id, familyId, tokenId), {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: '/api/auth',
+    maxAge: REFRESH_TOKEN_MAX_AGE,
+  });
+}
+
+function clearAuthCookies(res: Response) {
+  res.clearCookie('accessToken');
+  res.clearCookie('refreshToken', { path: '/api/auth' });
+}
+
+/**
+ * Start a new token family for a login on this device and set its cookies
+ */
+async function startSession(req: Request, res: Response, user: User) {
+  const family = await storage.createRefreshTokenFamily({
+    id: nanoid(),
+    userId: user.id,
+    currentTokenId: nanoid(),
+    userAgent: req.headers['user-agent'] || null,
+  });
+
+  setAuthCookies(res, user, family.id, family.currentTokenId);
+}
+
+/**
+ * Disconnect live sockets whose session was revoked
+ */
+async function disconnectSockets(predicate: (socket: RemoteSocket<any, any>) => boolean) {
+  if (!socketServer) return;
+
+  const sockets = await socketServer.fetchSockets();
+  sockets.filter(predicate).forEach((socket) => socket.disconnect(true));
+}
+
+/**
+ * Find the token family of the current request from either auth cookie
+ */
+function getRequestFamilyId(req: Request): string | undefined {
+  try {
+    if (req.cookies?.refreshToken) {
+      return verifyRefreshToken(req.cookies.refreshToken).familyId;
+    }
+    if (req.cookies?.accessToken) {
+      return verifyAccessToken(req.cookies.accessToken).familyId;
+    }
+  } catch {
+    // Expired or invalid tokens have nothing left to revoke
+  }
+  return undefined;
+}
+
+export async function setupAuth(app: Express) {
+  // Guests pick a display name; the server assigns their ID
+  app.post('/api/guest/join', async (req, res) => {
+    try {
+      const { user } = req.body;
+      if (!user || !validateName(user.name)) {
+        return res.status(400).json({ message: "Invalid user data" });
+      }
+
+      const guestUser = await storage.upsertUser({
+        id: `guest_${nanoid()}`,
+        email: null,
+        firstName: user.name.trim(),
+        lastName: null,
+        profileImageUrl: user.avatar,
+      });
+
+      await startSession(req, res, guestUser);
+      res.json({ success: true, user: guestUser });
+    } catch (error) {
+      console.error("Error joining as guest:", error);
+      res.status(500).json({ message: "Failed to join chat" });
+    }
+  });
+
+  app.post('/api/auth/signup', async (req, res) => {
+    try {
+      const { email, password, firstName, lastName } = req.body;
+
+      if (!email || !validateEmail(email)) {
+        return res.status(400).json({ message: "Invalid email address" });
+      }
+
+      const passwordCheck = validatePassword(password);
+      if (!passwordCheck.valid) {
+        return res.status(400).json({ message: passwordCheck.message });
+      }
+
+      if (!validateName(firstName) || !validateName(lastName)) {
+        return res.status(400).json({ message: "First and last name are required" });
+      }
+
+      const normalizedEmail = email.trim().toLowerCase();
+      if (await storage.getUserByEmail(normalizedEmail)) {
+        return res.status(409).json({ message: "Email already registered" });
+      }
+
+      const user = await storage.upsertUser({
+        id: nanoid(),
+        email: normalizedEmail,
+        firstName: firstName.trim(),
+        lastName: lastName.trim(),
+      });
+
+      // Hash password with bcrypt (10 salt rounds)
+      await storage.setUserPassword(user.id, await bcrypt.hash(password, 10));
+
+      await startSession(req, res, user);
+      res.status(201).json({ user });
+    } catch (error) {
+      console.error("Error signing up:", error);
+      res.status(500).json({ message: "Failed to sign up" });
+    }
+  });
+
+  app.post('/api/auth/login', async (req, res) => {
+    try {
+      const { email, password } = req.body;
+
+      if (typeof email !== 'string' || typeof password !== 'string') {
+        return res.status(400).json({ message: "Email and password are required" });
+      }
+
+      const user = await storage.getUserByEmail(email.trim().toLowerCase());
+      const passwordHash = user ? await storage.getUserPasswordHash(user.id) : undefined;
+
+      if (!user || !passwordHash || !(await bcrypt.compare(password, passwordHash))) {
+        return res.status(401).json({ message: "Invalid email or password" });
+      }
+
+      await startSession(req, res, user);
+      res.json({ user });
+    } catch (error) {
+      console.error("Error logging in:", error);
+      res.status(500).json({ message: "Failed to log in" });
+    }
+  });
+
+  app.post('/api/auth/refresh', async (req, res) => {
+    try {
+      const refreshToken = req.cookies?.refreshToken;
+      if (!refreshToken) {
+        return res.status(401).json({ message: "Refresh token missing" });
+      }
+
+      const decoded = verifyRefreshToken(refreshToken);
+      const family = await storage.getRefreshTokenFamily(decoded.familyId);
+      const user = await storage.getUser(decoded.userId);
+
+      if (decoded.type !== 'refresh' || !family || family.revokedAt || family.userId !== decoded.userId || !user) {
+        clearAuthCookies(res);
+        return res.status(401).json({ message: "Invalid refresh token" });
+      }
+
+      if (decoded.tokenId !== family.currentTokenId) {
+        const rotatedAt = family.rotatedAt?.getTime() || 0;
+        const withinGrace = decoded.tokenId === family.previousTokenId &&
+          Date.now() - rotatedAt < REFRESH_REUSE_GRACE_MS;
+
+        if (!withinGrace) {
+          // An already-rotated token was replayed, so assume it was stolen
+          // and revoke every token in the family
+          await storage.revokeRefreshTokenFamily(family.id);
+          await disconnectSockets((socket) => socket.data.familyId === family.id);
+          clearAuthCookies(res);
+          return res.status(401).json({ message: "Refresh token reuse detected" });
+        }
+      }
+
+      const tokenId = nanoid();
+      await storage.rotateRefreshToken(family.id, tokenId);
+
+      setAuthCookies(res, user, family.id, tokenId);
+      res.json({ user });
+    } catch (error) {
+      clearAuthCookies(res);
+      res.status(401).json({ message: "Invalid or expired refresh token" });
+    }
+  });
+
+  app.post('/api/auth/logout', async (req, res) => {
+    try {
+      const familyId = getRequestFamilyId(req);
+      if (familyId) {
+        await storage.revokeRefreshTokenFamily(familyId);
+        await disconnectSockets((socket) => socket.data.familyId === familyId);
+      }
+
+      clearAuthCookies(res);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error logging out:", error);
+      res.status(500).json({ message: "Failed to log out" });
+    }
+  });
+
+  // Revoke every session of the current user on all devices
+  app.post('/api/auth/logout-all', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      await storage.revokeUserRefreshTokenFamilies(userId);
+      await disconnectSockets((socket) => socket.data.userId === userId);
+
+      clearAuthCookies(res);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error logging out all devices:", error);
+      res.status(500).json({ message: "Failed to log out all devices" });
+    }
+  });
+
+  app.get('/api/auth/me', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      res.json({ user });
+    } catch (error) {
+      console.error("Error fetching current user:", error);
+      res.status(500).json({ message: "Failed to fetch current user" });
+    }
+  });
+}
+
+/**
+ * Authenticate Socket.IO handshakes with the same access token cookie
+ * The verified user ID is stored on socket.data.userId
+ */
+export function setupSocketAuth(io: SocketIOServer) {
+  socketServer = io;
+  io.engine.use(cookieParser());
+
+  io.use(async (socket, next) => {
+    try {
+      const accessToken = (socket.request as any).cookies?.accessToken;
+      if (!accessToken) {
+        return next(new Error('Unauthorized'));
+      }
+
+      const decoded = verifyAccessToken(accessToken);
+      const family = await storage.getRefreshTokenFamily(decoded.familyId);
+      if (decoded.type !== 'access' || !family || family.revokedAt) {
+        return next(new Error('Unauthorized'));
+      }
+
+      socket.data.userId = decoded.userId;
+      socket.data.familyId = decoded.familyId;
+      next();
+    } catch (error) {
+      next(new Error('Unauthorized'));
+    }
+  });
+}
+
+/**
+ * Require a valid access token from a session that hasn't been revoked, and
+ * reject requests that claim to act as a different user than the token's
+ */
+export const isAuthenticated: RequestHandler = (req: any, res, next) => {
+  authenticateToken(req, res, async () => {
+    try {
+      const family = await storage.getRefreshTokenFamily(req.user.familyId);
+      if (!family || family.revokedAt) {
+        return res.status(401).json({ message: "Session has been revoked" });
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    const claimedIds = [
+      req.body?.senderId,
+      req.body?.userId,
+      req.body?.participant1Id,
+      req.body?.createdBy,
+      req.query.userId,
+      req.headers['x-user-id'],
+    ].filter(Boolean);
+
+    if (claimedIds.some((id) => id !== req.user.userId)) {
+      return res.status(403).json({ message: "User ID does not match authenticated user" });
+    }
+
+    next();
+  });
+};
@@ -5,41 +5,152 @@ import {
   type ConversationWithUsers,
   type Message,
   type MessageWithSender,
+  type MessageThread,
   type InsertMessage,
+  type GroupChat,
+  type GroupChatWithMembers,
+  type GroupMember,
+  type GroupMemberWithUser,
+  type GroupMessage,
+  type GroupMessageWithSender,
+  type InsertGroupChat,
+  type InsertGroupMessage,
+  type RefreshTokenFamily,
+  type MessagePage,
+  type MessagePageOptions,
+  type MessageSearchFilters,
+  type MessageSearchResult,
+  type MessageReceipt,
+  type LinkPreview,
+  type MediaInfo,
+  type Upload,
+  type UploadSession,
+  type UserEvent,
+  type UserEventPage,
 } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { ArchiveRecord } from "./utils/archive";
+import type { JournalState, RecordKey, StorageJournal } from "./utils/journal";
+import { matchesTerm, messageSnippet, tokenize } from "./utils/search";
+import {
+  DEFAULT_EVENT_PAGE_SIZE,
+  DEFAULT_PAGE_SIZE,
+  MAX_USER_EVENTS,
+  applyReaction,
+  deletedMessageFields,
+  deliveredReceipt,
+  readReceipt,
+  toUserEventPage,
+  UnknownUserError,
+} from "./utils/messageState";
 
-export interface IStorage {
-  // User operations
-  getUser(id: string): Promise<User | undefined>;
-  upsertUser(user: UpsertUser): Promise<User>;
-  updateUserOnlineStatus(id: string, isOnline: boolean): Promise<void>;
-  
-  // Conversation operations
-  getConversations(userId: string): Promise<ConversationWithUsers[]>;
-  getOrCreateConversation(participant1Id: string, participant2Id: string): Promise<Conversation>;
-  
-  // Message operations
-  getMessages(conversationId: number): Promise<MessageWithSender[]>;
-  createMessage(message: InsertMessage): Promise<Message>;
-  markMessagesAsRead(conversationId: number, userId: string): Promise<void>;
-  addMessageReaction(messageId: number, userId: string, emoji: string): Promise<void>;
-  removeMessageReaction(messageId: number, userId: string, emoji: string): Promise<void>;
-  
-  // Search operations
-  searchUsers(query: string, currentUserId: string): Promise<User[]>;
-}
+// Tables written to the journal; everything else is rebuilt from them on restore
+type JournaledTable =
+  | "users"
+  | "credentials"
+  | "refreshTokenFamilies"
+  | "conversations"
+  | "messages"
+  | "groups"
+  | "groupMembers"
+  | "groupMessages"
+  | "uploads"
+  | "uploadSessions"
+  | "userEventSeqs";
 
+/**
+ * Storage kept in process memory
+ * Nothing survives a restart unless a journal is given, in which case every
+ * change is written to it and restore() loads them back. The event log is
+ * not journaled; clients resync from scratch after a restart.
+ */
 export class MemoryStorage implements IStorage {
-  public users = new Map<string, User>(); // Made public for server to access
+  private users = new Map<string, User>();
+  private credentials = new Map<string, string>(); // userId -> password hash
+  private refreshTokenFamilies = new Map<string, RefreshTokenFamily>();
   private conversations = new Map<number, Conversation>();
   private messages = new Map<number, Message>();
+  private groups = new Map<number, GroupChat>();
+  private groupMembers = new Map<number, GroupMember>();
+  private groupMessages = new Map<number, GroupMessage>();
+  // Inverted index of message text: token -> document keys ("message:1", "group:1")
+  private searchIndex = new Map<string, Set<string>>();
+  private clientMessageIds = new Map<string, number>(); // "senderId:clientMessageId" -> message ID
+  private indexedTokens = new Map<string, string[]>();
+  private uploads = new Map<string, Upload>(); // url -> upload
+  private uploadSessions = new Map<string, UploadSession>();
+  private userEvents = new Map<string, UserEvent[]>();
+  private userEventSeqs = new Map<string, number>();
   private nextConversationId = 1;
   private nextMessageId = 1;
+  private nextGroupId = 1;
+  private nextGroupMemberId = 1;
+  private nextGroupMessageId = 1;
+
+  constructor(private journal?: StorageJournal) {}
+
+  /**
+   * Load everything the journal kept, then journal further changes
+   */
+  async restore(): Promise<void> {
+    if (!this.journal) return;
+
+    const tables = this.tables();
+    const highestIds: Record<string, number> = {};
+    const sequences = await this.journal.replay(({ table, key, value }) => {
+      const records = tables[table as JournaledTable];
+      if (!records) return;
+
+      if (value === undefined) {
+        records.delete(key);
+      } else {
+        records.set(key, value);
+      }
+      if (typeof key === "number") {
+        highestIds[table] = Math.max(highestIds[table] || 0, key);
+      }
+    });
+
+    // IDs of removed records are never handed out again
+    const nextId = (table: JournaledTable) => Math.max(sequences[table] || 1, (highestIds[table] || 0) + 1);
+    this.nextConversationId = nextId("conversations");
+    this.nextMessageId = nextId("messages");
+    this.nextGroupId = nextId("groups");
+    this.nextGroupMemberId = nextId("groupMembers");
+    this.nextGroupMessageId = nextId("groupMessages");
+
+    this.messages.forEach(message => {
+      if (!message.deletedAt) {
+        this.indexDocument(`message:${message.id}`, message);
+      }
+      if (message.clientMessageId) {
+        this.clientMessageIds.set(`${message.senderId}:${message.clientMessageId}`, message.id);
+      }
+    });
+    this.groupMessages.forEach(message => this.indexDocument(`group:${message.id}`, message));
+
+    this.journal.start(() => this.journalState());
+  }
+
+  /**
+   * Write a final snapshot and stop journaling
+   */
+  async close(): Promise<void> {
+    await this.journal?.close();
+  }
 
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const existingUser = this.users.get(userData.id);
     const user: User = {
@@ -54,6 +165,7 @@ export class MemoryStorage implements IStorage {
       updatedAt: new Date(),
     };
     this.users.set(userData.id, user);
+    this.persist("users", user.id);
     return user;
   }
 
@@ -64,9 +176,69 @@ export class MemoryStorage implements IStorage {
       user.lastSeen = new Date();
       user.updatedAt = new Date();
       this.users.set(id, user);
+      this.persist("users", id);
     }
   }
 
+  async getUserPasswordHash(userId: string): Promise<string | undefined> {
+    return this.credentials.get(userId);
+  }
+
+  async setUserPassword(userId: string, passwordHash: string): Promise<void> {
+    this.credentials.set(userId, passwordHash);
+    this.persist("credentials", userId);
+  }
+
+  async createRefreshTokenFamily(
+    familyData: Pick<RefreshTokenFamily, "id" | "userId" | "currentTokenId" | "userAgent">
+  ): Promise<RefreshTokenFamily> {
+    const family: RefreshTokenFamily = {
+      id: familyData.id,
+      userId: familyData.userId,
+      currentTokenId: familyData.currentTokenId,
+      previousTokenId: null,
+      userAgent: familyData.userAgent || null,
+      rotatedAt: new Date(),
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+
+    this.refreshTokenFamilies.set(family.id, family);
+    this.persist("refreshTokenFamilies", family.id);
+    return family;
+  }
+
+  async getRefreshTokenFamily(familyId: string): Promise<RefreshTokenFamily | undefined> {
+    return this.refreshTokenFamilies.get(familyId);
+  }
+
+  async rotateRefreshToken(familyId: string, newTokenId: string): Promise<void> {
+    const family = this.refreshTokenFamilies.get(familyId);
+    if (!family) return;
+
+    family.previousTokenId = family.currentTokenId;
+    family.currentTokenId = newTokenId;
+    family.rotatedAt = new Date();
+    this.persist("refreshTokenFamilies", familyId);
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    const family = this.refreshTokenFamilies.get(familyId);
+    if (family && !family.revokedAt) {
+      family.revokedAt = new Date();
+      this.persist("refreshTokenFamilies", familyId);
+    }
+  }
+
+  async revokeUserRefreshTokenFamilies(userId: string): Promise<void> {
+    Array.from(this.refreshTokenFamilies.values())
+      .filter(family => family.userId === userId && !family.revokedAt)
+      .forEach(family => {
+        family.revokedAt = new Date();
+        this.persist("refreshTokenFamilies", family.id);
+      });
+  }
+
   async getConversations(userId: string): Promise<ConversationWithUsers[]> {
     const userConversations = Array.from(this.conversations.values())
       .filter(conv => conv.participant1Id === userId || conv.participant2Id === userId)
@@ -102,6 +274,10 @@ export class MemoryStorage implements IStorage {
     return result;
   }
 
+  async getConversation(conversationId: number): Promise<Conversation | undefined> {
+    return this.conversations.get(conversationId);
+  }
+
   async getOrCreateConversation(participant1Id: string, participant2Id: string): Promise<Conversation> {
     // Check if conversation already exists
     const existing = Array.from(this.conversations.values()).find(conv =>
@@ -113,6 +289,8 @@ export class MemoryStorage implements IStorage {
       return existing;
     }
 
+    this.assertUsersExist([participant1Id, participant2Id]);
+
     // Create new conversation
     const newConversation: Conversation = {
       id: this.nextConversationId++,
@@ -123,36 +301,94 @@ export class MemoryStorage implements IStorage {
     };
 
     this.conversations.set(newConversation.id, newConversation);
+    this.persist("conversations", newConversation.id);
     return newConversation;
   }
 
-  async getMessages(conversationId: number): Promise<MessageWithSender[]> {
+  async getMessages(conversationId: number, options: MessagePageOptions = {}): Promise<MessagePage<MessageWithSender>> {
     const conversationMessages = Array.from(this.messages.values())
-      .filter(msg => msg.conversationId === conversationId)
-      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      .filter(msg => msg.conversationId === conversationId && !msg.threadRootId)
+      .filter(msg => this.isVisibleTo(msg, options.viewerId));
 
-    return conversationMessages.map(message => ({
-      ...message,
-      sender: this.users.get(message.senderId) || {} as User,
-    }));
+    const page = this.paginate(conversationMessages, options);
+
+    return {
+      ...page,
+      messages: page.messages.map(message => this.withSender(message)),
+    };
   }
 
-  async createMessage(messageData: InsertMessage): Promise<Message> {
+  async getMessage(messageId: number): Promise<Message | undefined> {
+    return this.messages.get(messageId);
+  }
+
+  async getMessageByClientId(senderId: string, clientMessageId: string): Promise<Message | undefined> {
+    const messageId = this.clientMessageIds.get(`${senderId}:${clientMessageId}`);
+    return messageId !== undefined ? this.messages.get(messageId) : undefined;
+  }
+
+  async getMessageThread(rootId: number, viewerId?: string): Promise<MessageThread | undefined> {
+    const root = this.messages.get(rootId);
+    if (!root) return undefined;
+
+    const replies = Array.from(this.messages.values())
+      .filter(msg => msg.threadRootId === rootId && this.isVisibleTo(msg, viewerId))
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0) || a.id - b.id);
+
+    return {
+      root: this.withSender(root),
+      replies: replies.map(message => this.withSender(message)),
+    };
+  }
+
+  async createMessage(messageData: InsertMessage, media?: MediaInfo): Promise<Message> {
+    // Concurrent retries of the same send must not create two messages
+    if (messageData.clientMessageId) {
+      const existingId = this.clientMessageIds.get(`${messageData.senderId}:${messageData.clientMessageId}`);
+      if (existingId !== undefined) return this.messages.get(existingId)!;
+    }
+
     const message: Message = {
       id: this.nextMessageId++,
       conversationId: messageData.conversationId || 0,
       senderId: messageData.senderId,
+      clientMessageId: messageData.clientMessageId || null,
       content: messageData.content,
       messageType: messageData.messageType || null,
       fileUrl: messageData.fileUrl || null,
       fileName: messageData.fileName || null,
       fileSize: messageData.fileSize || null,
+      media: media || null,
+      linkPreview: null,
       isRead: false,
+      receipts: {},
       reactions: {},
+      replyToId: messageData.replyToId || null,
+      threadRootId: messageData.threadRootId || null,
+      replyCount: 0,
+      lastReplyAt: null,
+      editHistory: [],
+      editedAt: null,
+      deletedAt: null,
+      deletedFor: [],
       createdAt: new Date(),
     };
 
     this.messages.set(message.id, message);
+    this.persist("messages", message.id);
+    this.indexDocument(`message:${message.id}`, message);
+    if (message.clientMessageId) {
+      this.clientMessageIds.set(`${message.senderId}:${message.clientMessageId}`, message.id);
+    }
+
+    if (message.threadRootId) {
+      const root = this.messages.get(message.threadRootId);
+      if (root) {
+        root.replyCount = (root.replyCount || 0) + 1;
+        root.lastReplyAt = message.createdAt;
+        this.persist("messages", root.id);
+      }
+    }
 
     // Update conversation's lastMessageAt
     if (messageData.conversationId) {
@@ -160,59 +396,725 @@ export class MemoryStorage implements IStorage {
       if (conversation) {
         conversation.lastMessageAt = new Date();
         this.conversations.set(conversation.id, conversation);
+        this.persist("conversations", conversation.id);
       }
     }
 
     return message;
   }
 
-  async markMessagesAsRead(conversationId: number, userId: string): Promise<void> {
-    Array.from(this.messages.values())
-      .filter(msg => msg.conversationId === conversationId && msg.senderId !== userId)
-      .forEach(msg => {
-        msg.isRead = true;
-        this.messages.set(msg.id, msg);
-      });
+  async editMessage(messageId: number, content: string): Promise<Message | undefined> {
+    const message = this.messages.get(messageId);
+    if (!message) return undefined;
+
+    const editedAt = new Date();
+    message.editHistory = [
+      ...(message.editHistory || []),
+      { content: message.content, editedAt: editedAt.toISOString() },
+    ];
+    message.content = content;
+    message.editedAt = editedAt;
+    this.persist("messages", message.id);
+    this.indexDocument(`message:${message.id}`, message);
+
+    return message;
   }
 
-  async addMessageReaction(messageId: number, userId: string, emoji: string): Promise<void> {
+  async setMessageLinkPreview(messageId: number, linkPreview: LinkPreview | null): Promise<Message | undefined> {
     const message = this.messages.get(messageId);
-    if (!message) return;
+    if (!message) return undefined;
 
-    const reactions = message.reactions as Record<string, string[]> || {};
+    message.linkPreview = linkPreview;
+    this.persist("messages", message.id);
+    return message;
+  }
 
-    if (!reactions[emoji]) {
-      reactions[emoji] = [];
-    }
+  async deleteMessageForEveryone(messageId: number): Promise<Message | undefined> {
+    const message = this.messages.get(messageId);
+    if (!message) return undefined;
 
-    // Remove user from this emoji if already reacted
-    reactions[emoji] = reactions[emoji].filter((id: string) => id !== userId);
-    
-    // Add user to this emoji
-    reactions[emoji].push(userId);
+    Object.assign(message, deletedMessageFields(new Date()));
+    this.persist("messages", message.id);
+    this.unindexDocument(`message:${message.id}`);
 
-    // Clean up empty reactions
-    if (reactions[emoji].length === 0) {
-      delete reactions[emoji];
+    return message;
+  }
+
+  async deleteMessageForUser(messageId: number, userId: string): Promise<void> {
+    const message = this.messages.get(messageId);
+    if (!message) return;
+
+    const deletedFor = message.deletedFor || [];
+    if (!deletedFor.includes(userId)) {
+      message.deletedFor = [...deletedFor, userId];
+      this.persist("messages", message.id);
     }
+  }
+
+  async markMessageDelivered(messageId: number, userId: string): Promise<MessageReceipt | undefined> {
+    const message = this.messages.get(messageId);
+    if (!message || message.senderId === userId) return undefined;
+
+    const receipt = this.recordDelivery(message, userId);
+    if (receipt) this.persist("messages", message.id);
+    return receipt;
+  }
+
+  async markMessagesAsRead(conversationId: number, userId: string, upToMessageId?: number): Promise<number[]> {
+    const messages = Array.from(this.messages.values())
+      .filter(msg => msg.conversationId === conversationId && msg.senderId !== userId);
+
+    const readIds = this.recordRead(messages, userId, upToMessageId);
+    readIds.forEach(id => {
+      // In a one-to-one conversation the single recipient has now read it
+      this.messages.get(id)!.isRead = true;
+      this.persist("messages", id);
+    });
+
+    return readIds;
+  }
+
+  async addMessageReaction(messageId: number, userId: string, emoji: string): Promise<void> {
+    const message = this.messages.get(messageId);
+    if (!message) return;
 
-    message.reactions = reactions;
+    message.reactions = applyReaction(message.reactions, userId, emoji, "add");
+    this.persist("messages", message.id);
   }
 
   async removeMessageReaction(messageId: number, userId: string, emoji: string): Promise<void> {
     const message = this.messages.get(messageId);
     if (!message) return;
 
-    const reactions = message.reactions as Record<string, string[]> || {};
-    if (!reactions[emoji]) return;
+    message.reactions = applyReaction(message.reactions, userId, emoji, "remove");
+    this.persist("messages", message.id);
+  }
 
-    reactions[emoji] = reactions[emoji].filter((id: string) => id !== userId);
-    
-    if (reactions[emoji].length === 0) {
-      delete reactions[emoji];
+  async getGroups(userId: string): Promise<GroupChatWithMembers[]> {
+    const groupIds = new Set(
+      Array.from(this.groupMembers.values())
+        .filter(member => member.userId === userId)
+        .map(member => member.groupId)
+    );
+
+    const userGroups = Array.from(this.groups.values())
+      .filter(group => groupIds.has(group.id) && group.isActive)
+      .sort((a, b) => {
+        const aTime = a.updatedAt?.getTime() || 0;
+        const bTime = b.updatedAt?.getTime() || 0;
+        return bTime - aTime;
+      });
+
+    const result: GroupChatWithMembers[] = [];
+
+    for (const group of userGroups) {
+      const latestMessages = Array.from(this.groupMessages.values())
+        .filter(msg => msg.groupId === group.id)
+        .sort((a, b) => {
+          const aTime = a.createdAt?.getTime() || 0;
+          const bTime = b.createdAt?.getTime() || 0;
+          return bTime - aTime;
+        })
+        .slice(0, 1);
+
+      result.push({
+        ...group,
+        members: await this.getGroupMembers(group.id),
+        messages: latestMessages,
+      });
     }
 
-    message.reactions = reactions;
+    return result;
+  }
+
+  async getGroup(groupId: number): Promise<GroupChat | undefined> {
+    const group = this.groups.get(groupId);
+    return group?.isActive ? group : undefined;
+  }
+
+  async createGroup(groupData: InsertGroupChat, memberIds: string[]): Promise<GroupChat> {
+    this.assertUsersExist([groupData.createdBy, ...memberIds]);
+
+    const group: GroupChat = {
+      id: this.nextGroupId++,
+      name: groupData.name,
+      description: groupData.description || null,
+      createdBy: groupData.createdBy,
+      avatar: groupData.avatar || null,
+      maxUploadSize: groupData.maxUploadSize || null,
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.groups.set(group.id, group);
+    this.persist("groups", group.id);
+
+    // The creator administers the group; everyone else joins as a member
+    this.addMember(group.id, group.createdBy, "admin");
+    await this.addGroupMembers(group.id, memberIds);
+
+    return group;
+  }
+
+  async updateGroup(
+    groupId: number,
+    updates: Partial<Pick<GroupChat, "name" | "description" | "avatar" | "maxUploadSize">>
+  ): Promise<GroupChat | undefined> {
+    const group = await this.getGroup(groupId);
+    if (!group) return undefined;
+
+    if (updates.name !== undefined) group.name = updates.name;
+    if (updates.description !== undefined) group.description = updates.description;
+    if (updates.avatar !== undefined) group.avatar = updates.avatar;
+    if (updates.maxUploadSize !== undefined) group.maxUploadSize = updates.maxUploadSize;
+    group.updatedAt = new Date();
+
+    this.groups.set(group.id, group);
+    this.persist("groups", group.id);
+    return group;
+  }
+
+  async deleteGroup(groupId: number): Promise<void> {
+    this.groups.delete(groupId);
+    this.persist("groups", groupId);
+
+    // Delete all group members and messages along with the group
+    Array.from(this.groupMembers.values())
+      .filter(member => member.groupId === groupId)
+      .forEach(member => {
+        this.groupMembers.delete(member.id);
+        this.persist("groupMembers", member.id);
+      });
+
+    Array.from(this.groupMessages.values())
+      .filter(msg => msg.groupId === groupId)
+      .forEach(msg => {
+        this.groupMessages.delete(msg.id);
+        this.persist("groupMessages", msg.id);
+        this.unindexDocument(`group:${msg.id}`);
+      });
+  }
+
+  async getGroupMembers(groupId: number): Promise<GroupMemberWithUser[]> {
+    return Array.from(this.groupMembers.values())
+      .filter(member => member.groupId === groupId)
+      .map(member => ({
+        ...member,
+        user: this.users.get(member.userId) || {} as User,
+      }));
+  }
+
+  async addGroupMembers(groupId: number, userIds: string[]): Promise<GroupMember[]> {
+    this.assertUsersExist(userIds);
+
+    const existingIds = new Set(
+      Array.from(this.groupMembers.values())
+        .filter(member => member.groupId === groupId)
+        .map(member => member.userId)
+    );
+
+    const added: GroupMember[] = [];
+    for (const userId of userIds) {
+      // Prevents duplicates
+      if (existingIds.has(userId)) continue;
+      existingIds.add(userId);
+      added.push(this.addMember(groupId, userId, "member"));
+    }
+
+    const group = this.groups.get(groupId);
+    if (group && added.length > 0) {
+      group.updatedAt = new Date();
+      this.persist("groups", group.id);
+    }
+
+    return added;
+  }
+
+  async removeGroupMember(groupId: number, userId: string): Promise<void> {
+    Array.from(this.groupMembers.values())
+      .filter(member => member.groupId === groupId && member.userId === userId)
+      .forEach(member => {
+        this.groupMembers.delete(member.id);
+        this.persist("groupMembers", member.id);
+      });
+  }
+
+  async getGroupMessages(groupId: number, options: MessagePageOptions = {}): Promise<MessagePage<GroupMessageWithSender>> {
+    const groupMessages = Array.from(this.groupMessages.values())
+      .filter(msg => msg.groupId === groupId);
+
+    const page = this.paginate(groupMessages, options);
+
+    return {
+      ...page,
+      messages: page.messages.map(message => ({
+        ...message,
+        sender: this.users.get(message.senderId) || {} as User,
+      })),
+    };
+  }
+
+  async createGroupMessage(messageData: InsertGroupMessage, media?: MediaInfo): Promise<GroupMessage> {
+    const message: GroupMessage = {
+      id: this.nextGroupMessageId++,
+      groupId: messageData.groupId,
+      senderId: messageData.senderId,
+      content: messageData.content,
+      messageType: messageData.messageType || null,
+      fileUrl: messageData.fileUrl || null,
+      fileName: messageData.fileName || null,
+      fileSize: messageData.fileSize || null,
+      media: media || null,
+      linkPreview: null,
+      reactions: {},
+      receipts: {},
+      createdAt: new Date(),
+    };
+
+    this.groupMessages.set(message.id, message);
+    this.persist("groupMessages", message.id);
+    this.indexDocument(`group:${message.id}`, message);
+
+    // Update group's updatedAt so it sorts to the top of the list
+    const group = this.groups.get(messageData.groupId);
+    if (group) {
+      group.updatedAt = new Date();
+      this.groups.set(group.id, group);
+      this.persist("groups", group.id);
+    }
+
+    return message;
+  }
+
+  async getGroupMessage(messageId: number): Promise<GroupMessage | undefined> {
+    return this.groupMessages.get(messageId);
+  }
+
+  async setGroupMessageLinkPreview(messageId: number, linkPreview: LinkPreview | null): Promise<GroupMessage | undefined> {
+    const message = this.groupMessages.get(messageId);
+    if (!message) return undefined;
+
+    message.linkPreview = linkPreview;
+    this.persist("groupMessages", message.id);
+    return message;
+  }
+
+  async markGroupMessageDelivered(messageId: number, userId: string): Promise<MessageReceipt | undefined> {
+    const message = this.groupMessages.get(messageId);
+    if (!message || message.senderId === userId) return undefined;
+
+    const receipt = this.recordDelivery(message, userId);
+    if (receipt) this.persist("groupMessages", message.id);
+    return receipt;
+  }
+
+  async markGroupMessagesAsRead(groupId: number, userId: string, upToMessageId?: number): Promise<number[]> {
+    const messages = Array.from(this.groupMessages.values())
+      .filter(msg => msg.groupId === groupId && msg.senderId !== userId);
+
+    const readIds = this.recordRead(messages, userId, upToMessageId);
+    readIds.forEach(id => this.persist("groupMessages", id));
+    return readIds;
+  }
+
+  // Checked up front, so nothing is stored when any of the users is unknown
+  private assertUsersExist(userIds: string[]) {
+    const unknownIds = userIds.filter(id => !this.users.has(id));
+    if (unknownIds.length > 0) {
+      throw new UnknownUserError(Array.from(new Set(unknownIds)));
+    }
+  }
+
+  /**
+   * Set the delivery time of a recipient's receipt
+   * @returns The receipt, or undefined if it was already delivered
+   */
+  private recordDelivery(message: Message | GroupMessage, userId: string): MessageReceipt | undefined {
+    const receipts = message.receipts || {};
+    const receipt = deliveredReceipt(receipts[userId], new Date().toISOString());
+    if (!receipt) return undefined;
+
+    message.receipts = { ...receipts, [userId]: receipt };
+    return receipt;
+  }
+
+  /**
+   * Mark messages read by a recipient, up to and including upToMessageId
+   * @returns IDs of the messages that were not read before
+   */
+  private recordRead(messages: Array<Message | GroupMessage>, userId: string, upToMessageId?: number): number[] {
+    const now = new Date().toISOString();
+    const readIds: number[] = [];
+
+    messages
+      .filter(msg => upToMessageId === undefined || msg.id <= upToMessageId)
+      .forEach(msg => {
+        const receipts = msg.receipts || {};
+        const receipt = readReceipt(receipts[userId], now);
+        if (!receipt) return;
+
+        msg.receipts = { ...receipts, [userId]: receipt };
+        readIds.push(msg.id);
+      });
+
+    return readIds;
+  }
+
+  private tables(): Record<JournaledTable, Map<RecordKey, any>> {
+    return {
+      users: this.users,
+      credentials: this.credentials,
+      refreshTokenFamilies: this.refreshTokenFamilies,
+      conversations: this.conversations,
+      messages: this.messages,
+      groups: this.groups,
+      groupMembers: this.groupMembers,
+      groupMessages: this.groupMessages,
+      uploads: this.uploads,
+      uploadSessions: this.uploadSessions,
+      userEventSeqs: this.userEventSeqs,
+    };
+  }
+
+  /**
+   * Journal a record as it is now, or its removal if it is gone
+   */
+  private persist(table: JournaledTable, key: RecordKey) {
+    if (!this.journal) return;
+
+    const value = this.tables()[table].get(key);
+    this.journal.append(value === undefined ? { table, key } : { table, key, value });
+  }
+
+  private journalState(): JournalState {
+    const tables = this.tables();
+    return {
+      tables: Object.keys(tables).reduce((result, table) => {
+        result[table] = Array.from(tables[table as JournaledTable].entries());
+        return result;
+      }, {} as JournalState["tables"]),
+      sequences: {
+        conversations: this.nextConversationId,
+        messages: this.nextMessageId,
+        groups: this.nextGroupId,
+        groupMembers: this.nextGroupMemberId,
+        groupMessages: this.nextGroupMessageId,
+      },
+    };
+  }
+
+  private indexDocument(key: string, message: { content: string; fileName: string | null }) {
+    this.unindexDocument(key);
+
+    const tokens = Array.from(new Set(tokenize(`${message.content} ${message.fileName || ""}`)));
+    tokens.forEach(token => {
+      if (!this.searchIndex.has(token)) {
+        this.searchIndex.set(token, new Set());
+      }
+      this.searchIndex.get(token)!.add(key);
+    });
+    this.indexedTokens.set(key, tokens);
+  }
+
+  private unindexDocument(key: string) {
+    (this.indexedTokens.get(key) || []).forEach(token => {
+      const keys = this.searchIndex.get(token);
+      keys?.delete(key);
+      if (keys && keys.size === 0) {
+        this.searchIndex.delete(token);
+      }
+    });
+    this.indexedTokens.delete(key);
+  }
+
+  /**
+   * Document keys containing every term (as a word prefix)
+   */
+  private lookupTerms(terms: string[]): string[] {
+    const vocabulary = Array.from(this.searchIndex.keys());
+    let result: Set<string> | null = null;
+
+    for (const term of terms) {
+      const keys = new Set<string>();
+      vocabulary
+        .filter(token => matchesTerm(token, [term]))
+        .forEach(token => this.searchIndex.get(token)!.forEach(key => keys.add(key)));
+
+      const matched: Set<string> = result
+        ? new Set(Array.from(result as Set<string>).filter(key => keys.has(key)))
+        : keys;
+      result = matched;
+      if (matched.size === 0) break;
+    }
+
+    return Array.from(result || []);
+  }
+
+  private isVisibleTo(message: Message, viewerId?: string): boolean {
+    return !viewerId || !(message.deletedFor || []).includes(viewerId);
+  }
+
+  private withSender(message: Message): MessageWithSender {
+    const replyTo = message.replyToId ? this.messages.get(message.replyToId) : undefined;
+
+    return {
+      ...message,
+      sender: this.users.get(message.senderId) || {} as User,
+      replyTo: replyTo
+        ? { ...replyTo, sender: this.users.get(replyTo.senderId) || {} as User }
+        : null,
+    };
+  }
+
+  /**
+   * Page through messages ordered by (createdAt, id), oldest first.
+   * Without a cursor the newest page is returned. `hasMore` tells whether more
+   * messages exist beyond the page in the direction being paged.
+   */
+  private paginate<T extends { id: number; createdAt: Date | null }>(
+    messages: T[],
+    options: MessagePageOptions
+  ): MessagePage<T> {
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const compare = (a: { id: number; createdAt: Date | null }, b: { id: number; createdAt: Date | null }) =>
+      (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0) || a.id - b.id;
+
+    let sorted = messages.slice().sort(compare);
+
+    if (options.before) {
+      const before = options.before;
+      sorted = sorted.filter(msg => compare(msg, before) < 0);
+    }
+
+    if (options.after && !options.before) {
+      const after = options.after;
+      sorted = sorted.filter(msg => compare(msg, after) > 0);
+      return { messages: sorted.slice(0, limit), hasMore: sorted.length > limit };
+    }
+
+    return {
+      messages: sorted.slice(Math.max(0, sorted.length - limit)),
+      hasMore: sorted.length > limit,
+    };
+  }
+
+  private addMember(groupId: number, userId: string, role: string): GroupMember {
+    const member: GroupMember = {
+      id: this.nextGroupMemberId++,
+      groupId,
+      userId,
+      role,
+      joinedAt: new Date(),
+    };
+
+    this.groupMembers.set(member.id, member);
+    this.persist("groupMembers", member.id);
+    return member;
+  }
+
+  async searchMessages(userId: string, filters: MessageSearchFilters): Promise<MessageSearchResult[]> {
+    const conversationIds = new Set(
+      Array.from(this.conversations.values())
+        .filter(conv => conv.participant1Id === userId || conv.participant2Id === userId)
+        .map(conv => conv.id)
+    );
+    const groupIds = new Set(
+      Array.from(this.groupMembers.values())
+        .filter(member => member.userId === userId && this.groups.get(member.groupId)?.isActive)
+        .map(member => member.groupId)
+    );
+
+    const keys = filters.terms.length > 0
+      ? this.lookupTerms(filters.terms)
+      : Array.from(this.indexedTokens.keys());
+
+    const results: MessageSearchResult[] = [];
+
+    for (const key of keys) {
+      const [kind, id] = key.split(":");
+      const message = kind === "group"
+        ? this.groupMessages.get(Number(id))
+        : this.messages.get(Number(id));
+      if (!message) continue;
+
+      const conversationId = "conversationId" in message ? message.conversationId : null;
+      const groupId = "groupId" in message ? message.groupId : null;
+
+      if (conversationId !== null && !conversationIds.has(conversationId)) continue;
+      if (groupId !== null && !groupIds.has(groupId)) continue;
+      if ("deletedFor" in message && !this.isVisibleTo(message, userId)) continue;
+
+      if (filters.conversationId !== undefined && conversationId !== filters.conversationId) continue;
+      if (filters.groupId !== undefined && groupId !== filters.groupId) continue;
+      if (filters.senderId && message.senderId !== filters.senderId) continue;
+      if (filters.hasFile && !message.fileUrl) continue;
+
+      const createdAt = message.createdAt?.getTime() || 0;
+      if (filters.from && createdAt < filters.from.getTime()) continue;
+      if (filters.to && createdAt > filters.to.getTime()) continue;
+
+      results.push({
+        conversationId,
+        groupId,
+        message: "conversationId" in message
+          ? this.withSender(message)
+          : { ...message, sender: this.users.get(message.senderId) || {} as User },
+        ...messageSnippet(message, filters.terms),
+      });
+    }
+
+    return results
+      .sort((a, b) => (b.message.createdAt?.getTime() || 0) - (a.message.createdAt?.getTime() || 0))
+      .slice(0, filters.limit || DEFAULT_PAGE_SIZE);
+  }
+
+  async createUpload(uploadData: Omit<Upload, "createdAt">): Promise<Upload> {
+    const upload: Upload = { ...uploadData, createdAt: new Date() };
+    this.uploads.set(upload.url, upload);
+    this.persist("uploads", upload.url);
+    return upload;
+  }
+
+  async getUploadByUrl(url: string): Promise<Upload | undefined> {
+    return this.uploads.get(url);
+  }
+
+  async createUploadSession(sessionData: Omit<UploadSession, "createdAt" | "receivedParts">): Promise<UploadSession> {
+    const session: UploadSession = { ...sessionData, receivedParts: [], createdAt: new Date() };
+    this.uploadSessions.set(session.id, session);
+    this.persist("uploadSessions", session.id);
+    return session;
+  }
+
+  async getUploadSession(sessionId: string): Promise<UploadSession | undefined> {
+    return this.uploadSessions.get(sessionId);
+  }
+
+  async markUploadPartReceived(sessionId: string, partIndex: number): Promise<UploadSession | undefined> {
+    const session = this.uploadSessions.get(sessionId);
+    if (!session) return undefined;
+
+    if (!session.receivedParts.includes(partIndex)) {
+      session.receivedParts = [...session.receivedParts, partIndex].sort((a, b) => a - b);
+      this.persist("uploadSessions", session.id);
+    }
+    return session;
+  }
+
+  async deleteUploadSession(sessionId: string): Promise<void> {
+    this.uploadSessions.delete(sessionId);
+    this.persist("uploadSessions", sessionId);
+  }
+
+  async appendUserEvent(userId: string, type: string, data: any): Promise<UserEvent> {
+    const seq = (this.userEventSeqs.get(userId) || 0) + 1;
+    this.userEventSeqs.set(userId, seq);
+    this.persist("userEventSeqs", userId);
+
+    const event: UserEvent = { seq, type, data, createdAt: new Date() };
+    const events = this.userEvents.get(userId) || [];
+    events.push(event);
+    if (events.length > MAX_USER_EVENTS) {
+      events.splice(0, events.length - MAX_USER_EVENTS);
+    }
+    this.userEvents.set(userId, events);
+
+    return event;
+  }
+
+  async getUserEvents(userId: string, since?: number, limit = DEFAULT_EVENT_PAGE_SIZE): Promise<UserEventPage> {
+    const latestSeq = this.userEventSeqs.get(userId) || 0;
+    const events = this.userEvents.get(userId) || [];
+    const oldestSeq = events.length > 0 ? events[0].seq : latestSeq + 1;
+
+    return toUserEventPage(
+      since,
+      latestSeq,
+      oldestSeq,
+      events.filter(event => since !== undefined && event.seq > since),
+      limit
+    );
+  }
+
+  async *exportRecords(): AsyncGenerator<ArchiveRecord> {
+    const byId = <T extends { id: number }>(records: Map<number, T>) =>
+      Array.from(records.values()).sort((a, b) => a.id - b.id);
+
+    for (const user of Array.from(this.users.values())) {
+      yield { kind: "user", record: user, passwordHash: this.credentials.get(user.id) || null };
+    }
+    for (const upload of Array.from(this.uploads.values())) {
+      yield { kind: "upload", record: upload };
+    }
+    for (const conversation of byId(this.conversations)) {
+      yield { kind: "conversation", record: conversation };
+    }
+    for (const message of byId(this.messages)) {
+      yield { kind: "message", record: message };
+    }
+    for (const group of byId(this.groups)) {
+      yield { kind: "group", record: group };
+    }
+    for (const member of byId(this.groupMembers)) {
+      yield { kind: "groupMember", record: member };
+    }
+    for (const message of byId(this.groupMessages)) {
+      yield { kind: "groupMessage", record: message };
+    }
+  }
+
+  async importRecord(archived: ArchiveRecord): Promise<number | undefined> {
+    switch (archived.kind) {
+      case "user":
+        this.users.set(archived.record.id, { ...archived.record });
+        this.persist("users", archived.record.id);
+        if (archived.passwordHash) {
+          await this.setUserPassword(archived.record.id, archived.passwordHash);
+        }
+        return undefined;
+      case "upload":
+        this.uploads.set(archived.record.url, { ...archived.record });
+        this.persist("uploads", archived.record.url);
+        return undefined;
+      case "conversation": {
+        const conversation: Conversation = { ...archived.record, id: this.nextConversationId++ };
+        this.conversations.set(conversation.id, conversation);
+        this.persist("conversations", conversation.id);
+        return conversation.id;
+      }
+      case "message": {
+        const message: Message = { ...archived.record, id: this.nextMessageId++ };
+        this.messages.set(message.id, message);
+        this.persist("messages", message.id);
+        if (!message.deletedAt) {
+          this.indexDocument(`message:${message.id}`, message);
+        }
+        if (message.clientMessageId) {
+          this.clientMessageIds.set(`${message.senderId}:${message.clientMessageId}`, message.id);
+        }
+        return message.id;
+      }
+      case "group": {
+        const group: GroupChat = { ...archived.record, id: this.nextGroupId++ };
+        this.groups.set(group.id, group);
+        this.persist("groups", group.id);
+        return group.id;
+      }
+      case "groupMember": {
+        const member: GroupMember = { ...archived.record, id: this.nextGroupMemberId++ };
+        this.groupMembers.set(member.id, member);
+        this.persist("groupMembers", member.id);
+        return member.id;
+      }
+      case "groupMessage": {
+        const message: GroupMessage = { ...archived.record, id: this.nextGroupMessageId++ };
+        this.groupMessages.set(message.id, message);
+        this.persist("groupMessages", message.id);
+        this.indexDocument(`group:${message.id}`, message);
+        return message.id;
+      }
+    }
   }
 
   async searchUsers(query: string, currentUserId: string): Promise<User[]> {
@@ -234,6 +1136,4 @@ export class MemoryStorage implements IStorage {
       )
       .slice(0, 50);
   }
-}
-
-export const storage = new MemoryStorage();
\ No newline at end of file
+}
\ No newline at end of file
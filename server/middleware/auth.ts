@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { jwtConfig } from '../config/auth';
 
 // Extend Express Request type to include user data
 declare global {
@@ -8,6 +9,7 @@ declare global {
       user?: {
         userId: string;
         email: string;
+        familyId: string;
       };
     }
   }
@@ -30,11 +32,10 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
     }
 
     // Verify token
-    const JWT_ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || 'your-access-secret-key-here';
-
-    const decoded = jwt.verify(accessToken, JWT_ACCESS_SECRET) as {
+    const decoded = jwt.verify(accessToken, jwtConfig.accessSecret) as {
       userId: string;
       email: string;
+      familyId: string;
       type: string;
     };
 
@@ -48,6 +49,7 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
     req.user = {
       userId: decoded.userId,
       email: decoded.email,
+      familyId: decoded.familyId,
     };
 
     // Continue to next middleware
@@ -0,0 +1,185 @@
+import { Request, Response, NextFunction } from 'express';
+import type {
+  Conversation,
+  GroupChat,
+  GroupMemberWithUser,
+  Message,
+} from '@shared/schema';
+import { storage } from '../storage';
+
+// Extend Express Request type with the resources loaded by these checks
+declare global {
+  namespace Express {
+    interface Request {
+      conversation?: Conversation;
+      group?: GroupChat;
+      groupMembers?: GroupMemberWithUser[];
+      message?: Message;
+    }
+  }
+}
+
+/**
+ * Check whether a user is one of the two participants of a conversation
+ * @param userId - User ID
+ * @param conversation - Conversation to check
+ * @returns True if the user is a participant
+ */
+export function isConversationParticipant(userId: string, conversation: Conversation): boolean {
+  return conversation.participant1Id === userId || conversation.participant2Id === userId;
+}
+
+/**
+ * Check whether a user may access a conversation
+ * Used by socket handlers, which have no request to attach to
+ * @param userId - User ID
+ * @param conversationId - Conversation ID
+ * @returns True if the conversation exists and the user is a participant
+ */
+export async function canAccessConversation(userId: string, conversationId: number): Promise<boolean> {
+  const conversation = await storage.getConversation(conversationId);
+  return !!conversation && isConversationParticipant(userId, conversation);
+}
+
+/**
+ * Check whether a user may access a group
+ * @param userId - User ID
+ * @param groupId - Group ID
+ * @returns True if the group exists and the user is a member
+ */
+export async function canAccessGroup(userId: string, groupId: number): Promise<boolean> {
+  const group = await storage.getGroup(groupId);
+  if (!group) return false;
+
+  const members = await storage.getGroupMembers(groupId);
+  return members.some((m) => m.userId === userId);
+}
+
+/**
+ * Conversation Authorization Middleware
+ * Loads the conversation in :id and requires the user to be a participant
+ * Attaches the conversation to the request
+ */
+export async function requireConversationParticipant(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const conversationId = parseInt(req.params.id);
+    if (isNaN(conversationId)) {
+      res.status(400).json({ message: "Invalid conversation ID" });
+      return;
+    }
+
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) {
+      res.status(404).json({ message: "Conversation not found" });
+      return;
+    }
+
+    if (!isConversationParticipant(req.user!.userId, conversation)) {
+      res.status(403).json({ message: "You are not a participant in this conversation" });
+      return;
+    }
+
+    req.conversation = conversation;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Load the group in :id and its members, requiring the user to be a member
+ * @returns The requester's membership, or undefined once a response was sent
+ */
+async function loadGroupMembership(req: Request, res: Response): Promise<GroupMemberWithUser | undefined> {
+  const groupId = parseInt(req.params.id);
+  if (isNaN(groupId)) {
+    res.status(400).json({ message: "Invalid group ID" });
+    return undefined;
+  }
+
+  const group = await storage.getGroup(groupId);
+  if (!group) {
+    res.status(404).json({ message: "Group not found" });
+    return undefined;
+  }
+
+  const members = await storage.getGroupMembers(groupId);
+  const membership = members.find((m) => m.userId === req.user!.userId);
+  if (!membership) {
+    res.status(403).json({ message: "You are not a member of this group" });
+    return undefined;
+  }
+
+  req.group = group;
+  req.groupMembers = members;
+  return membership;
+}
+
+/**
+ * Group Authorization Middleware
+ * Requires the user to be a member of the group in :id
+ * Attaches the group and its members to the request
+ */
+export async function requireGroupMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (await loadGroupMembership(req, res)) {
+      next();
+    }
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Group Admin Authorization Middleware
+ * Requires the user to be an admin of the group in :id
+ * Attaches the group and its members to the request
+ */
+export async function requireGroupAdmin(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const membership = await loadGroupMembership(req, res);
+    if (!membership) return;
+
+    if (membership.role !== 'admin') {
+      res.status(403).json({ message: "Only group admins can manage the group" });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Message Authorization Middleware
+ * Loads the message in :id and requires the user to be a participant in its conversation
+ * Attaches the message and conversation to the request
+ */
+export async function requireMessageAccess(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const messageId = parseInt(req.params.id);
+    if (isNaN(messageId)) {
+      res.status(400).json({ message: "Invalid message ID" });
+      return;
+    }
+
+    const message = await storage.getMessage(messageId);
+    if (!message) {
+      res.status(404).json({ message: "Message not found" });
+      return;
+    }
+
+    const conversation = await storage.getConversation(message.conversationId);
+    if (!conversation || !isConversationParticipant(req.user!.userId, conversation)) {
+      res.status(403).json({ message: "You do not have access to this message" });
+      return;
+    }
+
+    req.message = message;
+    req.conversation = conversation;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,16 +1,25 @@
+import path from 'path';
 import multer from 'multer';
+import { isTypeAllowed, uploadPolicy } from '../config/uploadPolicy';
 
 // Configure multer with memory storage
-// Files will be stored in buffer (req.file.buffer) for upload to Cloudinary
+// Files are kept in a buffer (req.file.buffer) until the blob store saves them
 const storage = multer.memoryStorage();
 
-// Maximum file size: 10MB
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
+/**
+ * Upload refused by the type policy, answered with 415
+ */
+export class UnsupportedFileTypeError extends Error {
+  status = 415;
+}
+
+// Larger files go through chunked upload sessions instead of memory
+const MAX_FILE_SIZE = Math.min(uploadPolicy.maxDirectUploadSize, uploadPolicy.maxFileSize);
 
 /**
  * Multer upload middleware
- * Stores files in memory buffer for Cloudinary upload
- * Maximum file size: 10MB
+ * Stores files in memory and refuses types the upload policy doesn't allow
+ * Maximum file size: uploadPolicy.maxDirectUploadSize
  */
 export const upload = multer({
   storage: storage,
@@ -18,22 +27,36 @@ export const upload = multer({
     fileSize: MAX_FILE_SIZE,
   },
   fileFilter: (req, file, cb) => {
-    // Accept all file types
-    // Can add specific type filtering here if needed
+    const extension = path.extname(file.originalname).slice(1);
+    if (!isTypeAllowed(file.mimetype, extension)) {
+      cb(new UnsupportedFileTypeError('File type not allowed'));
+      return;
+    }
     cb(null, true);
   },
 });
 
 /**
- * Error handler for multer errors
+ * Send a 413 response that tells the client the limit it ran into
+ */
+export function sendFileTooLarge(res: any, maxFileSize: number): void {
+  res.status(413).json({ message: 'File too large', maxFileSize });
+}
+
+/**
+ * Error handler for multer errors and policy rejections
  */
 export function handleMulterError(err: any, req: any, res: any, next: any): void {
   if (err instanceof multer.MulterError) {
     if (err.code === 'LIMIT_FILE_SIZE') {
-      res.status(400).json({ error: 'File too large, max 10MB' });
+      sendFileTooLarge(res, MAX_FILE_SIZE);
       return;
     }
-    res.status(400).json({ error: err.message });
+    res.status(400).json({ message: err.message });
+    return;
+  }
+  if (err instanceof UnsupportedFileTypeError) {
+    res.status(err.status).json({ message: err.message });
     return;
   }
   next(err);
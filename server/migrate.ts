@@ -0,0 +1,41 @@
+import { storageBackend } from "./config/storage";
+import { applyMigrations, getMigrationStatus } from "./migrations";
+import { closeStorage, connectStorage } from "./storage";
+
+/**
+ * Show or apply schema migrations for the configured STORAGE_BACKEND
+ * Usage: tsx server/migrate.ts [status|apply]
+ * (npm run db:status / npm run db:migrate)
+ */
+
+const COMMANDS = ["status", "apply"];
+
+(async () => {
+  const command = process.argv[2] || "status";
+  if (!COMMANDS.includes(command)) {
+    console.error(`Unknown command "${command}", expected one of: ${COMMANDS.join(", ")}`);
+    process.exit(1);
+  }
+
+  if (storageBackend === "memory") {
+    console.log("Memory storage has no schema, so there is nothing to migrate");
+    return;
+  }
+
+  await connectStorage({ checkMigrations: false });
+  try {
+    if (command === "apply") {
+      const applied = await applyMigrations(storageBackend);
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : "Already up to date");
+    }
+
+    const { applied, pending } = await getMigrationStatus(storageBackend);
+    applied.forEach((id) => console.log(`  applied  ${id}`));
+    pending.forEach((id) => console.log(`  pending  ${id}`));
+  } finally {
+    await closeStorage();
+  }
+})().catch((error) => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,136 @@
+import fs from "fs";
+import path from "path";
+import { sql } from "drizzle-orm";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import type { StorageBackend } from "./config/storage";
+import { getDB } from "./config/db";
+import { getPostgres } from "./db";
+import { mongoMigrations } from "./mongoMigrations";
+
+/**
+ * Versioned schema migrations for the database backends
+ * Postgres migrations are SQL files generated by drizzle-kit from
+ * shared/schema.ts (`npm run db:generate`); Mongo migrations are listed in
+ * mongoMigrations.ts. Each database records which ones it has applied.
+ */
+
+// Same folder drizzle.config.ts generates into, from both server/ and dist/
+const POSTGRES_MIGRATIONS_DIR = path.resolve(import.meta.dirname, "..", "migrations");
+const MONGO_MIGRATIONS_COLLECTION = "migrations";
+
+export interface MigrationStatus {
+  applied: string[];
+  pending: string[];
+}
+
+/**
+ * Which migrations the backend's database has and has not applied
+ * Memory storage has no schema, so nothing is ever pending for it
+ */
+export async function getMigrationStatus(backend: StorageBackend): Promise<MigrationStatus> {
+  switch (backend) {
+    case "postgres":
+      return getPostgresStatus();
+    case "mongo":
+      return getMongoStatus();
+    default:
+      return { applied: [], pending: [] };
+  }
+}
+
+/**
+ * Apply every pending migration, in order
+ * @returns IDs of the migrations applied
+ */
+export async function applyMigrations(backend: StorageBackend): Promise<string[]> {
+  switch (backend) {
+    case "postgres":
+      return applyPostgresMigrations();
+    case "mongo":
+      return applyMongoMigrations();
+    default:
+      return [];
+  }
+}
+
+/**
+ * Refuse to go on against a database that is missing migrations
+ */
+export async function assertMigrated(backend: StorageBackend): Promise<void> {
+  const { pending } = await getMigrationStatus(backend);
+  if (pending.length > 0) {
+    throw new Error(
+      `The ${backend} database is missing ${pending.length} migration(s): ${pending.join(", ")}. ` +
+        `Run "npm run db:migrate" to apply them.`,
+    );
+  }
+}
+
+/**
+ * Postgres migrations in order, named by their drizzle-kit tag
+ */
+function readPostgresMigrations(): Array<{ id: string; createdAt: number }> {
+  const journal = JSON.parse(
+    fs.readFileSync(path.join(POSTGRES_MIGRATIONS_DIR, "meta", "_journal.json"), "utf8"),
+  );
+  return readMigrationFiles({ migrationsFolder: POSTGRES_MIGRATIONS_DIR }).map((migration, index) => ({
+    id: journal.entries[index].tag,
+    createdAt: migration.folderMillis,
+  }));
+}
+
+async function getPostgresStatus(): Promise<MigrationStatus> {
+  const db = getPostgres();
+  const migrations = readPostgresMigrations();
+
+  // Like drizzle's migrator, anything newer than the last applied migration is pending
+  let lastApplied = 0;
+  const { rows } = await db.execute(sql`select to_regclass('drizzle.__drizzle_migrations') as "table"`);
+  if (rows[0]?.table) {
+    const result = await db.execute(sql`select max(created_at) as "lastApplied" from drizzle.__drizzle_migrations`);
+    lastApplied = Number(result.rows[0]?.lastApplied) || 0;
+  }
+
+  return {
+    applied: migrations.filter((migration) => migration.createdAt <= lastApplied).map((migration) => migration.id),
+    pending: migrations.filter((migration) => migration.createdAt > lastApplied).map((migration) => migration.id),
+  };
+}
+
+async function applyPostgresMigrations(): Promise<string[]> {
+  const { pending } = await getPostgresStatus();
+  if (pending.length > 0) {
+    // Runs every pending migration in one transaction
+    await migrate(getPostgres(), { migrationsFolder: POSTGRES_MIGRATIONS_DIR });
+  }
+  return pending;
+}
+
+function mongoMigrationsCollection() {
+  return getDB().collection<{ _id: string; appliedAt: Date }>(MONGO_MIGRATIONS_COLLECTION);
+}
+
+async function getMongoStatus(): Promise<MigrationStatus> {
+  const applied = new Set(
+    (await mongoMigrationsCollection().find().toArray()).map((record) => record._id),
+  );
+
+  return {
+    applied: mongoMigrations.filter((migration) => applied.has(migration.id)).map((migration) => migration.id),
+    pending: mongoMigrations.filter((migration) => !applied.has(migration.id)).map((migration) => migration.id),
+  };
+}
+
+async function applyMongoMigrations(): Promise<string[]> {
+  const { pending } = await getMongoStatus();
+
+  // Mongo has no transactional DDL, so each migration is recorded once it
+  // succeeds; one that fails part-way is retried from the start next time
+  for (const id of pending) {
+    const migration = mongoMigrations.find((candidate) => candidate.id === id)!;
+    await migration.up(getDB());
+    await mongoMigrationsCollection().insertOne({ _id: id, appliedAt: new Date() });
+  }
+  return pending;
+}
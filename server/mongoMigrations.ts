@@ -0,0 +1,89 @@
+import type { Db } from "mongodb";
+
+/**
+ * Versioned MongoDB migrations, applied in order by `npm run db:migrate`
+ * Append new migrations to the end; never edit or reorder one that has
+ * shipped, since databases record applied migrations by ID.
+ */
+export interface MongoMigration {
+  id: string;
+  up(db: Db): Promise<void>;
+}
+
+export const mongoMigrations: MongoMigration[] = [
+  {
+    id: "0000_initial_indexes",
+    async up(db) {
+      // Users collection indexes; guests may have no email
+      await db.collection("users").createIndex(
+        { email: 1 },
+        { unique: true, partialFilterExpression: { email: { $type: "string" } } }
+      );
+      await db.collection("refreshTokenFamilies").createIndex({ userId: 1 });
+
+      // Conversations collection indexes
+      await db.collection("conversations").createIndex({ participant1Id: 1, participant2Id: 1 });
+      await db.collection("conversations").createIndex({ participant2Id: 1 });
+
+      // Messages collection indexes
+      await db.collection("messages").createIndex({ conversationId: 1, createdAt: 1, _id: 1 });
+      await db.collection("messages").createIndex({ threadRootId: 1 });
+      await db.collection("messages").createIndex(
+        { senderId: 1, clientMessageId: 1 },
+        { unique: true, partialFilterExpression: { clientMessageId: { $type: "string" } } }
+      );
+
+      // Groups collection indexes
+      await db.collection("groupMembers").createIndex({ groupId: 1, userId: 1 });
+      await db.collection("groupMembers").createIndex({ userId: 1 });
+      await db.collection("groupMessages").createIndex({ groupId: 1, createdAt: 1, _id: 1 });
+
+      // Uploads and per-user event log indexes
+      await db.collection("uploads").createIndex({ url: 1 }, { unique: true });
+      await db.collection("userEvents").createIndex({ userId: 1, seq: 1 }, { unique: true });
+    },
+  },
+  {
+    id: "0001_search_and_conversation_pairs",
+    async up(db) {
+      // Message search narrows by whole words through these; "none" turns off
+      // stemming and stop words, which the other backends don't have
+      await db.collection("messages").createIndex(
+        { content: "text", fileName: "text" },
+        { default_language: "none" }
+      );
+      await db.collection("groupMessages").createIndex(
+        { content: "text", fileName: "text" },
+        { default_language: "none" }
+      );
+
+      // One conversation per pair of users, whichever of them started it.
+      // Pairs that already have several are merged into the oldest first.
+      const conversations = db.collection("conversations");
+      const byPair = new Map<string, number[]>();
+      for await (const doc of conversations.find({}, { sort: { _id: 1 } })) {
+        const key = [doc.participant1Id, doc.participant2Id].sort().join(" ");
+        byPair.set(key, [...(byPair.get(key) || []), doc._id as unknown as number]);
+      }
+
+      for (const [key, [keptId, ...duplicateIds]] of Array.from(byPair.entries())) {
+        if (duplicateIds.length > 0) {
+          await db.collection("messages").updateMany(
+            { conversationId: { $in: duplicateIds } },
+            { $set: { conversationId: keptId } }
+          );
+          const latest = await conversations
+            .find({ _id: { $in: [keptId, ...duplicateIds] } as any })
+            .sort({ lastMessageAt: -1 })
+            .limit(1)
+            .next();
+          await conversations.updateOne({ _id: keptId as any }, { $set: { lastMessageAt: latest?.lastMessageAt ?? null } });
+          await conversations.deleteMany({ _id: { $in: duplicateIds } as any });
+        }
+        await conversations.updateOne({ _id: keptId as any }, { $set: { participantKey: key } });
+      }
+
+      await conversations.createIndex({ participantKey: 1 }, { unique: true });
+    },
+  },
+];
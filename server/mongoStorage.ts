@@ -0,0 +1,1094 @@
+import type { AnyBulkWriteOperation, Collection, Db, Document, Filter, Sort } from "mongodb";
+import {
+  type User,
+  type UpsertUser,
+  type Conversation,
+  type ConversationWithUsers,
+  type Message,
+  type MessageWithSender,
+  type MessageThread,
+  type InsertMessage,
+  type GroupChat,
+  type GroupChatWithMembers,
+  type GroupMember,
+  type GroupMemberWithUser,
+  type GroupMessage,
+  type GroupMessageWithSender,
+  type InsertGroupChat,
+  type InsertGroupMessage,
+  type RefreshTokenFamily,
+  type MessagePage,
+  type MessagePageOptions,
+  type MessageSearchFilters,
+  type MessageSearchResult,
+  type MessageReceipt,
+  type LinkPreview,
+  type MediaInfo,
+  type Upload,
+  type UploadSession,
+  type UserEvent,
+  type UserEventPage,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { getDB } from "./config/db";
+import { EXPORT_BATCH_SIZE, type ArchiveRecord } from "./utils/archive";
+import { messageSnippet } from "./utils/search";
+import {
+  DEFAULT_EVENT_PAGE_SIZE,
+  DEFAULT_PAGE_SIZE,
+  MAX_USER_EVENTS,
+  applyReaction,
+  deletedMessageFields,
+  deliveredReceipt,
+  readReceipt,
+  toUserEventPage,
+  UnknownUserError,
+} from "./utils/messageState";
+
+// Records are stored with the same fields as in @shared/schema, their ID as _id
+type Doc<T extends { id: unknown }> = Omit<T, "id"> & { _id: T["id"] };
+
+// Conversations also keep their participants as one order-independent key,
+// which a unique index holds to a single conversation per pair of users
+type ConversationDoc = Doc<Conversation> & { participantKey: string };
+type CredentialsDoc = { _id: string; passwordHash: string; updatedAt: Date };
+type UserEventDoc = UserEvent & { userId: string };
+type CounterDoc = { _id: string; seq: number };
+
+const DUPLICATE_KEY = 11000;
+
+function toDoc<T extends { id: unknown }>({ id, ...rest }: T): Doc<T> {
+  return { _id: id, ...rest } as Doc<T>;
+}
+
+function fromDoc<T extends { id: unknown }>(doc: Doc<T> | null): T | undefined {
+  if (!doc) return undefined;
+  const { _id, ...rest } = doc;
+  return { id: _id, ...rest } as unknown as T;
+}
+
+function participantKey(userId: string, otherUserId: string): string {
+  return [userId, otherUserId].sort().join(" ");
+}
+
+function conversationToDoc(conversation: Conversation): ConversationDoc {
+  return {
+    ...toDoc(conversation),
+    participantKey: participantKey(conversation.participant1Id, conversation.participant2Id),
+  };
+}
+
+function conversationFromDoc(doc: ConversationDoc | null): Conversation | undefined {
+  if (!doc) return undefined;
+  const { participantKey: _key, ...rest } = doc;
+  return fromDoc<Conversation>(rest);
+}
+
+/**
+ * Filter selecting the messages after or before a page cursor
+ * Messages are ordered by (createdAt, _id)
+ */
+function pageFilter(options: MessagePageOptions): Filter<any> {
+  const cursor = options.before || options.after;
+  if (!cursor) return {};
+
+  const op = options.before ? "$lt" : "$gt";
+  return {
+    $or: [
+      { createdAt: { [op]: cursor.createdAt } },
+      { createdAt: cursor.createdAt, _id: { [op]: cursor.id } },
+    ],
+  };
+}
+
+/**
+ * Sort for a page query; without an after cursor the newest page is
+ * fetched, so it is read newest first and reversed
+ */
+function pageSort(options: MessagePageOptions): Sort {
+  return options.after && !options.before
+    ? { createdAt: 1, _id: 1 }
+    : { createdAt: -1, _id: -1 };
+}
+
+function toPage<T>(rows: T[], limit: number, options: MessagePageOptions): MessagePage<T> {
+  const page = rows.slice(0, limit);
+  return {
+    messages: options.after && !options.before ? page : page.reverse(),
+    hasMore: rows.length > limit,
+  };
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Filter matching text where every term starts a word, as the in-memory
+ * search index does
+ * The text index narrows the search by all but the last term, which may
+ * still be partly typed; the text index only matches whole words.
+ */
+function termsFilter(terms: string[]): Filter<any> {
+  if (terms.length === 0) return {};
+
+  const wholeWords = terms.slice(0, -1);
+  return {
+    ...(wholeWords.length > 0 ? { $text: { $search: wholeWords.map(term => `"${term}"`).join(" ") } } : {}),
+    $and: terms.map(term => {
+      const pattern = { $regex: `(^|[^\\p{L}\\p{N}])${term}`, $options: "i" };
+      return { $or: [{ content: pattern }, { fileName: pattern }] };
+    }),
+  };
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === DUPLICATE_KEY;
+}
+
+/**
+ * Storage in MongoDB, with the same records as the other backends
+ * Numeric IDs come from a counters collection, so conversations, messages
+ * and groups keep the IDs clients already use.
+ */
+export class MongoStorage implements IStorage {
+  // Without a database, uses the one connectDB() opened
+  constructor(private database?: Db) {}
+
+  private get db(): Db {
+    return this.database || getDB();
+  }
+
+  private get users(): Collection<Doc<User>> {
+    return this.db.collection<Doc<User>>("users");
+  }
+
+  private get credentials(): Collection<CredentialsDoc> {
+    return this.db.collection<CredentialsDoc>("userCredentials");
+  }
+
+  private get refreshTokenFamilies(): Collection<Doc<RefreshTokenFamily>> {
+    return this.db.collection<Doc<RefreshTokenFamily>>("refreshTokenFamilies");
+  }
+
+  private get conversations(): Collection<ConversationDoc> {
+    return this.db.collection<ConversationDoc>("conversations");
+  }
+
+  private get messages(): Collection<Doc<Message>> {
+    return this.db.collection<Doc<Message>>("messages");
+  }
+
+  private get groups(): Collection<Doc<GroupChat>> {
+    return this.db.collection<Doc<GroupChat>>("groupChats");
+  }
+
+  private get groupMembers(): Collection<Doc<GroupMember>> {
+    return this.db.collection<Doc<GroupMember>>("groupMembers");
+  }
+
+  private get groupMessages(): Collection<Doc<GroupMessage>> {
+    return this.db.collection<Doc<GroupMessage>>("groupMessages");
+  }
+
+  private get uploads(): Collection<Doc<Upload>> {
+    return this.db.collection<Doc<Upload>>("uploads");
+  }
+
+  private get uploadSessions(): Collection<Doc<UploadSession>> {
+    return this.db.collection<Doc<UploadSession>>("uploadSessions");
+  }
+
+  private get userEvents(): Collection<UserEventDoc> {
+    return this.db.collection<UserEventDoc>("userEvents");
+  }
+
+  private get counters(): Collection<CounterDoc> {
+    return this.db.collection<CounterDoc>("counters");
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return fromDoc<User>(await this.users.findOne({ _id: id }));
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return fromDoc<User>(await this.users.findOne({ email }));
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    const docs = await this.users.find().toArray();
+    return docs.map(doc => fromDoc<User>(doc)!);
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const now = new Date();
+    const user = await this.users.findOneAndUpdate(
+      { _id: userData.id },
+      {
+        $set: {
+          email: userData.email || null,
+          firstName: userData.firstName || null,
+          lastName: userData.lastName || null,
+          profileImageUrl: userData.profileImageUrl || null,
+          isOnline: userData.isOnline || false,
+          lastSeen: userData.lastSeen || now,
+          updatedAt: now,
+        },
+        $setOnInsert: { createdAt: now },
+      },
+      { upsert: true, returnDocument: "after" }
+    );
+    return fromDoc<User>(user)!;
+  }
+
+  async updateUserOnlineStatus(id: string, isOnline: boolean): Promise<void> {
+    await this.users.updateOne(
+      { _id: id },
+      { $set: { isOnline, lastSeen: new Date(), updatedAt: new Date() } }
+    );
+  }
+
+  async getUserPasswordHash(userId: string): Promise<string | undefined> {
+    const credentials = await this.credentials.findOne({ _id: userId });
+    return credentials?.passwordHash;
+  }
+
+  async setUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await this.credentials.updateOne(
+      { _id: userId },
+      { $set: { passwordHash, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+
+  async createRefreshTokenFamily(
+    familyData: Pick<RefreshTokenFamily, "id" | "userId" | "currentTokenId" | "userAgent">
+  ): Promise<RefreshTokenFamily> {
+    const family: RefreshTokenFamily = {
+      id: familyData.id,
+      userId: familyData.userId,
+      currentTokenId: familyData.currentTokenId,
+      previousTokenId: null,
+      userAgent: familyData.userAgent || null,
+      rotatedAt: new Date(),
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+
+    await this.refreshTokenFamilies.insertOne(toDoc(family));
+    return family;
+  }
+
+  async getRefreshTokenFamily(familyId: string): Promise<RefreshTokenFamily | undefined> {
+    return fromDoc<RefreshTokenFamily>(await this.refreshTokenFamilies.findOne({ _id: familyId }));
+  }
+
+  async rotateRefreshToken(familyId: string, newTokenId: string): Promise<void> {
+    // A pipeline update, so the previous token is read in the same write
+    await this.refreshTokenFamilies.updateOne({ _id: familyId }, [
+      {
+        $set: {
+          previousTokenId: "$currentTokenId",
+          currentTokenId: { $literal: newTokenId },
+          rotatedAt: new Date(),
+        },
+      },
+    ]);
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await this.refreshTokenFamilies.updateOne(
+      { _id: familyId, revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  async revokeUserRefreshTokenFamilies(userId: string): Promise<void> {
+    await this.refreshTokenFamilies.updateMany(
+      { userId, revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  async getConversations(userId: string): Promise<ConversationWithUsers[]> {
+    // Conversations without messages have a null lastMessageAt, which sorts last
+    const userConversations = await this.conversations
+      .find({ $or: [{ participant1Id: userId }, { participant2Id: userId }] })
+      .sort({ lastMessageAt: -1 })
+      .toArray();
+
+    const participants = await this.usersById(
+      userConversations.flatMap(conv => [conv.participant1Id, conv.participant2Id])
+    );
+
+    const result: ConversationWithUsers[] = [];
+
+    for (const doc of userConversations) {
+      const conversation = conversationFromDoc(doc)!;
+      const latestMessages = await this.messages
+        .find({ conversationId: conversation.id })
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(1)
+        .toArray();
+
+      result.push({
+        ...conversation,
+        participant1: participants.get(conversation.participant1Id) || {} as User,
+        participant2: participants.get(conversation.participant2Id) || {} as User,
+        messages: latestMessages.map(message => fromDoc<Message>(message)!),
+      });
+    }
+
+    return result;
+  }
+
+  async getConversation(conversationId: number): Promise<Conversation | undefined> {
+    return conversationFromDoc(await this.conversations.findOne({ _id: conversationId }));
+  }
+
+  async getOrCreateConversation(participant1Id: string, participant2Id: string): Promise<Conversation> {
+    const key = participantKey(participant1Id, participant2Id);
+
+    // Check if conversation already exists
+    const existing = await this.conversations.findOne({ participantKey: key });
+    if (existing) {
+      return conversationFromDoc(existing)!;
+    }
+
+    await this.assertUsersExist([participant1Id, participant2Id]);
+
+    // Create new conversation
+    const conversation: Conversation = {
+      id: await this.nextId("conversations"),
+      participant1Id,
+      participant2Id,
+      createdAt: new Date(),
+      lastMessageAt: null,
+    };
+
+    try {
+      await this.conversations.insertOne(conversationToDoc(conversation));
+    } catch (error) {
+      // Both users started the conversation at once; use the one that got in first
+      if (isDuplicateKeyError(error)) {
+        return conversationFromDoc(await this.conversations.findOne({ participantKey: key }))!;
+      }
+      throw error;
+    }
+    return conversation;
+  }
+
+  async getMessages(conversationId: number, options: MessagePageOptions = {}): Promise<MessagePage<MessageWithSender>> {
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const docs = await this.messages
+      .find({
+        $and: [
+          { conversationId, threadRootId: null },
+          options.viewerId ? { deletedFor: { $ne: options.viewerId } } : {},
+          pageFilter(options),
+        ],
+      })
+      .sort(pageSort(options))
+      .limit(limit + 1)
+      .toArray();
+
+    const page = toPage(docs.map(doc => fromDoc<Message>(doc)!), limit, options);
+    return { ...page, messages: await this.withSenders(page.messages) };
+  }
+
+  async getMessage(messageId: number): Promise<Message | undefined> {
+    return fromDoc<Message>(await this.messages.findOne({ _id: messageId }));
+  }
+
+  async getMessageByClientId(senderId: string, clientMessageId: string): Promise<Message | undefined> {
+    return fromDoc<Message>(await this.messages.findOne({ senderId, clientMessageId }));
+  }
+
+  async getMessageThread(rootId: number, viewerId?: string): Promise<MessageThread | undefined> {
+    const root = await this.getMessage(rootId);
+    if (!root) return undefined;
+
+    const replies = await this.messages
+      .find({
+        threadRootId: rootId,
+        ...(viewerId ? { deletedFor: { $ne: viewerId } } : {}),
+      })
+      .sort({ createdAt: 1, _id: 1 })
+      .toArray();
+
+    const [rootWithSender, ...repliesWithSender] = await this.withSenders([
+      root,
+      ...replies.map(doc => fromDoc<Message>(doc)!),
+    ]);
+    return { root: rootWithSender, replies: repliesWithSender };
+  }
+
+  async createMessage(messageData: InsertMessage, media?: MediaInfo): Promise<Message> {
+    if (messageData.clientMessageId) {
+      const existing = await this.getMessageByClientId(messageData.senderId, messageData.clientMessageId);
+      if (existing) return existing;
+    }
+
+    const message: Message = {
+      id: await this.nextId("messages"),
+      conversationId: messageData.conversationId || 0,
+      senderId: messageData.senderId,
+      clientMessageId: messageData.clientMessageId || null,
+      content: messageData.content,
+      messageType: messageData.messageType || null,
+      fileUrl: messageData.fileUrl || null,
+      fileName: messageData.fileName || null,
+      fileSize: messageData.fileSize || null,
+      media: media || null,
+      linkPreview: null,
+      isRead: false,
+      receipts: {},
+      reactions: {},
+      replyToId: messageData.replyToId || null,
+      threadRootId: messageData.threadRootId || null,
+      replyCount: 0,
+      lastReplyAt: null,
+      editHistory: [],
+      editedAt: null,
+      deletedAt: null,
+      deletedFor: [],
+      createdAt: new Date(),
+    };
+
+    try {
+      await this.messages.insertOne(toDoc(message));
+    } catch (error) {
+      // A concurrent retry of the same send got there first
+      if (isDuplicateKeyError(error) && message.clientMessageId) {
+        return (await this.getMessageByClientId(message.senderId, message.clientMessageId))!;
+      }
+      throw error;
+    }
+
+    if (message.threadRootId) {
+      await this.messages.updateOne(
+        { _id: message.threadRootId },
+        { $inc: { replyCount: 1 }, $set: { lastReplyAt: message.createdAt } }
+      );
+    }
+
+    // Update conversation's lastMessageAt
+    await this.conversations.updateOne(
+      { _id: message.conversationId },
+      { $set: { lastMessageAt: message.createdAt } }
+    );
+
+    return message;
+  }
+
+  async editMessage(messageId: number, content: string): Promise<Message | undefined> {
+    const editedAt = new Date();
+
+    // The old content is read and moved into the history in one write
+    const message = await this.messages.findOneAndUpdate(
+      { _id: messageId },
+      [
+        {
+          $set: {
+            editHistory: {
+              $concatArrays: [
+                { $ifNull: ["$editHistory", []] },
+                [{ content: "$content", editedAt: editedAt.toISOString() }],
+              ],
+            },
+            content: { $literal: content },
+            editedAt,
+          },
+        },
+      ],
+      { returnDocument: "after" }
+    );
+    return fromDoc<Message>(message);
+  }
+
+  async setMessageLinkPreview(messageId: number, linkPreview: LinkPreview | null): Promise<Message | undefined> {
+    const message = await this.messages.findOneAndUpdate(
+      { _id: messageId },
+      { $set: { linkPreview } },
+      { returnDocument: "after" }
+    );
+    return fromDoc<Message>(message);
+  }
+
+  async deleteMessageForEveryone(messageId: number): Promise<Message | undefined> {
+    const message = await this.messages.findOneAndUpdate(
+      { _id: messageId },
+      { $set: deletedMessageFields(new Date()) },
+      { returnDocument: "after" }
+    );
+    return fromDoc<Message>(message);
+  }
+
+  async deleteMessageForUser(messageId: number, userId: string): Promise<void> {
+    await this.messages.updateOne({ _id: messageId }, { $addToSet: { deletedFor: userId } });
+  }
+
+  async markMessageDelivered(messageId: number, userId: string): Promise<MessageReceipt | undefined> {
+    return this.recordDelivery(this.messages, messageId, userId);
+  }
+
+  async markMessagesAsRead(conversationId: number, userId: string, upToMessageId?: number): Promise<number[]> {
+    // In a one-to-one conversation the single recipient has now read it
+    return this.recordRead(this.messages, { conversationId }, userId, upToMessageId, { isRead: true });
+  }
+
+  async addMessageReaction(messageId: number, userId: string, emoji: string): Promise<void> {
+    await this.updateReactions(messageId, userId, emoji, "add");
+  }
+
+  async removeMessageReaction(messageId: number, userId: string, emoji: string): Promise<void> {
+    await this.updateReactions(messageId, userId, emoji, "remove");
+  }
+
+  async getGroups(userId: string): Promise<GroupChatWithMembers[]> {
+    const memberships = await this.groupMembers.find({ userId }).toArray();
+    const userGroups = await this.groups
+      .find({ _id: { $in: memberships.map(member => member.groupId) }, isActive: true })
+      .sort({ updatedAt: -1 })
+      .toArray();
+
+    const result: GroupChatWithMembers[] = [];
+
+    for (const doc of userGroups) {
+      const group = fromDoc<GroupChat>(doc)!;
+      const latestMessages = await this.groupMessages
+        .find({ groupId: group.id })
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(1)
+        .toArray();
+
+      result.push({
+        ...group,
+        members: await this.getGroupMembers(group.id),
+        messages: latestMessages.map(message => fromDoc<GroupMessage>(message)!),
+      });
+    }
+
+    return result;
+  }
+
+  async getGroup(groupId: number): Promise<GroupChat | undefined> {
+    return fromDoc<GroupChat>(await this.groups.findOne({ _id: groupId, isActive: true }));
+  }
+
+  async createGroup(groupData: InsertGroupChat, memberIds: string[]): Promise<GroupChat> {
+    await this.assertUsersExist([groupData.createdBy, ...memberIds]);
+
+    const group: GroupChat = {
+      id: await this.nextId("groupChats"),
+      name: groupData.name,
+      description: groupData.description || null,
+      createdBy: groupData.createdBy,
+      avatar: groupData.avatar || null,
+      maxUploadSize: groupData.maxUploadSize || null,
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await this.groups.insertOne(toDoc(group));
+
+    // The creator administers the group; everyone else joins as a member
+    await this.groupMembers.insertOne(toDoc<GroupMember>({
+      id: await this.nextId("groupMembers"),
+      groupId: group.id,
+      userId: group.createdBy,
+      role: "admin",
+      joinedAt: new Date(),
+    }));
+    await this.addGroupMembers(group.id, memberIds);
+
+    return group;
+  }
+
+  async updateGroup(
+    groupId: number,
+    updates: Partial<Pick<GroupChat, "name" | "description" | "avatar" | "maxUploadSize">>
+  ): Promise<GroupChat | undefined> {
+    const changes: Partial<Omit<GroupChat, "id">> = { updatedAt: new Date() };
+    if (updates.name !== undefined) changes.name = updates.name;
+    if (updates.description !== undefined) changes.description = updates.description;
+    if (updates.avatar !== undefined) changes.avatar = updates.avatar;
+    if (updates.maxUploadSize !== undefined) changes.maxUploadSize = updates.maxUploadSize;
+
+    const group = await this.groups.findOneAndUpdate(
+      { _id: groupId, isActive: true },
+      { $set: changes },
+      { returnDocument: "after" }
+    );
+    return fromDoc<GroupChat>(group);
+  }
+
+  async deleteGroup(groupId: number): Promise<void> {
+    // Delete all group members and messages along with the group
+    await this.groupMessages.deleteMany({ groupId });
+    await this.groupMembers.deleteMany({ groupId });
+    await this.groups.deleteOne({ _id: groupId });
+  }
+
+  async getGroupMembers(groupId: number): Promise<GroupMemberWithUser[]> {
+    const members = (await this.groupMembers.find({ groupId }).sort({ _id: 1 }).toArray())
+      .map(doc => fromDoc<GroupMember>(doc)!);
+    const users = await this.usersById(members.map(member => member.userId));
+
+    return members.map(member => ({
+      ...member,
+      user: users.get(member.userId) || {} as User,
+    }));
+  }
+
+  async addGroupMembers(groupId: number, userIds: string[]): Promise<GroupMember[]> {
+    await this.assertUsersExist(userIds);
+
+    const existing = await this.groupMembers.find({ groupId }).toArray();
+    const existingIds = new Set(existing.map(member => member.userId));
+
+    const added: GroupMember[] = [];
+    for (const userId of userIds) {
+      // Prevents duplicates
+      if (existingIds.has(userId)) continue;
+      existingIds.add(userId);
+      added.push({
+        id: await this.nextId("groupMembers"),
+        groupId,
+        userId,
+        role: "member",
+        joinedAt: new Date(),
+      });
+    }
+
+    if (added.length > 0) {
+      await this.groupMembers.insertMany(added.map(member => toDoc(member)));
+      await this.groups.updateOne({ _id: groupId }, { $set: { updatedAt: new Date() } });
+    }
+
+    return added;
+  }
+
+  async removeGroupMember(groupId: number, userId: string): Promise<void> {
+    await this.groupMembers.deleteMany({ groupId, userId });
+  }
+
+  async getGroupMessages(groupId: number, options: MessagePageOptions = {}): Promise<MessagePage<GroupMessageWithSender>> {
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const docs = await this.groupMessages
+      .find({ $and: [{ groupId }, pageFilter(options)] })
+      .sort(pageSort(options))
+      .limit(limit + 1)
+      .toArray();
+
+    const page = toPage(docs.map(doc => fromDoc<GroupMessage>(doc)!), limit, options);
+    return { ...page, messages: await this.groupWithSenders(page.messages) };
+  }
+
+  async getGroupMessage(messageId: number): Promise<GroupMessage | undefined> {
+    return fromDoc<GroupMessage>(await this.groupMessages.findOne({ _id: messageId }));
+  }
+
+  async createGroupMessage(messageData: InsertGroupMessage, media?: MediaInfo): Promise<GroupMessage> {
+    const message: GroupMessage = {
+      id: await this.nextId("groupMessages"),
+      groupId: messageData.groupId,
+      senderId: messageData.senderId,
+      content: messageData.content,
+      messageType: messageData.messageType || null,
+      fileUrl: messageData.fileUrl || null,
+      fileName: messageData.fileName || null,
+      fileSize: messageData.fileSize || null,
+      media: media || null,
+      linkPreview: null,
+      reactions: {},
+      receipts: {},
+      createdAt: new Date(),
+    };
+
+    await this.groupMessages.insertOne(toDoc(message));
+
+    // Update group's updatedAt so it sorts to the top of the list
+    await this.groups.updateOne({ _id: message.groupId }, { $set: { updatedAt: message.createdAt! } });
+
+    return message;
+  }
+
+  async setGroupMessageLinkPreview(messageId: number, linkPreview: LinkPreview | null): Promise<GroupMessage | undefined> {
+    const message = await this.groupMessages.findOneAndUpdate(
+      { _id: messageId },
+      { $set: { linkPreview } },
+      { returnDocument: "after" }
+    );
+    return fromDoc<GroupMessage>(message);
+  }
+
+  async markGroupMessageDelivered(messageId: number, userId: string): Promise<MessageReceipt | undefined> {
+    return this.recordDelivery(this.groupMessages, messageId, userId);
+  }
+
+  async markGroupMessagesAsRead(groupId: number, userId: string, upToMessageId?: number): Promise<number[]> {
+    return this.recordRead(this.groupMessages, { groupId }, userId, upToMessageId);
+  }
+
+  async searchUsers(query: string, currentUserId: string): Promise<User[]> {
+    if (!query || query.trim() === '') {
+      // Return all users if no search query
+      const docs = await this.users.find({ _id: { $ne: currentUserId } }).toArray();
+      return docs.map(doc => fromDoc<User>(doc)!);
+    }
+
+    const pattern = { $regex: escapeRegex(query), $options: "i" };
+    const docs = await this.users
+      .find({
+        _id: { $ne: currentUserId },
+        $or: [{ firstName: pattern }, { lastName: pattern }, { email: pattern }],
+      })
+      .limit(50)
+      .toArray();
+    return docs.map(doc => fromDoc<User>(doc)!);
+  }
+
+  async searchMessages(userId: string, filters: MessageSearchFilters): Promise<MessageSearchResult[]> {
+    const limit = filters.limit || DEFAULT_PAGE_SIZE;
+    const results: MessageSearchResult[] = [];
+
+    const common: Filter<any>[] = [
+      filters.senderId ? { senderId: filters.senderId } : {},
+      filters.hasFile ? { fileUrl: { $ne: null } } : {},
+      filters.from ? { createdAt: { $gte: filters.from } } : {},
+      filters.to ? { createdAt: { $lte: filters.to } } : {},
+      termsFilter(filters.terms),
+    ];
+
+    if (filters.groupId === undefined) {
+      const conversationIds = (await this.conversations
+        .find({ $or: [{ participant1Id: userId }, { participant2Id: userId }] })
+        .project<{ _id: number }>({ _id: 1 })
+        .toArray())
+        .map(conv => conv._id)
+        .filter(id => filters.conversationId === undefined || id === filters.conversationId);
+
+      const found = await this.messages
+        .find({
+          $and: [
+            { conversationId: { $in: conversationIds }, deletedAt: null, deletedFor: { $ne: userId } },
+            ...common,
+          ],
+        })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .toArray();
+
+      (await this.withSenders(found.map(doc => fromDoc<Message>(doc)!))).forEach(message => results.push({
+        conversationId: message.conversationId,
+        groupId: null,
+        message,
+        ...messageSnippet(message, filters.terms),
+      }));
+    }
+
+    if (filters.conversationId === undefined) {
+      const memberships = await this.groupMembers.find({ userId }).toArray();
+      const activeGroups = await this.groups
+        .find({ _id: { $in: memberships.map(member => member.groupId) }, isActive: true })
+        .project<{ _id: number }>({ _id: 1 })
+        .toArray();
+      const groupIds = activeGroups
+        .map(group => group._id)
+        .filter(id => filters.groupId === undefined || id === filters.groupId);
+
+      const found = await this.groupMessages
+        .find({ $and: [{ groupId: { $in: groupIds } }, ...common] })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .toArray();
+
+      (await this.groupWithSenders(found.map(doc => fromDoc<GroupMessage>(doc)!))).forEach(message => results.push({
+        conversationId: null,
+        groupId: message.groupId,
+        message,
+        ...messageSnippet(message, filters.terms),
+      }));
+    }
+
+    return results
+      .sort((a, b) => (b.message.createdAt?.getTime() || 0) - (a.message.createdAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  async createUpload(uploadData: Omit<Upload, "createdAt">): Promise<Upload> {
+    const upload: Upload = { ...uploadData, createdAt: new Date() };
+    await this.uploads.insertOne(toDoc(upload));
+    return upload;
+  }
+
+  async getUploadByUrl(url: string): Promise<Upload | undefined> {
+    return fromDoc<Upload>(await this.uploads.findOne({ url }));
+  }
+
+  async createUploadSession(sessionData: Omit<UploadSession, "createdAt" | "receivedParts">): Promise<UploadSession> {
+    const session: UploadSession = { ...sessionData, receivedParts: [], createdAt: new Date() };
+    await this.uploadSessions.insertOne(toDoc(session));
+    return session;
+  }
+
+  async getUploadSession(sessionId: string): Promise<UploadSession | undefined> {
+    return fromDoc<UploadSession>(await this.uploadSessions.findOne({ _id: sessionId }));
+  }
+
+  async markUploadPartReceived(sessionId: string, partIndex: number): Promise<UploadSession | undefined> {
+    // Parts that were already received leave the session unchanged
+    const session = await this.uploadSessions.findOneAndUpdate(
+      { _id: sessionId, receivedParts: { $ne: partIndex } },
+      { $push: { receivedParts: { $each: [partIndex], $sort: 1 } } },
+      { returnDocument: "after" }
+    );
+    return session ? fromDoc<UploadSession>(session) : this.getUploadSession(sessionId);
+  }
+
+  async deleteUploadSession(sessionId: string): Promise<void> {
+    await this.uploadSessions.deleteOne({ _id: sessionId });
+  }
+
+  async appendUserEvent(userId: string, type: string, data: any): Promise<UserEvent> {
+    const event: UserEvent = {
+      seq: await this.nextId(`userEvents:${userId}`),
+      type,
+      data,
+      createdAt: new Date(),
+    };
+
+    await this.userEvents.insertOne({ ...event, userId });
+    await this.userEvents.deleteMany({ userId, seq: { $lte: event.seq - MAX_USER_EVENTS } });
+
+    return event;
+  }
+
+  async getUserEvents(userId: string, since?: number, limit = DEFAULT_EVENT_PAGE_SIZE): Promise<UserEventPage> {
+    const counter = await this.counters.findOne({ _id: `userEvents:${userId}` });
+    const latestSeq = counter?.seq || 0;
+
+    const oldest = await this.userEvents.find({ userId }).sort({ seq: 1 }).limit(1).toArray();
+    const oldestSeq = oldest.length > 0 ? oldest[0].seq : latestSeq + 1;
+
+    const missed = since === undefined ? [] : await this.userEvents
+      .find({ userId, seq: { $gt: since } })
+      .sort({ seq: 1 })
+      .limit(limit + 1)
+      .toArray();
+
+    return toUserEventPage(
+      since,
+      latestSeq,
+      oldestSeq,
+      missed.map(({ seq, type, data, createdAt }) => ({ seq, type, data, createdAt })),
+      limit
+    );
+  }
+
+  async *exportRecords(): AsyncGenerator<ArchiveRecord> {
+    const inOrder = { sort: { _id: 1 } as Sort, batchSize: EXPORT_BATCH_SIZE };
+
+    for await (const doc of this.users.find({}, inOrder)) {
+      const credentials = await this.credentials.findOne({ _id: doc._id });
+      yield { kind: "user", record: fromDoc<User>(doc)!, passwordHash: credentials?.passwordHash || null };
+    }
+    for await (const doc of this.uploads.find({}, inOrder)) {
+      yield { kind: "upload", record: fromDoc<Upload>(doc)! };
+    }
+    for await (const doc of this.conversations.find({}, inOrder)) {
+      yield { kind: "conversation", record: conversationFromDoc(doc)! };
+    }
+    for await (const doc of this.messages.find({}, inOrder)) {
+      yield { kind: "message", record: fromDoc<Message>(doc)! };
+    }
+    for await (const doc of this.groups.find({}, inOrder)) {
+      yield { kind: "group", record: fromDoc<GroupChat>(doc)! };
+    }
+    for await (const doc of this.groupMembers.find({}, inOrder)) {
+      yield { kind: "groupMember", record: fromDoc<GroupMember>(doc)! };
+    }
+    for await (const doc of this.groupMessages.find({}, inOrder)) {
+      yield { kind: "groupMessage", record: fromDoc<GroupMessage>(doc)! };
+    }
+  }
+
+  async importRecord(archived: ArchiveRecord): Promise<number | undefined> {
+    switch (archived.kind) {
+      case "user":
+        await this.users.replaceOne({ _id: archived.record.id }, toDoc(archived.record), { upsert: true });
+        if (archived.passwordHash) {
+          await this.setUserPassword(archived.record.id, archived.passwordHash);
+        }
+        return undefined;
+      case "upload":
+        await this.uploads.replaceOne({ _id: archived.record.id }, toDoc(archived.record), { upsert: true });
+        return undefined;
+      case "conversation": {
+        const conversation: Conversation = { ...archived.record, id: await this.nextId("conversations") };
+        await this.conversations.insertOne(conversationToDoc(conversation));
+        return conversation.id;
+      }
+      case "message": {
+        const message: Message = { ...archived.record, id: await this.nextId("messages") };
+        await this.messages.insertOne(toDoc(message));
+        return message.id;
+      }
+      case "group": {
+        const group: GroupChat = { ...archived.record, id: await this.nextId("groupChats") };
+        await this.groups.insertOne(toDoc(group));
+        return group.id;
+      }
+      case "groupMember": {
+        const member: GroupMember = { ...archived.record, id: await this.nextId("groupMembers") };
+        await this.groupMembers.insertOne(toDoc(member));
+        return member.id;
+      }
+      case "groupMessage": {
+        const message: GroupMessage = { ...archived.record, id: await this.nextId("groupMessages") };
+        await this.groupMessages.insertOne(toDoc(message));
+        return message.id;
+      }
+    }
+  }
+
+  /**
+   * Next value of a named sequence, starting at 1
+   */
+  private async nextId(name: string): Promise<number> {
+    const counter = await this.counters.findOneAndUpdate(
+      { _id: name },
+      { $inc: { seq: 1 } },
+      { upsert: true, returnDocument: "after" }
+    );
+    return counter!.seq;
+  }
+
+  // Checked up front, so nothing is stored when any of the users is unknown
+  private async assertUsersExist(userIds: string[]): Promise<void> {
+    const ids = Array.from(new Set(userIds));
+    if (ids.length === 0) return;
+
+    const found = await this.users.find({ _id: { $in: ids } }).project<{ _id: string }>({ _id: 1 }).toArray();
+    const foundIds = new Set(found.map(user => user._id));
+    const unknownIds = ids.filter(id => !foundIds.has(id));
+    if (unknownIds.length > 0) {
+      throw new UnknownUserError(unknownIds);
+    }
+  }
+
+  private async usersById(ids: string[]): Promise<Map<string, User>> {
+    const unique = Array.from(new Set(ids));
+    const found = unique.length > 0
+      ? await this.users.find({ _id: { $in: unique } }).toArray()
+      : [];
+    return new Map(found.map(doc => [doc._id, fromDoc<User>(doc)!] as [string, User]));
+  }
+
+  private async withSenders(rows: Message[]): Promise<MessageWithSender[]> {
+    const replyIds = Array.from(new Set(rows.map(row => row.replyToId).filter((id): id is number => !!id)));
+    const replies = replyIds.length > 0
+      ? (await this.messages.find({ _id: { $in: replyIds } }).toArray()).map(doc => fromDoc<Message>(doc)!)
+      : [];
+    const repliesById = new Map(replies.map(reply => [reply.id, reply] as [number, Message]));
+    const senders = await this.usersById([...rows, ...replies].map(message => message.senderId));
+
+    return rows.map(message => {
+      const replyTo = message.replyToId ? repliesById.get(message.replyToId) : undefined;
+      return {
+        ...message,
+        sender: senders.get(message.senderId) || {} as User,
+        replyTo: replyTo
+          ? { ...replyTo, sender: senders.get(replyTo.senderId) || {} as User }
+          : null,
+      };
+    });
+  }
+
+  private async groupWithSenders(rows: GroupMessage[]): Promise<GroupMessageWithSender[]> {
+    const senders = await this.usersById(rows.map(message => message.senderId));
+    return rows.map(message => ({
+      ...message,
+      sender: senders.get(message.senderId) || {} as User,
+    }));
+  }
+
+  /**
+   * Set the delivery time of a recipient's receipt
+   * @returns The receipt, or undefined if it was already delivered
+   */
+  private async recordDelivery(
+    collection: Collection<Doc<Message>> | Collection<Doc<GroupMessage>>,
+    messageId: number,
+    userId: string
+  ): Promise<MessageReceipt | undefined> {
+    const messages = collection as Collection<any>;
+    const message = await messages.findOne({ _id: messageId });
+    if (!message || message.senderId === userId) return undefined;
+
+    const receipt = deliveredReceipt(message.receipts?.[userId], new Date().toISOString());
+    if (!receipt) return undefined;
+
+    // Only the first delivery is recorded if two arrive at once
+    const result = await messages.updateOne(
+      { _id: messageId, [`receipts.${userId}.deliveredAt`]: null },
+      { $set: { [`receipts.${userId}`]: receipt } }
+    );
+    return result.modifiedCount > 0 ? receipt : undefined;
+  }
+
+  /**
+   * Mark messages read by a recipient, up to and including upToMessageId
+   * @returns IDs of the messages that were not read before
+   */
+  private async recordRead(
+    collection: Collection<Doc<Message>> | Collection<Doc<GroupMessage>>,
+    scope: Filter<any>,
+    userId: string,
+    upToMessageId?: number,
+    extra: Document = {}
+  ): Promise<number[]> {
+    const messages = collection as Collection<any>;
+    const unread = await messages
+      .find({
+        ...scope,
+        senderId: { $ne: userId },
+        [`receipts.${userId}.readAt`]: null,
+        ...(upToMessageId !== undefined ? { _id: { $lte: upToMessageId } } : {}),
+      })
+      .sort({ _id: 1 })
+      .toArray();
+    if (unread.length === 0) return [];
+
+    const now = new Date().toISOString();
+    const updates: AnyBulkWriteOperation<any>[] = unread.map(message => ({
+      updateOne: {
+        filter: { _id: message._id, [`receipts.${userId}.readAt`]: null },
+        update: { $set: { [`receipts.${userId}`]: readReceipt(message.receipts?.[userId], now), ...extra } },
+      },
+    }));
+    await messages.bulkWrite(updates, { ordered: false });
+
+    return unread.map(message => message._id);
+  }
+
+  /**
+   * Add or remove a reaction, retrying if another change to the message's
+   * reactions lands in between reading and writing them
+   */
+  private async updateReactions(messageId: number, userId: string, emoji: string, action: "add" | "remove") {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const message = await this.messages.findOne({ _id: messageId });
+      if (!message) return;
+
+      const result = await this.messages.updateOne(
+        { _id: messageId, reactions: message.reactions } as Filter<Doc<Message>>,
+        { $set: { reactions: applyReaction(message.reactions, userId, emoji, action) } }
+      );
+      if (result.matchedCount > 0) return;
+    }
+    throw new Error(`Could not update reactions on message ${messageId}`);
+  }
+}
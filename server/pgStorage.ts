@@ -0,0 +1,1145 @@
+import {
+  users,
+  userCredentials,
+  refreshTokenFamilies,
+  conversations,
+  messages,
+  groupChats,
+  groupMembers,
+  groupMessages,
+  uploads,
+  uploadSessions,
+  userEvents,
+  type User,
+  type UpsertUser,
+  type Conversation,
+  type ConversationWithUsers,
+  type Message,
+  type MessageWithSender,
+  type MessageThread,
+  type InsertMessage,
+  type GroupChat,
+  type GroupChatWithMembers,
+  type GroupMember,
+  type GroupMemberWithUser,
+  type GroupMessage,
+  type GroupMessageWithSender,
+  type InsertGroupChat,
+  type InsertGroupMessage,
+  type RefreshTokenFamily,
+  type MessagePage,
+  type MessagePageOptions,
+  type MessageSearchFilters,
+  type MessageSearchResult,
+  type MessageReceipt,
+  type LinkPreview,
+  type MediaInfo,
+  type Upload,
+  type UploadSession,
+  type UserEvent,
+  type UserEventPage,
+} from "@shared/schema";
+import type * as schema from "@shared/schema";
+import { and, asc, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lte, ne, or, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn, PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import type { IStorage } from "./storage";
+import { getPostgres } from "./db";
+import { EXPORT_BATCH_SIZE, type ArchiveRecord } from "./utils/archive";
+import { messageSnippet } from "./utils/search";
+import {
+  DEFAULT_EVENT_PAGE_SIZE,
+  DEFAULT_PAGE_SIZE,
+  MAX_USER_EVENTS,
+  applyReaction,
+  deletedMessageFields,
+  toUserEventPage,
+  UnknownUserError,
+} from "./utils/messageState";
+
+// The database or a transaction on it, through any Postgres driver
+type Executor = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Condition selecting the messages after or before a page cursor
+ * Messages are ordered by (createdAt, id)
+ */
+function pageCondition(createdAt: AnyPgColumn, id: AnyPgColumn, options: MessagePageOptions): SQL | undefined {
+  if (options.before) {
+    return sql`(${createdAt}, ${id}) < (${options.before.createdAt.toISOString()}, ${options.before.id})`;
+  }
+  if (options.after) {
+    return sql`(${createdAt}, ${id}) > (${options.after.createdAt.toISOString()}, ${options.after.id})`;
+  }
+  return undefined;
+}
+
+/**
+ * Ordering for a page query; without an after cursor the newest page is
+ * fetched, so it is read newest first and reversed
+ */
+function pageOrder(createdAt: AnyPgColumn, id: AnyPgColumn, options: MessagePageOptions): SQL[] {
+  return options.after && !options.before
+    ? [asc(createdAt), asc(id)]
+    : [desc(createdAt), desc(id)];
+}
+
+/**
+ * Turn limit + 1 rows fetched in pageOrder into a page, oldest first
+ */
+function toPage<T>(rows: T[], limit: number, options: MessagePageOptions): MessagePage<T> {
+  const page = rows.slice(0, limit);
+  return {
+    messages: options.after && !options.before ? page : page.reverse(),
+    hasMore: rows.length > limit,
+  };
+}
+
+function deletedFor(userId: string): SQL {
+  return sql`(coalesce(${messages.deletedFor}, '[]'::jsonb) @> ${JSON.stringify([userId])}::jsonb)`;
+}
+
+/**
+ * One field of a recipient's receipt, as text
+ */
+function receiptField(receipts: AnyPgColumn, userId: string, field: keyof MessageReceipt): SQL {
+  return sql`(${receipts} -> ${userId}::text ->> ${field}::text)`;
+}
+
+/**
+ * Receipts with one recipient's receipt replaced
+ * Computed in the database, so concurrent updates for different recipients
+ * don't overwrite each other
+ */
+function receiptsWith(receipts: AnyPgColumn, userId: string, deliveredAt: SQL, readAt: SQL): SQL {
+  return sql`coalesce(${receipts}, '{}'::jsonb) || jsonb_build_object(${userId}::text, jsonb_build_object('deliveredAt', ${deliveredAt}, 'readAt', ${readAt}))`;
+}
+
+/**
+ * Update receipts for a recipient reading messages; reading implies delivery
+ */
+function readReceiptsUpdate(receipts: AnyPgColumn, userId: string): SQL {
+  const now = new Date().toISOString();
+  return receiptsWith(
+    receipts,
+    userId,
+    sql`coalesce(${receiptField(receipts, userId, "deliveredAt")}, ${now}::text)`,
+    sql`${now}::text`
+  );
+}
+
+function deliveredReceiptsUpdate(receipts: AnyPgColumn, userId: string): SQL {
+  return receiptsWith(
+    receipts,
+    userId,
+    sql`${new Date().toISOString()}::text`,
+    receiptField(receipts, userId, "readAt")
+  );
+}
+
+/**
+ * Condition matching text where every term starts a word, as the
+ * in-memory search index does
+ */
+function matchesTerms(content: AnyPgColumn, fileName: AnyPgColumn, terms: string[]): SQL | undefined {
+  return and(...terms.map(term => {
+    const pattern = `(^|[^[:alnum:]])${term}`;
+    return or(sql`${content} ~* ${pattern}`, sql`${fileName} ~* ${pattern}`);
+  }));
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+function toUserEvent(row: typeof userEvents.$inferSelect): UserEvent {
+  return { seq: row.seq, type: row.type, data: row.data, createdAt: row.createdAt || new Date() };
+}
+
+/**
+ * Storage in Postgres through Drizzle, using the tables in @shared/schema
+ */
+export class PostgresStorage implements IStorage {
+  // Without a database, uses the one connectPostgres() opened
+  constructor(private database?: Executor) {}
+
+  private get db(): Executor {
+    return this.database || getPostgres();
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users);
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values(userData)
+      .onConflictDoUpdate({
+        target: users.id,
+        set: {
+          ...userData,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return user;
+  }
+
+  async updateUserOnlineStatus(id: string, isOnline: boolean): Promise<void> {
+    await this.db
+      .update(users)
+      .set({
+        isOnline,
+        lastSeen: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, id));
+  }
+
+  async getUserPasswordHash(userId: string): Promise<string | undefined> {
+    const [credentials] = await this.db
+      .select()
+      .from(userCredentials)
+      .where(eq(userCredentials.userId, userId));
+    return credentials?.passwordHash;
+  }
+
+  async setUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await this.db
+      .insert(userCredentials)
+      .values({ userId, passwordHash })
+      .onConflictDoUpdate({
+        target: userCredentials.userId,
+        set: { passwordHash, updatedAt: new Date() },
+      });
+  }
+
+  async createRefreshTokenFamily(
+    familyData: Pick<RefreshTokenFamily, "id" | "userId" | "currentTokenId" | "userAgent">
+  ): Promise<RefreshTokenFamily> {
+    const [family] = await this.db
+      .insert(refreshTokenFamilies)
+      .values({
+        id: familyData.id,
+        userId: familyData.userId,
+        currentTokenId: familyData.currentTokenId,
+        userAgent: familyData.userAgent || null,
+      })
+      .returning();
+    return family;
+  }
+
+  async getRefreshTokenFamily(familyId: string): Promise<RefreshTokenFamily | undefined> {
+    const [family] = await this.db
+      .select()
+      .from(refreshTokenFamilies)
+      .where(eq(refreshTokenFamilies.id, familyId));
+    return family;
+  }
+
+  async rotateRefreshToken(familyId: string, newTokenId: string): Promise<void> {
+    await this.db
+      .update(refreshTokenFamilies)
+      .set({
+        previousTokenId: sql`${refreshTokenFamilies.currentTokenId}`,
+        currentTokenId: newTokenId,
+        rotatedAt: new Date(),
+      })
+      .where(eq(refreshTokenFamilies.id, familyId));
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await this.db
+      .update(refreshTokenFamilies)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokenFamilies.id, familyId), isNull(refreshTokenFamilies.revokedAt)));
+  }
+
+  async revokeUserRefreshTokenFamilies(userId: string): Promise<void> {
+    await this.db
+      .update(refreshTokenFamilies)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokenFamilies.userId, userId), isNull(refreshTokenFamilies.revokedAt)));
+  }
+
+  async getConversations(userId: string): Promise<ConversationWithUsers[]> {
+    // First get all conversations for the user
+    const userConversations = await this.db
+      .select()
+      .from(conversations)
+      .where(
+        or(
+          eq(conversations.participant1Id, userId),
+          eq(conversations.participant2Id, userId)
+        )
+      )
+      .orderBy(sql`${conversations.lastMessageAt} desc nulls last`);
+
+    const participants = await this.usersById(
+      userConversations.flatMap(conv => [conv.participant1Id, conv.participant2Id])
+    );
+
+    const result: ConversationWithUsers[] = [];
+
+    for (const conversation of userConversations) {
+      // Get latest messages for this conversation
+      const latestMessages = await this.db
+        .select()
+        .from(messages)
+        .where(eq(messages.conversationId, conversation.id))
+        .orderBy(desc(messages.createdAt), desc(messages.id))
+        .limit(1);
+
+      result.push({
+        ...conversation,
+        participant1: participants.get(conversation.participant1Id) || {} as User,
+        participant2: participants.get(conversation.participant2Id) || {} as User,
+        messages: latestMessages,
+      });
+    }
+
+    return result;
+  }
+
+  async getConversation(conversationId: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.id, conversationId));
+    return conversation;
+  }
+
+  async getOrCreateConversation(participant1Id: string, participant2Id: string): Promise<Conversation> {
+    // Check if conversation already exists
+    const [existing] = await this.db
+      .select()
+      .from(conversations)
+      .where(
+        or(
+          and(
+            eq(conversations.participant1Id, participant1Id),
+            eq(conversations.participant2Id, participant2Id)
+          ),
+          and(
+            eq(conversations.participant1Id, participant2Id),
+            eq(conversations.participant2Id, participant1Id)
+          )
+        )
+      );
+
+    if (existing) {
+      return existing;
+    }
+
+    await this.assertUsersExist(this.db, [participant1Id, participant2Id]);
+
+    // Create new conversation
+    const [newConversation] = await this.db
+      .insert(conversations)
+      .values({
+        participant1Id,
+        participant2Id,
+        lastMessageAt: null,
+      })
+      .returning();
+
+    return newConversation;
+  }
+
+  async getMessages(conversationId: number, options: MessagePageOptions = {}): Promise<MessagePage<MessageWithSender>> {
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        isNull(messages.threadRootId),
+        options.viewerId ? sql`not ${deletedFor(options.viewerId)}` : undefined,
+        pageCondition(messages.createdAt, messages.id, options)
+      ))
+      .orderBy(...pageOrder(messages.createdAt, messages.id, options))
+      .limit(limit + 1);
+
+    const page = toPage(rows, limit, options);
+    return { ...page, messages: await this.withSenders(page.messages) };
+  }
+
+  async getMessage(messageId: number): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, messageId));
+    return message;
+  }
+
+  async getMessageByClientId(senderId: string, clientMessageId: string): Promise<Message | undefined> {
+    const [message] = await this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.senderId, senderId), eq(messages.clientMessageId, clientMessageId)));
+    return message;
+  }
+
+  async getMessageThread(rootId: number, viewerId?: string): Promise<MessageThread | undefined> {
+    const root = await this.getMessage(rootId);
+    if (!root) return undefined;
+
+    const replies = await this.db
+      .select()
+      .from(messages)
+      .where(and(
+        eq(messages.threadRootId, rootId),
+        viewerId ? sql`not ${deletedFor(viewerId)}` : undefined
+      ))
+      .orderBy(asc(messages.createdAt), asc(messages.id));
+
+    const [rootWithSender, ...repliesWithSender] = await this.withSenders([root, ...replies]);
+    return { root: rootWithSender, replies: repliesWithSender };
+  }
+
+  async createMessage(messageData: InsertMessage, media?: MediaInfo): Promise<Message> {
+    if (messageData.clientMessageId) {
+      const existing = await this.getMessageByClientId(messageData.senderId, messageData.clientMessageId);
+      if (existing) return existing;
+    }
+
+    const message = await this.db.transaction(async (tx) => {
+      // Set here rather than by the database, so it has the millisecond
+      // precision cursors are built from
+      const createdAt = new Date();
+
+      // A concurrent retry of the same send loses on the unique index
+      const [created] = await tx
+        .insert(messages)
+        .values({
+          conversationId: messageData.conversationId,
+          senderId: messageData.senderId,
+          clientMessageId: messageData.clientMessageId || null,
+          content: messageData.content,
+          messageType: messageData.messageType || null,
+          fileUrl: messageData.fileUrl || null,
+          fileName: messageData.fileName || null,
+          fileSize: messageData.fileSize || null,
+          media: media || null,
+          replyToId: messageData.replyToId || null,
+          threadRootId: messageData.threadRootId || null,
+          createdAt,
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (!created) return undefined;
+
+      if (created.threadRootId) {
+        await tx
+          .update(messages)
+          .set({
+            replyCount: sql`coalesce(${messages.replyCount}, 0) + 1`,
+            lastReplyAt: createdAt,
+          })
+          .where(eq(messages.id, created.threadRootId));
+      }
+
+      // Update conversation's lastMessageAt
+      await tx
+        .update(conversations)
+        .set({ lastMessageAt: createdAt })
+        .where(eq(conversations.id, created.conversationId));
+
+      return created;
+    });
+
+    return message || (await this.getMessageByClientId(messageData.senderId, messageData.clientMessageId!))!;
+  }
+
+  async editMessage(messageId: number, content: string): Promise<Message | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [message] = await tx.select().from(messages).where(eq(messages.id, messageId)).for("update");
+      if (!message) return undefined;
+
+      const editedAt = new Date();
+      const [edited] = await tx
+        .update(messages)
+        .set({
+          content,
+          editedAt,
+          editHistory: [
+            ...(message.editHistory || []),
+            { content: message.content, editedAt: editedAt.toISOString() },
+          ],
+        })
+        .where(eq(messages.id, messageId))
+        .returning();
+      return edited;
+    });
+  }
+
+  async setMessageLinkPreview(messageId: number, linkPreview: LinkPreview | null): Promise<Message | undefined> {
+    const [message] = await this.db
+      .update(messages)
+      .set({ linkPreview })
+      .where(eq(messages.id, messageId))
+      .returning();
+    return message;
+  }
+
+  async deleteMessageForEveryone(messageId: number): Promise<Message | undefined> {
+    const [message] = await this.db
+      .update(messages)
+      .set(deletedMessageFields(new Date()))
+      .where(eq(messages.id, messageId))
+      .returning();
+    return message;
+  }
+
+  async deleteMessageForUser(messageId: number, userId: string): Promise<void> {
+    await this.db
+      .update(messages)
+      .set({
+        deletedFor: sql`coalesce(${messages.deletedFor}, '[]'::jsonb) || ${JSON.stringify([userId])}::jsonb`,
+      })
+      .where(and(eq(messages.id, messageId), sql`not ${deletedFor(userId)}`));
+  }
+
+  async markMessageDelivered(messageId: number, userId: string): Promise<MessageReceipt | undefined> {
+    const [message] = await this.db
+      .update(messages)
+      .set({ receipts: deliveredReceiptsUpdate(messages.receipts, userId) })
+      .where(and(
+        eq(messages.id, messageId),
+        ne(messages.senderId, userId),
+        sql`${receiptField(messages.receipts, userId, "deliveredAt")} is null`
+      ))
+      .returning();
+    return message?.receipts?.[userId];
+  }
+
+  async markMessagesAsRead(conversationId: number, userId: string, upToMessageId?: number): Promise<number[]> {
+    // In a one-to-one conversation the single recipient has now read it
+    const read = await this.db
+      .update(messages)
+      .set({ receipts: readReceiptsUpdate(messages.receipts, userId), isRead: true })
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        ne(messages.senderId, userId),
+        upToMessageId !== undefined ? lte(messages.id, upToMessageId) : undefined,
+        sql`${receiptField(messages.receipts, userId, "readAt")} is null`
+      ))
+      .returning({ id: messages.id });
+
+    return read.map(row => row.id).sort((a, b) => a - b);
+  }
+
+  async addMessageReaction(messageId: number, userId: string, emoji: string): Promise<void> {
+    await this.updateReactions(messageId, userId, emoji, "add");
+  }
+
+  async removeMessageReaction(messageId: number, userId: string, emoji: string): Promise<void> {
+    await this.updateReactions(messageId, userId, emoji, "remove");
+  }
+
+  async getGroups(userId: string): Promise<GroupChatWithMembers[]> {
+    const memberships = this.db
+      .select({ groupId: groupMembers.groupId })
+      .from(groupMembers)
+      .where(eq(groupMembers.userId, userId));
+
+    const userGroups = await this.db
+      .select()
+      .from(groupChats)
+      .where(and(inArray(groupChats.id, memberships), eq(groupChats.isActive, true)))
+      .orderBy(desc(groupChats.updatedAt));
+
+    const result: GroupChatWithMembers[] = [];
+
+    for (const group of userGroups) {
+      const latestMessages = await this.db
+        .select()
+        .from(groupMessages)
+        .where(eq(groupMessages.groupId, group.id))
+        .orderBy(desc(groupMessages.createdAt), desc(groupMessages.id))
+        .limit(1);
+
+      result.push({
+        ...group,
+        members: await this.getGroupMembers(group.id),
+        messages: latestMessages,
+      });
+    }
+
+    return result;
+  }
+
+  async getGroup(groupId: number): Promise<GroupChat | undefined> {
+    const [group] = await this.db
+      .select()
+      .from(groupChats)
+      .where(and(eq(groupChats.id, groupId), eq(groupChats.isActive, true)));
+    return group;
+  }
+
+  async createGroup(groupData: InsertGroupChat, memberIds: string[]): Promise<GroupChat> {
+    return this.db.transaction(async (tx) => {
+      await this.assertUsersExist(tx, [groupData.createdBy, ...memberIds]);
+
+      const [group] = await tx
+        .insert(groupChats)
+        .values({
+          name: groupData.name,
+          description: groupData.description || null,
+          createdBy: groupData.createdBy,
+          avatar: groupData.avatar || null,
+          maxUploadSize: groupData.maxUploadSize || null,
+        })
+        .returning();
+
+      // The creator administers the group; everyone else joins as a member
+      await tx.insert(groupMembers).values({ groupId: group.id, userId: group.createdBy, role: "admin" });
+      await this.insertMembers(tx, group.id, memberIds);
+
+      return group;
+    });
+  }
+
+  async updateGroup(
+    groupId: number,
+    updates: Partial<Pick<GroupChat, "name" | "description" | "avatar" | "maxUploadSize">>
+  ): Promise<GroupChat | undefined> {
+    const changes: Partial<GroupChat> = { updatedAt: new Date() };
+    if (updates.name !== undefined) changes.name = updates.name;
+    if (updates.description !== undefined) changes.description = updates.description;
+    if (updates.avatar !== undefined) changes.avatar = updates.avatar;
+    if (updates.maxUploadSize !== undefined) changes.maxUploadSize = updates.maxUploadSize;
+
+    const [group] = await this.db
+      .update(groupChats)
+      .set(changes)
+      .where(and(eq(groupChats.id, groupId), eq(groupChats.isActive, true)))
+      .returning();
+    return group;
+  }
+
+  async deleteGroup(groupId: number): Promise<void> {
+    // Delete all group members and messages along with the group
+    await this.db.transaction(async (tx) => {
+      await tx.delete(groupMessages).where(eq(groupMessages.groupId, groupId));
+      await tx.delete(groupMembers).where(eq(groupMembers.groupId, groupId));
+      await tx.delete(groupChats).where(eq(groupChats.id, groupId));
+    });
+  }
+
+  async getGroupMembers(groupId: number): Promise<GroupMemberWithUser[]> {
+    const rows = await this.db
+      .select()
+      .from(groupMembers)
+      .leftJoin(users, eq(groupMembers.userId, users.id))
+      .where(eq(groupMembers.groupId, groupId))
+      .orderBy(asc(groupMembers.id));
+
+    return rows.map(row => ({
+      ...row.group_members,
+      user: row.users || {} as User,
+    }));
+  }
+
+  async addGroupMembers(groupId: number, userIds: string[]): Promise<GroupMember[]> {
+    return this.db.transaction(tx => this.insertMembers(tx, groupId, userIds));
+  }
+
+  async removeGroupMember(groupId: number, userId: string): Promise<void> {
+    await this.db
+      .delete(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)));
+  }
+
+  async getGroupMessages(groupId: number, options: MessagePageOptions = {}): Promise<MessagePage<GroupMessageWithSender>> {
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const rows = await this.db
+      .select()
+      .from(groupMessages)
+      .where(and(
+        eq(groupMessages.groupId, groupId),
+        pageCondition(groupMessages.createdAt, groupMessages.id, options)
+      ))
+      .orderBy(...pageOrder(groupMessages.createdAt, groupMessages.id, options))
+      .limit(limit + 1);
+
+    const page = toPage(rows, limit, options);
+    return { ...page, messages: await this.groupWithSenders(page.messages) };
+  }
+
+  async getGroupMessage(messageId: number): Promise<GroupMessage | undefined> {
+    const [message] = await this.db.select().from(groupMessages).where(eq(groupMessages.id, messageId));
+    return message;
+  }
+
+  async createGroupMessage(messageData: InsertGroupMessage, media?: MediaInfo): Promise<GroupMessage> {
+    return this.db.transaction(async (tx) => {
+      const createdAt = new Date();
+      const [message] = await tx
+        .insert(groupMessages)
+        .values({
+          groupId: messageData.groupId,
+          senderId: messageData.senderId,
+          content: messageData.content,
+          messageType: messageData.messageType || null,
+          fileUrl: messageData.fileUrl || null,
+          fileName: messageData.fileName || null,
+          fileSize: messageData.fileSize || null,
+          media: media || null,
+          createdAt,
+        })
+        .returning();
+
+      // Update group's updatedAt so it sorts to the top of the list
+      await tx
+        .update(groupChats)
+        .set({ updatedAt: createdAt })
+        .where(eq(groupChats.id, messageData.groupId));
+
+      return message;
+    });
+  }
+
+  async setGroupMessageLinkPreview(messageId: number, linkPreview: LinkPreview | null): Promise<GroupMessage | undefined> {
+    const [message] = await this.db
+      .update(groupMessages)
+      .set({ linkPreview })
+      .where(eq(groupMessages.id, messageId))
+      .returning();
+    return message;
+  }
+
+  async markGroupMessageDelivered(messageId: number, userId: string): Promise<MessageReceipt | undefined> {
+    const [message] = await this.db
+      .update(groupMessages)
+      .set({ receipts: deliveredReceiptsUpdate(groupMessages.receipts, userId) })
+      .where(and(
+        eq(groupMessages.id, messageId),
+        ne(groupMessages.senderId, userId),
+        sql`${receiptField(groupMessages.receipts, userId, "deliveredAt")} is null`
+      ))
+      .returning();
+    return message?.receipts?.[userId];
+  }
+
+  async markGroupMessagesAsRead(groupId: number, userId: string, upToMessageId?: number): Promise<number[]> {
+    const read = await this.db
+      .update(groupMessages)
+      .set({ receipts: readReceiptsUpdate(groupMessages.receipts, userId) })
+      .where(and(
+        eq(groupMessages.groupId, groupId),
+        ne(groupMessages.senderId, userId),
+        upToMessageId !== undefined ? lte(groupMessages.id, upToMessageId) : undefined,
+        sql`${receiptField(groupMessages.receipts, userId, "readAt")} is null`
+      ))
+      .returning({ id: groupMessages.id });
+
+    return read.map(row => row.id).sort((a, b) => a - b);
+  }
+
+  async searchUsers(query: string, currentUserId: string): Promise<User[]> {
+    if (!query || query.trim() === '') {
+      // Return all users if no search query
+      return this.db.select().from(users).where(ne(users.id, currentUserId));
+    }
+
+    const pattern = `%${escapeLike(query)}%`;
+    return this.db
+      .select()
+      .from(users)
+      .where(and(
+        ne(users.id, currentUserId),
+        or(
+          ilike(users.firstName, pattern),
+          ilike(users.lastName, pattern),
+          ilike(users.email, pattern)
+        )
+      ))
+      .limit(50);
+  }
+
+  async searchMessages(userId: string, filters: MessageSearchFilters): Promise<MessageSearchResult[]> {
+    const limit = filters.limit || DEFAULT_PAGE_SIZE;
+    const results: MessageSearchResult[] = [];
+
+    if (filters.groupId === undefined) {
+      const conversationIds = this.db
+        .select({ id: conversations.id })
+        .from(conversations)
+        .where(or(eq(conversations.participant1Id, userId), eq(conversations.participant2Id, userId)));
+
+      const found = await this.db
+        .select()
+        .from(messages)
+        .where(and(
+          inArray(messages.conversationId, conversationIds),
+          isNull(messages.deletedAt),
+          sql`not ${deletedFor(userId)}`,
+          filters.conversationId !== undefined ? eq(messages.conversationId, filters.conversationId) : undefined,
+          filters.senderId ? eq(messages.senderId, filters.senderId) : undefined,
+          filters.hasFile ? isNotNull(messages.fileUrl) : undefined,
+          filters.from ? gte(messages.createdAt, filters.from) : undefined,
+          filters.to ? lte(messages.createdAt, filters.to) : undefined,
+          matchesTerms(messages.content, messages.fileName, filters.terms)
+        ))
+        .orderBy(desc(messages.createdAt))
+        .limit(limit);
+
+      (await this.withSenders(found)).forEach(message => results.push({
+        conversationId: message.conversationId,
+        groupId: null,
+        message,
+        ...messageSnippet(message, filters.terms),
+      }));
+    }
+
+    if (filters.conversationId === undefined) {
+      const groupIds = this.db
+        .select({ id: groupMembers.groupId })
+        .from(groupMembers)
+        .innerJoin(groupChats, eq(groupMembers.groupId, groupChats.id))
+        .where(and(eq(groupMembers.userId, userId), eq(groupChats.isActive, true)));
+
+      const found = await this.db
+        .select()
+        .from(groupMessages)
+        .where(and(
+          inArray(groupMessages.groupId, groupIds),
+          filters.groupId !== undefined ? eq(groupMessages.groupId, filters.groupId) : undefined,
+          filters.senderId ? eq(groupMessages.senderId, filters.senderId) : undefined,
+          filters.hasFile ? isNotNull(groupMessages.fileUrl) : undefined,
+          filters.from ? gte(groupMessages.createdAt, filters.from) : undefined,
+          filters.to ? lte(groupMessages.createdAt, filters.to) : undefined,
+          matchesTerms(groupMessages.content, groupMessages.fileName, filters.terms)
+        ))
+        .orderBy(desc(groupMessages.createdAt))
+        .limit(limit);
+
+      (await this.groupWithSenders(found)).forEach(message => results.push({
+        conversationId: null,
+        groupId: message.groupId,
+        message,
+        ...messageSnippet(message, filters.terms),
+      }));
+    }
+
+    return results
+      .sort((a, b) => (b.message.createdAt?.getTime() || 0) - (a.message.createdAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  async createUpload(uploadData: Omit<Upload, "createdAt">): Promise<Upload> {
+    const [upload] = await this.db.insert(uploads).values(uploadData).returning();
+    return upload;
+  }
+
+  async getUploadByUrl(url: string): Promise<Upload | undefined> {
+    const [upload] = await this.db.select().from(uploads).where(eq(uploads.url, url));
+    return upload;
+  }
+
+  async createUploadSession(sessionData: Omit<UploadSession, "createdAt" | "receivedParts">): Promise<UploadSession> {
+    const [session] = await this.db
+      .insert(uploadSessions)
+      .values({ ...sessionData, receivedParts: [] })
+      .returning();
+    return session;
+  }
+
+  async getUploadSession(sessionId: string): Promise<UploadSession | undefined> {
+    const [session] = await this.db.select().from(uploadSessions).where(eq(uploadSessions.id, sessionId));
+    return session;
+  }
+
+  async markUploadPartReceived(sessionId: string, partIndex: number): Promise<UploadSession | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [session] = await tx
+        .select()
+        .from(uploadSessions)
+        .where(eq(uploadSessions.id, sessionId))
+        .for("update");
+      if (!session || session.receivedParts.includes(partIndex)) return session;
+
+      const [updated] = await tx
+        .update(uploadSessions)
+        .set({ receivedParts: [...session.receivedParts, partIndex].sort((a, b) => a - b) })
+        .where(eq(uploadSessions.id, sessionId))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteUploadSession(sessionId: string): Promise<void> {
+    await this.db.delete(uploadSessions).where(eq(uploadSessions.id, sessionId));
+  }
+
+  async appendUserEvent(userId: string, type: string, data: any): Promise<UserEvent> {
+    return this.db.transaction(async (tx) => {
+      // Appends for the same user take turns, so seqs have no gaps or repeats
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${userId}::text))`);
+
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${userEvents.seq}), 0)` })
+        .from(userEvents)
+        .where(eq(userEvents.userId, userId));
+
+      const [event] = await tx
+        .insert(userEvents)
+        .values({ userId, seq: Number(latest) + 1, type, data, createdAt: new Date() })
+        .returning();
+
+      await tx
+        .delete(userEvents)
+        .where(and(eq(userEvents.userId, userId), lte(userEvents.seq, event.seq - MAX_USER_EVENTS)));
+
+      return toUserEvent(event);
+    });
+  }
+
+  async getUserEvents(userId: string, since?: number, limit = DEFAULT_EVENT_PAGE_SIZE): Promise<UserEventPage> {
+    const [bounds] = await this.db
+      .select({
+        latest: sql<number | null>`max(${userEvents.seq})`,
+        oldest: sql<number | null>`min(${userEvents.seq})`,
+      })
+      .from(userEvents)
+      .where(eq(userEvents.userId, userId));
+
+    const latestSeq = Number(bounds?.latest) || 0;
+    const oldestSeq = bounds?.oldest != null ? Number(bounds.oldest) : latestSeq + 1;
+
+    const missed = since === undefined ? [] : await this.db
+      .select()
+      .from(userEvents)
+      .where(and(eq(userEvents.userId, userId), sql`${userEvents.seq} > ${since}`))
+      .orderBy(asc(userEvents.seq))
+      .limit(limit + 1);
+
+    return toUserEventPage(since, latestSeq, oldestSeq, missed.map(toUserEvent), limit);
+  }
+
+  async *exportRecords(): AsyncGenerator<ArchiveRecord> {
+    const userRows = this.inBatches<{ user: User; passwordHash: string | null }>(after => this.db
+      .select({ user: users, passwordHash: userCredentials.passwordHash })
+      .from(users)
+      .leftJoin(userCredentials, eq(userCredentials.userId, users.id))
+      .where(after ? gt(users.id, after.user.id) : undefined)
+      .orderBy(asc(users.id))
+      .limit(EXPORT_BATCH_SIZE));
+    for await (const { user, passwordHash } of userRows) {
+      yield { kind: "user", record: user, passwordHash };
+    }
+
+    const uploadRows = this.inBatches<Upload>(after => this.db
+      .select().from(uploads)
+      .where(after ? gt(uploads.id, after.id) : undefined)
+      .orderBy(asc(uploads.id))
+      .limit(EXPORT_BATCH_SIZE));
+    for await (const upload of uploadRows) {
+      yield { kind: "upload", record: upload };
+    }
+
+    const conversationRows = this.inBatches<Conversation>(after => this.db
+      .select().from(conversations)
+      .where(after ? gt(conversations.id, after.id) : undefined)
+      .orderBy(asc(conversations.id))
+      .limit(EXPORT_BATCH_SIZE));
+    for await (const conversation of conversationRows) {
+      yield { kind: "conversation", record: conversation };
+    }
+
+    const messageRows = this.inBatches<Message>(after => this.db
+      .select().from(messages)
+      .where(after ? gt(messages.id, after.id) : undefined)
+      .orderBy(asc(messages.id))
+      .limit(EXPORT_BATCH_SIZE));
+    for await (const message of messageRows) {
+      yield { kind: "message", record: message };
+    }
+
+    const groupRows = this.inBatches<GroupChat>(after => this.db
+      .select().from(groupChats)
+      .where(after ? gt(groupChats.id, after.id) : undefined)
+      .orderBy(asc(groupChats.id))
+      .limit(EXPORT_BATCH_SIZE));
+    for await (const group of groupRows) {
+      yield { kind: "group", record: group };
+    }
+
+    const memberRows = this.inBatches<GroupMember>(after => this.db
+      .select().from(groupMembers)
+      .where(after ? gt(groupMembers.id, after.id) : undefined)
+      .orderBy(asc(groupMembers.id))
+      .limit(EXPORT_BATCH_SIZE));
+    for await (const member of memberRows) {
+      yield { kind: "groupMember", record: member };
+    }
+
+    const groupMessageRows = this.inBatches<GroupMessage>(after => this.db
+      .select().from(groupMessages)
+      .where(after ? gt(groupMessages.id, after.id) : undefined)
+      .orderBy(asc(groupMessages.id))
+      .limit(EXPORT_BATCH_SIZE));
+    for await (const message of groupMessageRows) {
+      yield { kind: "groupMessage", record: message };
+    }
+  }
+
+  async importRecord(archived: ArchiveRecord): Promise<number | undefined> {
+    switch (archived.kind) {
+      case "user":
+        await this.db
+          .insert(users)
+          .values(archived.record)
+          .onConflictDoUpdate({ target: users.id, set: archived.record });
+        if (archived.passwordHash) {
+          await this.setUserPassword(archived.record.id, archived.passwordHash);
+        }
+        return undefined;
+      case "upload":
+        await this.db
+          .insert(uploads)
+          .values(archived.record)
+          .onConflictDoUpdate({ target: uploads.id, set: archived.record });
+        return undefined;
+      case "conversation": {
+        const { id, ...conversation } = archived.record;
+        const [row] = await this.db.insert(conversations).values(conversation).returning({ id: conversations.id });
+        return row.id;
+      }
+      case "message": {
+        const { id, ...message } = archived.record;
+        const [row] = await this.db.insert(messages).values(message).returning({ id: messages.id });
+        return row.id;
+      }
+      case "group": {
+        const { id, ...group } = archived.record;
+        const [row] = await this.db.insert(groupChats).values(group).returning({ id: groupChats.id });
+        return row.id;
+      }
+      case "groupMember": {
+        const { id, ...member } = archived.record;
+        const [row] = await this.db.insert(groupMembers).values(member).returning({ id: groupMembers.id });
+        return row.id;
+      }
+      case "groupMessage": {
+        const { id, ...message } = archived.record;
+        const [row] = await this.db.insert(groupMessages).values(message).returning({ id: groupMessages.id });
+        return row.id;
+      }
+    }
+  }
+
+  /**
+   * Read a table a batch at a time, in key order
+   * @param fetch - Loads the rows after the given one, or the first rows if none
+   */
+  private async *inBatches<T>(fetch: (after: T | undefined) => Promise<T[]>): AsyncGenerator<T> {
+    let after: T | undefined;
+    for (;;) {
+      const rows = await fetch(after);
+      for (const row of rows) {
+        yield row;
+      }
+      if (rows.length < EXPORT_BATCH_SIZE) return;
+      after = rows[rows.length - 1];
+    }
+  }
+
+  private async usersById(ids: string[]): Promise<Map<string, User>> {
+    const unique = Array.from(new Set(ids));
+    const found = unique.length > 0
+      ? await this.db.select().from(users).where(inArray(users.id, unique))
+      : [];
+    return new Map(found.map(user => [user.id, user] as [string, User]));
+  }
+
+  private async withSenders(rows: Message[]): Promise<MessageWithSender[]> {
+    const replyIds = Array.from(new Set(rows.map(row => row.replyToId).filter((id): id is number => !!id)));
+    const replies = replyIds.length > 0
+      ? await this.db.select().from(messages).where(inArray(messages.id, replyIds))
+      : [];
+    const repliesById = new Map(replies.map(reply => [reply.id, reply] as [number, Message]));
+    const senders = await this.usersById([...rows, ...replies].map(message => message.senderId));
+
+    return rows.map(message => {
+      const replyTo = message.replyToId ? repliesById.get(message.replyToId) : undefined;
+      return {
+        ...message,
+        sender: senders.get(message.senderId) || {} as User,
+        replyTo: replyTo
+          ? { ...replyTo, sender: senders.get(replyTo.senderId) || {} as User }
+          : null,
+      };
+    });
+  }
+
+  private async groupWithSenders(rows: GroupMessage[]): Promise<GroupMessageWithSender[]> {
+    const senders = await this.usersById(rows.map(message => message.senderId));
+    return rows.map(message => ({
+      ...message,
+      sender: senders.get(message.senderId) || {} as User,
+    }));
+  }
+
+  private async updateReactions(messageId: number, userId: string, emoji: string, action: "add" | "remove") {
+    await this.db.transaction(async (tx) => {
+      const [message] = await tx.select().from(messages).where(eq(messages.id, messageId)).for("update");
+      if (!message) return;
+
+      await tx
+        .update(messages)
+        .set({ reactions: applyReaction(message.reactions, userId, emoji, action) })
+        .where(eq(messages.id, messageId));
+    });
+  }
+
+  /**
+   * Add users to a group as members, skipping those already in it
+   */
+  // The foreign keys would refuse them too, but without saying which users
+  private async assertUsersExist(tx: Executor, userIds: string[]): Promise<void> {
+    const ids = Array.from(new Set(userIds));
+    if (ids.length === 0) return;
+
+    const found = await tx.select({ id: users.id }).from(users).where(inArray(users.id, ids));
+    const foundIds = new Set(found.map(user => user.id));
+    const unknownIds = ids.filter(id => !foundIds.has(id));
+    if (unknownIds.length > 0) {
+      throw new UnknownUserError(unknownIds);
+    }
+  }
+
+  private async insertMembers(tx: Executor, groupId: number, userIds: string[]): Promise<GroupMember[]> {
+    await this.assertUsersExist(tx, userIds);
+
+    const existing = await tx
+      .select({ userId: groupMembers.userId })
+      .from(groupMembers)
+      .where(eq(groupMembers.groupId, groupId));
+    const existingIds = new Set(existing.map(member => member.userId));
+
+    // Prevents duplicates
+    const newIds = userIds.filter((userId, i) => !existingIds.has(userId) && userIds.indexOf(userId) === i);
+    if (newIds.length === 0) return [];
+
+    const added = await tx
+      .insert(groupMembers)
+      .values(newIds.map(userId => ({ groupId, userId, role: "member" })))
+      .returning();
+
+    await tx
+      .update(groupChats)
+      .set({ updatedAt: new Date() })
+      .where(eq(groupChats.id, groupId));
+
+    return added;
+  }
+}
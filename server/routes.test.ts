@@ -0,0 +1,211 @@
+import { randomBytes } from "crypto";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server as HttpServer } from "http";
+import express from "express";
+import cookieParser from "cookie-parser";
+import { Server as SocketIOServer } from "socket.io";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+/**
+ * HTTP routes, served from memory storage on a random port
+ */
+
+let server: HttpServer;
+let io: SocketIOServer;
+let baseUrl: string;
+let uploadDir: string;
+
+interface Session {
+  id: string;
+  cookie: string;
+}
+
+async function request(session: Session | null, method: string, url: string, body?: unknown | FormData) {
+  const headers: Record<string, string> = {};
+  if (session) headers.cookie = session.cookie;
+  if (body !== undefined && !(body instanceof FormData)) headers["content-type"] = "application/json";
+
+  const res = await fetch(baseUrl + url, {
+    method,
+    headers,
+    body: body instanceof FormData ? body : body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, headers: res.headers, body: await res.json().catch(() => undefined) };
+}
+
+async function signUp(name: string): Promise<Session> {
+  const res = await fetch(`${baseUrl}/api/auth/signup`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      email: `${name}-${randomBytes(4).toString("hex")}@example.com`,
+      password: "Password123!",
+      firstName: name,
+      lastName: "Test",
+    }),
+  });
+  expect(res.status).toBe(201);
+
+  const cookie = res.headers.getSetCookie().map((header) => header.split(";")[0]).join("; ");
+  return { id: (await res.json()).user.id, cookie };
+}
+
+async function uploadText(session: Session, fileName: string, text: string) {
+  const form = new FormData();
+  form.append("file", new Blob([text], { type: "text/plain" }), fileName);
+
+  const res = await request(session, "POST", "/api/uploads", form);
+  expect(res.status).toBe(201);
+  return res.body as { url: string; fileName: string; fileSize: number };
+}
+
+beforeAll(async () => {
+  uploadDir = await mkdtemp(path.join(os.tmpdir(), "routes-test-"));
+  process.env.UPLOAD_DIR = uploadDir;
+  process.env.UPLOAD_TMP_DIR = path.join(uploadDir, "parts");
+  process.env.JWT_ACCESS_SECRET = randomBytes(32).toString("hex");
+  process.env.JWT_REFRESH_SECRET = randomBytes(32).toString("hex");
+
+  // Configuration is read when the modules load, so they load after the env is set
+  const { registerRoutes } = await import("./routes");
+
+  const app = express();
+  app.use(express.json());
+  app.use(cookieParser());
+  server = (await import("http")).createServer(app);
+  io = new SocketIOServer(server);
+  await registerRoutes(app, io);
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  io?.close();
+  await new Promise((resolve) => server?.close(resolve));
+  await rm(uploadDir, { recursive: true, force: true });
+});
+
+describe("message attachments", () => {
+  let ann: Session;
+  let bob: Session;
+  let conversationId: number;
+  let groupId: number;
+
+  beforeAll(async () => {
+    ann = await signUp("Ann");
+    bob = await signUp("Bob");
+    conversationId = (await request(ann, "POST", "/api/conversations", { participant2Id: bob.id })).body.id;
+    groupId = (await request(ann, "POST", "/api/groups", { name: "Team", memberIds: [bob.id] })).body.id;
+  });
+
+  const messageUrls = () => [
+    `/api/conversations/${conversationId}/messages`,
+    `/api/groups/${groupId}/messages`,
+  ];
+
+  it("takes file details from the sender's upload", async () => {
+    const upload = await uploadText(ann, "notes.txt", "hello");
+
+    for (const url of messageUrls()) {
+      const res = await request(ann, "POST", url, {
+        content: "notes",
+        messageType: "file",
+        fileUrl: upload.url,
+        fileName: "invoice.pdf",
+        fileSize: 999999,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ fileUrl: upload.url, fileName: "notes.txt", fileSize: upload.fileSize });
+    }
+  });
+
+  it("rejects another user's upload", async () => {
+    const upload = await uploadText(bob, "secret.txt", "bob's");
+
+    for (const url of messageUrls()) {
+      const res = await request(ann, "POST", url, { content: "look", messageType: "file", fileUrl: upload.url });
+      expect(res.status).toBe(400);
+    }
+  });
+
+  it("rejects URLs that aren't uploads", async () => {
+    for (const fileUrl of ["javascript:alert(document.cookie)", "https://example.com/file.pdf"]) {
+      for (const url of messageUrls()) {
+        const res = await request(ann, "POST", url, { content: "click", messageType: "file", fileUrl, fileName: "a.pdf" });
+        expect(res.status).toBe(400);
+      }
+    }
+  });
+
+  it("ignores file details sent without a file", async () => {
+    const res = await request(ann, "POST", messageUrls()[0], { content: "hi", fileName: "fake.exe", fileSize: 10 });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ fileUrl: null, fileName: null, fileSize: null });
+  });
+});
+
+describe("uploads", () => {
+  let ann: Session;
+
+  beforeAll(async () => {
+    ann = await signUp("Ann");
+  });
+
+  it("names stored files by their checked type, not the client's name", async () => {
+    const upload = await uploadText(ann, "page.xsd", "<xsl:stylesheet/>");
+
+    expect(upload.url).toMatch(/^\/uploads\/[\w-]+\.txt$/);
+    expect(upload.fileName).toBe("page.xsd");
+  });
+
+  it("refuses files a browser would render", async () => {
+    for (const [fileName, type] of [["page.html", "text/html"], ["image.svg", "image/svg+xml"], ["page.txt.html", "text/plain"]]) {
+      const form = new FormData();
+      form.append("file", new Blob(["<script>alert(1)</script>"], { type }), fileName);
+
+      expect((await request(ann, "POST", "/api/uploads", form)).status).toBe(415);
+    }
+  });
+
+  it("serves uploads as downloads", async () => {
+    const upload = await uploadText(ann, "notes.txt", "<script>alert(1)</script>");
+    const res = await fetch(baseUrl + upload.url);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-disposition")).toBe("attachment");
+    expect(res.headers.get("x-content-type-options")).toBe("nosniff");
+    expect(res.headers.get("content-type")).toMatch(/^text\/plain/);
+    expect(await res.text()).toBe("<script>alert(1)</script>");
+  });
+
+  it("doesn't serve files outside the upload directory", async () => {
+    const res = await fetch(`${baseUrl}/uploads/..%2f..%2fpackage.json`);
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("upload sessions", () => {
+  let ann: Session;
+
+  beforeAll(async () => {
+    ann = await signUp("Ann");
+  });
+
+  it("holds images to the lower image limit", async () => {
+    const fileSize = 60 * 1024 * 1024;
+
+    const image = await request(ann, "POST", "/api/uploads/sessions", { fileName: "big.png", fileSize, mimeType: "image/png" });
+    expect(image.status).toBe(413);
+    expect(image.body.maxFileSize).toBe(50 * 1024 * 1024);
+
+    const archive = await request(ann, "POST", "/api/uploads/sessions", { fileName: "big.zip", fileSize, mimeType: "application/zip" });
+    expect(archive.status).toBe(201);
+  });
+});
@@ -1,50 +1,172 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server as HttpServer } from "http";
 import { Server as SocketIOServer, Socket } from "socket.io";
-import { storage } from "./memStorage";
-import { setupAuth } from "./noAuth";
-import { insertMessageSchema, insertConversationSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { setupAuth, setupSocketAuth, isAuthenticated } from "./jwtAuth";
+import {
+  insertMessageSchema,
+  insertConversationSchema,
+  insertGroupChatSchema,
+  insertGroupMessageSchema,
+  voiceDetailsSchema,
+  MAX_MESSAGE_LENGTH,
+  type Conversation,
+  type GroupMemberWithUser,
+  type GroupMessage,
+  type GroupChat,
+  type LinkPreview,
+  type MediaInfo,
+  type Message,
+  type Upload,
+  type UploadSession,
+  type User,
+} from "@shared/schema";
+import { findPreviewLink } from "@shared/markdown";
+import {
+  requireConversationParticipant,
+  requireGroupMember,
+  requireGroupAdmin,
+  requireMessageAccess,
+  canAccessConversation,
+  canAccessGroup,
+  isConversationParticipant,
+} from "./middleware/authorize";
+import { upload, handleMulterError, sendFileTooLarge } from "./middleware/upload";
+import { isTypeAllowed, uploadPolicy } from "./config/uploadPolicy";
+import { blobStore, LOCAL_UPLOAD_DIR, LOCAL_UPLOAD_URL_PATH } from "./blobStore";
+import { processMedia, processMediaFile } from "./utils/media";
+import { contentMatchesType } from "./utils/fileType";
+import { assembleUploadParts, discardUploadParts, readUploadHead, writeUploadPart } from "./utils/uploadParts";
+import { validateGroupName } from "./utils/validators";
+import { parsePageQuery, toPageResponse } from "./utils/cursor";
+import { parseSearchQuery } from "./utils/search";
+import { unfurl } from "./utils/unfurl";
+import {
+  parseTranscriptFormat,
+  transcriptContentType,
+  transcriptFileName,
+  writeTranscript,
+} from "./utils/transcript";
 import { z } from "zod";
+import { nanoid } from "nanoid";
+import path from "path";
+
+// Every live socket per user, so several tabs or devices can be connected at
+// once. A user is online while at least one of their sockets is connected.
+const connectedClients = new Map<string, Set<Socket>>();
+
+// How long a client has to acknowledge a message before it counts as undelivered
+const DELIVERY_ACK_TIMEOUT_MS = 10 * 1000;
+
+// Shared by GET /api/sync and the 'sync' socket call
+const syncParamsSchema = z.object({
+  since: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+// Chunked uploads left unfinished this long are discarded
+const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How many bytes of an upload are checked against its declared type
+const CONTENT_SNIFF_BYTES = 8192;
+
+const uploadSessionSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  fileSize: z.number().int().positive(),
+  mimeType: z.string().min(1).max(255),
+  groupId: z.number().int().optional(),
+});
+
+/**
+ * Read the waveform and duration sent along with an audio upload
+ * @returns The details, or null when they are malformed
+ */
+function parseVoiceDetails(body: any): z.infer<typeof voiceDetailsSchema> | null {
+  try {
+    return voiceDetailsSchema.parse({
+      duration: body?.duration || undefined,
+      waveform: body?.waveform ? JSON.parse(body.waveform) : undefined,
+    });
+  } catch (error) {
+    return null;
+  }
+}
 
-interface SocketClient {
-  socket: Socket;
-  userId: string;
+function addClientSocket(userId: string, socket: Socket) {
+  const sockets = connectedClients.get(userId) || new Set<Socket>();
+  sockets.add(socket);
+  connectedClients.set(userId, sockets);
 }
 
-const connectedClients = new Map<string, SocketClient>();
+function removeClientSocket(userId: string, socket: Socket) {
+  const sockets = connectedClients.get(userId);
+  if (!sockets) return;
 
-export async function registerRoutes(app: Express, io: SocketIOServer): Promise<HttpServer> {
-  // Auth middleware
-  await setupAuth(app);
+  sockets.delete(socket);
+  if (sockets.size === 0) {
+    connectedClients.delete(userId);
+  }
+}
 
-  // Guest user endpoint
-  app.post('/api/guest/join', async (req, res) => {
-    try {
-      const { user } = req.body;
-      if (!user || !user.id || !user.name) {
-        return res.status(400).json({ message: "Invalid user data" });
-      }
+function isUserOnline(userId: string): boolean {
+  return connectedClients.has(userId);
+}
 
-      // Store guest user
-      const guestUser = await storage.upsertUser({
-        id: user.id,
-        email: null,
-        firstName: user.name,
-        lastName: null,
-        profileImageUrl: user.avatar,
-      });
+// Socket.IO room names. Every socket joins its user room on auth, plus one
+// room per conversation and group the user belongs to. Logged events go to
+// user rooms; conversation and group rooms only carry typing indicators.
+const userRoom = (userId: string) => `user:${userId}`;
+const conversationRoom = (conversationId: number) => `conversation:${conversationId}`;
+const groupRoom = (groupId: number) => `group:${groupId}`;
+
+const conversationUserIds = (conversation: Conversation) => [conversation.participant1Id, conversation.participant2Id];
+const memberUserIds = (members: GroupMemberWithUser[]) => members.map(m => m.userId);
+
+// Groups may lower the server-wide upload limit but not raise it; images are
+// held to the lower of it and the image limit
+const uploadLimitFor = (group?: GroupChat, mimeType?: string) =>
+  Math.min(
+    uploadPolicy.maxFileSize,
+    group?.maxUploadSize || uploadPolicy.maxFileSize,
+    mimeType?.startsWith('image/') ? uploadPolicy.maxImageSize : uploadPolicy.maxFileSize
+  );
+
+// Voice messages must reference the sender's own audio upload
+const isVoiceAttachment = (attachment?: Upload) => !!attachment && attachment.media.mimeType.startsWith('audio/');
+
+// A message's file details come from its upload, whatever the client sent
+const attachmentFields = (attachment?: Upload) => ({
+  fileUrl: attachment?.url || null,
+  fileName: attachment?.fileName || null,
+  fileSize: attachment?.fileSize ?? null,
+});
+
+const uploadPartCount = (session: UploadSession) => Math.ceil(session.fileSize / session.chunkSize);
+
+// Every part is chunkSize bytes except the last, which holds the remainder
+const uploadPartSize = (session: UploadSession, index: number) =>
+  Math.min(session.chunkSize, session.fileSize - index * session.chunkSize);
+
+const uploadSessionStatus = (session: UploadSession) => ({
+  id: session.id,
+  fileName: session.fileName,
+  fileSize: session.fileSize,
+  mimeType: session.mimeType,
+  chunkSize: session.chunkSize,
+  partCount: uploadPartCount(session),
+  receivedParts: session.receivedParts,
+  expiresAt: session.expiresAt,
+});
 
-      res.json({ success: true, user: guestUser });
-    } catch (error) {
-      console.error("Error joining as guest:", error);
-      res.status(500).json({ message: "Failed to join chat" });
-    }
-  });
+export async function registerRoutes(app: Express, io: SocketIOServer): Promise<HttpServer> {
+  // Auth routes and middleware
+  await setupAuth(app);
+  setupSocketAuth(io);
 
   // User routes
-  app.get('/api/users', async (req: any, res) => {
+  app.get('/api/users', isAuthenticated, async (req: any, res) => {
     try {
-      const currentUserId = req.query.userId || req.headers['x-user-id'] || 'guest';
+      const currentUserId = req.user.userId;
       const { q } = req.query;
 
       if (q && typeof q === 'string') {
@@ -62,10 +184,10 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
     }
   });
 
-  app.get('/api/users/search', async (req: any, res) => {
+  app.get('/api/users/search', isAuthenticated, async (req: any, res) => {
     try {
       const { q } = req.query;
-      const currentUserId = req.query.userId || req.headers['x-user-id'] || 'guest';
+      const currentUserId = req.user.userId;
 
       if (!q || typeof q !== 'string') {
         return res.status(400).json({ message: "Search query is required" });
@@ -79,16 +201,308 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
     }
   });
 
-  // Conversation routes
-  app.get('/api/conversations', async (req: any, res) => {
+  // Search messages in every conversation and group the user belongs to
+  app.get('/api/search/messages', isAuthenticated, async (req: any, res) => {
+    try {
+      const params = z.object({
+        q: z.string().default(""),
+        senderId: z.string().optional(),
+        conversationId: z.coerce.number().int().optional(),
+        groupId: z.coerce.number().int().optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        limit: z.coerce.number().int().min(1).max(100).optional(),
+      }).parse(req.query);
+
+      const { terms, hasFile } = parseSearchQuery(params.q);
+      if (terms.length === 0 && !hasFile && !params.senderId && !params.from && !params.to) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+
+      const results = await storage.searchMessages(req.user.userId, {
+        terms,
+        hasFile,
+        senderId: params.senderId,
+        conversationId: params.conversationId,
+        groupId: params.groupId,
+        from: params.from,
+        to: params.to,
+        limit: params.limit,
+      });
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search parameters", errors: error.errors });
+      }
+      console.error("Error searching messages:", error);
+      res.status(500).json({ message: "Failed to search messages" });
+    }
+  });
+
+  // Events missed since ?since=, for clients that were disconnected
+  app.get('/api/sync', isAuthenticated, async (req: any, res) => {
+    try {
+      const params = syncParamsSchema.parse(req.query);
+
+      res.json(await storage.getUserEvents(req.user.userId, params.since, params.limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sync parameters", errors: error.errors });
+      }
+      console.error("Error syncing events:", error);
+      res.status(500).json({ message: "Failed to sync events" });
+    }
+  });
+
+  // Types and size the client may upload, for ?groupId= if given
+  app.get('/api/uploads/policy', isAuthenticated, async (req: any, res) => {
+    try {
+      let group: GroupChat | undefined;
+      if (req.query.groupId !== undefined) {
+        const groupId = parseInt(req.query.groupId);
+        if (isNaN(groupId) || !(await canAccessGroup(req.user.userId, groupId))) {
+          return res.status(403).json({ message: "You are not a member of this group" });
+        }
+        group = await storage.getGroup(groupId);
+      }
+
+      res.json({
+        allowedTypes: uploadPolicy.allowedTypes,
+        deniedTypes: uploadPolicy.deniedTypes,
+        deniedExtensions: uploadPolicy.deniedExtensions,
+        maxFileSize: uploadLimitFor(group),
+        maxImageSize: uploadLimitFor(group, 'image/*'),
+        maxDirectUploadSize: uploadPolicy.maxDirectUploadSize,
+        chunkSize: uploadPolicy.chunkSize,
+      });
+    } catch (error) {
+      console.error("Error fetching upload policy:", error);
+      res.status(500).json({ message: "Failed to fetch upload policy" });
+    }
+  });
+
+  // Files are uploaded first; messages then reference the returned URL in fileUrl.
+  // Refused types get 415 and files over the limit 413.
+  app.post('/api/uploads', isAuthenticated, upload.single('file'), handleMulterError, async (req: any, res: any) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "File is required" });
+      }
+
+      const { originalname, mimetype, size } = req.file;
+
+      // Uploads for a group are held to its own limit
+      let group: GroupChat | undefined;
+      if (req.query.groupId !== undefined) {
+        const groupId = parseInt(req.query.groupId);
+        if (isNaN(groupId) || !(await canAccessGroup(req.user.userId, groupId))) {
+          return res.status(403).json({ message: "You are not a member of this group" });
+        }
+        group = await storage.getGroup(groupId);
+      }
+
+      const maxFileSize = uploadLimitFor(group, mimetype);
+      if (size > maxFileSize) {
+        return sendFileTooLarge(res, maxFileSize);
+      }
+
+      // The declared type must agree with what the bytes actually are
+      if (!contentMatchesType(req.file.buffer, mimetype)) {
+        return res.status(415).json({ message: "File content does not match its type" });
+      }
+
+      // Voice recordings come with a waveform the server can't compute itself
+      const voice = mimetype.startsWith('audio/') ? parseVoiceDetails(req.body) : {};
+      if (!voice) {
+        return res.status(400).json({ message: "Invalid voice details" });
+      }
+
+      const processed = await processMedia(req.file.buffer, mimetype);
+      if (!processed) {
+        return res.status(400).json({ message: "Could not read image" });
+      }
+
+      const media = {
+        ...processed.media,
+        duration: processed.media.duration ?? voice.duration,
+        waveform: voice.waveform,
+      };
+      const blob = await blobStore.put(processed.data, originalname, mimetype);
+      const stored = await saveUpload(req.user.userId, originalname, processed.data.length, blob, { ...processed, media });
+
+      res.status(201).json(uploadResponse(stored));
+    } catch (error) {
+      console.error("Error uploading file:", error);
+      res.status(500).json({ message: "Failed to upload file" });
+    }
+  });
+
+  // Files over maxDirectUploadSize are sent in parts through an upload session,
+  // which can be resumed from its received parts after a dropped connection
+  app.post('/api/uploads/sessions', isAuthenticated, async (req: any, res) => {
     try {
-      // Get user ID from query parameter or header
-      const userId = req.query.userId || req.headers['x-user-id'];
+      const userId = req.user.userId;
+      const validatedData = uploadSessionSchema.parse(req.body);
+
+      if (!isTypeAllowed(validatedData.mimeType, path.extname(validatedData.fileName).slice(1))) {
+        return res.status(415).json({ message: "File type not allowed" });
+      }
+
+      let group: GroupChat | undefined;
+      if (validatedData.groupId !== undefined) {
+        if (!(await canAccessGroup(userId, validatedData.groupId))) {
+          return res.status(403).json({ message: "You are not a member of this group" });
+        }
+        group = await storage.getGroup(validatedData.groupId);
+      }
+
+      const maxFileSize = uploadLimitFor(group, validatedData.mimeType);
+      if (validatedData.fileSize > maxFileSize) {
+        return sendFileTooLarge(res, maxFileSize);
+      }
 
-      if (!userId || typeof userId !== 'string') {
-        return res.status(400).json({ message: "User ID is required" });
+      const session = await storage.createUploadSession({
+        id: nanoid(),
+        ownerId: userId,
+        fileName: validatedData.fileName,
+        fileSize: validatedData.fileSize,
+        mimeType: validatedData.mimeType,
+        groupId: validatedData.groupId ?? null,
+        chunkSize: uploadPolicy.chunkSize,
+        expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS),
+      });
+
+      res.status(201).json(uploadSessionStatus(session));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid upload data", errors: error.errors });
+      }
+      console.error("Error creating upload session:", error);
+      res.status(500).json({ message: "Failed to create upload session" });
+    }
+  });
+
+  // Which parts have arrived, so an interrupted upload knows where to resume
+  app.get('/api/uploads/sessions/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const session = await findOwnUploadSession(req.user.userId, req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Upload session not found" });
+      }
+
+      res.json(uploadSessionStatus(session));
+    } catch (error) {
+      console.error("Error fetching upload session:", error);
+      res.status(500).json({ message: "Failed to fetch upload session" });
+    }
+  });
+
+  // Parts may arrive in any order, and sending one again replaces it
+  app.put(
+    '/api/uploads/sessions/:id/parts/:index',
+    isAuthenticated,
+    express.raw({ type: () => true, limit: uploadPolicy.chunkSize }),
+    async (req: any, res: any) => {
+      try {
+        const session = await findOwnUploadSession(req.user.userId, req.params.id);
+        if (!session) {
+          return res.status(404).json({ message: "Upload session not found" });
+        }
+
+        const index = parseInt(req.params.index);
+        if (isNaN(index) || index < 0 || index >= uploadPartCount(session)) {
+          return res.status(400).json({ message: "Invalid part index" });
+        }
+
+        const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const expectedSize = uploadPartSize(session, index);
+        if (data.length !== expectedSize) {
+          return res.status(400).json({ message: "Invalid part size", expectedSize });
+        }
+
+        await writeUploadPart(session.id, index, data);
+        const updated = await storage.markUploadPartReceived(session.id, index);
+
+        res.json(uploadSessionStatus(updated ?? session));
+      } catch (error) {
+        console.error("Error uploading part:", error);
+        res.status(500).json({ message: "Failed to upload part" });
+      }
+    }
+  );
+
+  // Joins the parts and stores the file just like a direct upload
+  app.post('/api/uploads/sessions/:id/complete', isAuthenticated, async (req: any, res) => {
+    try {
+      const session = await findOwnUploadSession(req.user.userId, req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Upload session not found" });
+      }
+
+      const partCount = uploadPartCount(session);
+      if (session.receivedParts.length !== partCount) {
+        return res.status(400).json({ message: "Upload is missing parts", ...uploadSessionStatus(session) });
+      }
+
+      if (!contentMatchesType(await readUploadHead(session.id, CONTENT_SNIFF_BYTES), session.mimeType)) {
+        await discardUploadSession(session.id);
+        return res.status(415).json({ message: "File content does not match its type" });
+      }
+
+      const filePath = await assembleUploadParts(session.id, partCount);
+      const processed = await processMediaFile(filePath, session.mimeType);
+      if (!processed) {
+        await discardUploadSession(session.id);
+        return res.status(400).json({ message: "Could not read image" });
+      }
+
+      const blob = processed.data
+        ? await blobStore.put(processed.data, session.fileName, session.mimeType)
+        : await blobStore.putFile(filePath, session.fileName, session.mimeType);
+      const fileSize = processed.data ? processed.data.length : session.fileSize;
+      const stored = await saveUpload(session.ownerId, session.fileName, fileSize, blob, processed);
+
+      await discardUploadSession(session.id);
+      res.status(201).json(uploadResponse(stored));
+    } catch (error) {
+      console.error("Error completing upload:", error);
+      res.status(500).json({ message: "Failed to complete upload" });
+    }
+  });
+
+  app.delete('/api/uploads/sessions/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const session = await findOwnUploadSession(req.user.userId, req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Upload session not found" });
       }
 
+      await discardUploadSession(session.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error aborting upload:", error);
+      res.status(500).json({ message: "Failed to abort upload" });
+    }
+  });
+
+  // Files kept by the local-disk blob store; names are random, so knowing the URL grants access.
+  // They are served from our own origin, so opening one downloads it rather than rendering it;
+  // images and media still display inline where the app embeds them.
+  app.use(LOCAL_UPLOAD_URL_PATH, express.static(LOCAL_UPLOAD_DIR, {
+    setHeaders: (res) => {
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Content-Disposition', 'attachment');
+    },
+  }));
+  app.use(LOCAL_UPLOAD_URL_PATH, (_req, res) => {
+    res.status(404).json({ message: "File not found" });
+  });
+
+  // Conversation routes
+  app.get('/api/conversations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
       const conversations = await storage.getConversations(userId);
       res.json(conversations);
     } catch (error) {
@@ -97,22 +511,27 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
     }
   });
 
-  app.post('/api/conversations', async (req: any, res) => {
+  app.post('/api/conversations', isAuthenticated, async (req: any, res) => {
     try {
-      // Get user ID from body or header
-      const userId = req.body.participant1Id || req.headers['x-user-id'];
+      const userId = req.user.userId;
 
-      if (!userId || typeof userId !== 'string') {
-        return res.status(400).json({ message: "User ID is required" });
-      }
+      const validatedData = insertConversationSchema.parse({
+        ...req.body,
+        participant1Id: userId,
+      });
 
-      const validatedData = insertConversationSchema.parse(req.body);
+      if (validatedData.participant2Id === userId || !(await storage.getUser(validatedData.participant2Id))) {
+        return res.status(400).json({ message: "Invalid conversation participant" });
+      }
 
       const conversation = await storage.getOrCreateConversation(
         userId,
         validatedData.participant2Id
       );
 
+      // Subscribe both participants' sockets to the new conversation
+      joinRoom([conversation.participant1Id, conversation.participant2Id], conversationRoom(conversation.id));
+
       res.json(conversation);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -123,36 +542,69 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
     }
   });
 
+  // Download the conversation's history; streamed, since it may be long
+  app.get('/api/conversations/:id/export', isAuthenticated, requireConversationParticipant, async (req: any, res) => {
+    const format = parseTranscriptFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({ message: "Invalid export format" });
+    }
+
+    try {
+      const conversation: Conversation = req.conversation;
+      const participants = await Promise.all(
+        [conversation.participant1Id, conversation.participant2Id].map((id) => storage.getUser(id))
+      );
+      const context = {
+        conversation,
+        participants: participants.filter((user): user is User => !!user),
+        viewerId: req.user.userId,
+        exportedAt: new Date(),
+      };
+
+      res.setHeader("Content-Type", transcriptContentType(format));
+      res.setHeader("Content-Disposition", `attachment; filename="${transcriptFileName(context, format)}"`);
+      res.setHeader("Cache-Control", "no-store");
+
+      await writeTranscript(storage, res, format, context);
+      res.end();
+    } catch (error) {
+      console.error("Error exporting conversation:", error);
+      if (res.headersSent) {
+        // Part of the file is already on its way; cut it off so it isn't mistaken for a whole one
+        res.destroy();
+      } else {
+        res.status(500).json({ message: "Failed to export conversation" });
+      }
+    }
+  });
+
   // Message routes
-  app.get('/api/conversations/:id/messages', async (req: any, res) => {
+  app.get('/api/conversations/:id/messages', isAuthenticated, requireConversationParticipant, async (req: any, res) => {
     try {
-      const conversationId = parseInt(req.params.id);
-      if (isNaN(conversationId)) {
-        return res.status(400).json({ message: "Invalid conversation ID" });
+      const options = parsePageQuery(req.query);
+      if (!options) {
+        return res.status(400).json({ message: "Invalid pagination parameters" });
       }
 
-      const messages = await storage.getMessages(conversationId);
-      res.json(messages);
+      const page = await storage.getMessages(req.conversation.id, {
+        ...options,
+        viewerId: req.user.userId,
+      });
+
+      // Messages fetched by a recipient have reached their device
+      await Promise.all(page.messages.map((message) => deliverMessage(message, req.user.userId)));
+
+      res.json(toPageResponse(page));
     } catch (error) {
       console.error("Error fetching messages:", error);
       res.status(500).json({ message: "Failed to fetch messages" });
     }
   });
 
-  app.post('/api/conversations/:id/messages', async (req: any, res) => {
+  app.post('/api/conversations/:id/messages', isAuthenticated, requireConversationParticipant, async (req: any, res) => {
     try {
-      const conversationId = parseInt(req.params.id);
-
-      if (isNaN(conversationId)) {
-        return res.status(400).json({ message: "Invalid conversation ID" });
-      }
-
-      // Get user ID from body or header
-      const userId = req.body.senderId || req.headers['x-user-id'];
-
-      if (!userId || typeof userId !== 'string') {
-        return res.status(400).json({ message: "User ID is required" });
-      }
+      const conversationId = req.conversation.id;
+      const userId = req.user.userId;
 
       const validatedData = insertMessageSchema.parse({
         ...req.body,
@@ -160,10 +612,47 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
         senderId: userId,
       });
 
-      const message = await storage.createMessage(validatedData);
+      // A retried send returns the message stored by the first attempt
+      if (validatedData.clientMessageId) {
+        const existing = await storage.getMessageByClientId(userId, validatedData.clientMessageId);
+        if (existing) {
+          if (existing.conversationId !== conversationId) {
+            return res.status(409).json({ message: "Client message ID already used" });
+          }
+          return res.json(existing);
+        }
+      }
+
+      // Quotes and thread replies must point into the same conversation
+      if (validatedData.replyToId) {
+        const replyTo = await storage.getMessage(validatedData.replyToId);
+        if (replyTo?.conversationId !== conversationId) {
+          return res.status(400).json({ message: "Invalid reply target" });
+        }
+      }
+
+      if (validatedData.threadRootId) {
+        const threadRoot = await storage.getMessage(validatedData.threadRootId);
+        if (!threadRoot || threadRoot.conversationId !== conversationId) {
+          return res.status(400).json({ message: "Invalid thread" });
+        }
+        // Threads are one level deep; replying inside a thread joins its root
+        validatedData.threadRootId = threadRoot.threadRootId || threadRoot.id;
+      }
+
+      const attachment = await findOwnUpload(userId, validatedData.fileUrl);
+      if (validatedData.fileUrl && !attachment) {
+        return res.status(400).json({ message: "Attachments must be your own uploads" });
+      }
+      if (validatedData.messageType === 'voice' && !isVoiceAttachment(attachment)) {
+        return res.status(400).json({ message: "Voice messages need an audio upload" });
+      }
+
+      const message = await storage.createMessage({ ...validatedData, ...attachmentFields(attachment) }, attachment?.media);
 
       // Broadcast message to connected clients
-      broadcastMessage(conversationId, message, userId);
+      await broadcastMessage(req.conversation, message);
+      attachLinkPreview(req.conversation, message);
 
       res.json(message);
     } catch (error) {
@@ -175,20 +664,13 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
     }
   });
 
-  app.patch('/api/conversations/:id/read', async (req: any, res) => {
+  app.patch('/api/conversations/:id/read', isAuthenticated, requireConversationParticipant, async (req: any, res) => {
     try {
-      const userId = req.body.userId || req.headers['x-user-id'];
-      const conversationId = parseInt(req.params.id);
-
-      if (!userId || typeof userId !== 'string') {
-        return res.status(400).json({ message: "User ID is required" });
-      }
+      const upToMessageId = z.number().int().optional().parse(req.body?.upToMessageId);
 
-      if (isNaN(conversationId)) {
-        return res.status(400).json({ message: "Invalid conversation ID" });
-      }
+      const messageIds = await storage.markMessagesAsRead(req.conversation.id, req.user.userId, upToMessageId);
+      await broadcastMessagesRead(conversationUserIds(req.conversation), { conversationId: req.conversation.id }, req.user.userId, messageIds);
 
-      await storage.markMessagesAsRead(conversationId, userId);
       res.json({ success: true });
     } catch (error) {
       console.error("Error marking messages as read:", error);
@@ -197,21 +679,17 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
   });
 
   // Message reaction routes
-  app.post('/api/messages/:id/reactions', async (req: any, res) => {
+  app.post('/api/messages/:id/reactions', isAuthenticated, requireMessageAccess, async (req: any, res) => {
     try {
-      const messageId = parseInt(req.params.id);
       const { emoji } = req.body;
-      const userId = req.body.userId || req.headers['x-user-id'];
+      const userId = req.user.userId;
 
-      if (isNaN(messageId) || !emoji) {
-        return res.status(400).json({ message: "Invalid message ID or emoji" });
+      if (!emoji) {
+        return res.status(400).json({ message: "Emoji is required" });
       }
 
-      if (!userId || typeof userId !== 'string') {
-        return res.status(400).json({ message: "User ID is required" });
-      }
-
-      await storage.addMessageReaction(messageId, userId, emoji);
+      await storage.addMessageReaction(req.message.id, userId, emoji);
+      await broadcastReaction(req.conversation, req.message, userId, emoji, 'add');
       res.json({ success: true });
     } catch (error) {
       console.error("Error adding reaction:", error);
@@ -219,21 +697,17 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
     }
   });
 
-  app.delete('/api/messages/:id/reactions', async (req: any, res) => {
+  app.delete('/api/messages/:id/reactions', isAuthenticated, requireMessageAccess, async (req: any, res) => {
     try {
-      const messageId = parseInt(req.params.id);
       const { emoji } = req.body;
-      const userId = req.body.userId || req.headers['x-user-id'];
-
-      if (isNaN(messageId) || !emoji) {
-        return res.status(400).json({ message: "Invalid message ID or emoji" });
-      }
+      const userId = req.user.userId;
 
-      if (!userId || typeof userId !== 'string') {
-        return res.status(400).json({ message: "User ID is required" });
+      if (!emoji) {
+        return res.status(400).json({ message: "Emoji is required" });
       }
 
-      await storage.removeMessageReaction(messageId, userId, emoji);
+      await storage.removeMessageReaction(req.message.id, userId, emoji);
+      await broadcastReaction(req.conversation, req.message, userId, emoji, 'remove');
       res.json({ success: true });
     } catch (error) {
       console.error("Error removing reaction:", error);
@@ -241,80 +715,791 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
     }
   });
 
+  app.get('/api/messages/:id/thread', isAuthenticated, requireMessageAccess, async (req: any, res) => {
+    try {
+      const rootId = req.message.threadRootId || req.message.id;
+
+      const thread = await storage.getMessageThread(rootId, req.user.userId);
+      if (!thread) {
+        return res.status(404).json({ message: "Thread not found" });
+      }
+
+      res.json(thread);
+    } catch (error) {
+      console.error("Error fetching thread:", error);
+      res.status(500).json({ message: "Failed to fetch thread" });
+    }
+  });
+
+  // Message edit/delete routes
+  app.patch('/api/messages/:id', isAuthenticated, requireMessageAccess, async (req: any, res) => {
+    try {
+      const message = req.message;
+
+      if (message.senderId !== req.user.userId) {
+        return res.status(403).json({ message: "Only the sender can edit this message" });
+      }
+
+      if (message.deletedAt) {
+        return res.status(400).json({ message: "Deleted messages cannot be edited" });
+      }
+
+      const { content } = z.object({ content: z.string().trim().min(1).max(MAX_MESSAGE_LENGTH) }).parse(req.body);
+
+      // A preview of a link the edit removed is dropped, and the new link fetched
+      const linkChanged = findPreviewLink(content) !== findPreviewLink(message.content);
+
+      let updatedMessage = await storage.editMessage(message.id, content);
+      if (linkChanged) {
+        updatedMessage = await storage.setMessageLinkPreview(message.id, null);
+      }
+
+      await broadcastMessageEdited(req.conversation, updatedMessage!);
+      if (linkChanged) {
+        attachLinkPreview(req.conversation, updatedMessage!);
+      }
+
+      res.json(updatedMessage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message data", errors: error.errors });
+      }
+      console.error("Error editing message:", error);
+      res.status(500).json({ message: "Failed to edit message" });
+    }
+  });
+
+  // ?scope=everyone (sender only) clears the message for both participants;
+  // the default scope=me hides it for the requesting user only
+  app.delete('/api/messages/:id', isAuthenticated, requireMessageAccess, async (req: any, res) => {
+    try {
+      const message = req.message;
+      const userId = req.user.userId;
+      const scope = req.query.scope || 'me';
+
+      if (scope !== 'me' && scope !== 'everyone') {
+        return res.status(400).json({ message: "Invalid delete scope" });
+      }
+
+      if (scope === 'everyone') {
+        if (message.senderId !== userId) {
+          return res.status(403).json({ message: "Only the sender can delete this message for everyone" });
+        }
+
+        const deletedMessage = await storage.deleteMessageForEveryone(message.id);
+        await broadcastMessageDeleted(conversationUserIds(req.conversation), deletedMessage!, 'everyone');
+        return res.json(deletedMessage);
+      }
+
+      await storage.deleteMessageForUser(message.id, userId);
+      await broadcastMessageDeleted([userId], message, 'me');
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  // Group routes
+  app.get('/api/groups', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      const groups = await storage.getGroups(userId);
+      res.json(groups);
+    } catch (error) {
+      console.error("Error fetching groups:", error);
+      res.status(500).json({ message: "Failed to fetch groups" });
+    }
+  });
+
+  app.post('/api/groups', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      const validatedData = insertGroupChatSchema.parse({
+        ...req.body,
+        createdBy: userId,
+      });
+
+      if (!validateGroupName(validatedData.name)) {
+        return res.status(400).json({ message: "Group name must be between 1 and 100 characters" });
+      }
+
+      if (validatedData.maxUploadSize && validatedData.maxUploadSize > uploadPolicy.maxFileSize) {
+        return res.status(400).json({ message: "Upload limit exceeds the server maximum" });
+      }
+
+      const memberIds = z.array(z.string()).default([]).parse(req.body.memberIds);
+
+      const unknownIds = await findUnknownUserIds(memberIds);
+      if (unknownIds.length > 0) {
+        return res.status(400).json({ message: "Unknown group members", userIds: unknownIds });
+      }
+
+      const group = await storage.createGroup(
+        { ...validatedData, name: validatedData.name.trim() },
+        memberIds
+      );
+      const members = await storage.getGroupMembers(group.id);
+
+      joinRoom(members.map(m => m.userId), groupRoom(group.id));
+      await broadcastGroupUpdate(memberUserIds(members), group.id, 'groupCreated', { group });
+
+      res.json({ ...group, members, messages: [] });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid group data", errors: error.errors });
+      }
+      console.error("Error creating group:", error);
+      res.status(500).json({ message: "Failed to create group" });
+    }
+  });
+
+  app.get('/api/groups/:id', isAuthenticated, requireGroupMember, async (req: any, res) => {
+    try {
+      res.json({ ...req.group, members: req.groupMembers });
+    } catch (error) {
+      console.error("Error fetching group:", error);
+      res.status(500).json({ message: "Failed to fetch group" });
+    }
+  });
+
+  app.patch('/api/groups/:id', isAuthenticated, requireGroupAdmin, async (req: any, res) => {
+    try {
+      const groupId = req.group.id;
+
+      const updates = insertGroupChatSchema
+        .pick({ name: true, description: true, avatar: true, maxUploadSize: true })
+        .partial()
+        .parse(req.body);
+
+      if (updates.name !== undefined && !validateGroupName(updates.name)) {
+        return res.status(400).json({ message: "Group name must be between 1 and 100 characters" });
+      }
+
+      if (updates.maxUploadSize && updates.maxUploadSize > uploadPolicy.maxFileSize) {
+        return res.status(400).json({ message: "Upload limit exceeds the server maximum" });
+      }
+
+      const updatedGroup = await storage.updateGroup(groupId, {
+        ...updates,
+        name: updates.name?.trim(),
+      });
+
+      await broadcastGroupUpdate(memberUserIds(req.groupMembers), groupId, 'groupUpdated', { group: updatedGroup });
+
+      res.json(updatedGroup);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid group data", errors: error.errors });
+      }
+      console.error("Error updating group:", error);
+      res.status(500).json({ message: "Failed to update group" });
+    }
+  });
+
+  app.delete('/api/groups/:id', isAuthenticated, requireGroupMember, async (req: any, res) => {
+    try {
+      const groupId = req.group.id;
+
+      // Only the creator can delete the group
+      if (req.group.createdBy !== req.user.userId) {
+        return res.status(403).json({ message: "Only group creator can delete the group" });
+      }
+
+      await storage.deleteGroup(groupId);
+
+      await broadcastGroupUpdate(memberUserIds(req.groupMembers), groupId, 'groupDeleted', null);
+      io.in(groupRoom(groupId)).socketsLeave(groupRoom(groupId));
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting group:", error);
+      res.status(500).json({ message: "Failed to delete group" });
+    }
+  });
+
+  // Group member routes
+  app.post('/api/groups/:id/members', isAuthenticated, requireGroupAdmin, async (req: any, res) => {
+    try {
+      const groupId = req.group.id;
+      const memberIds = z.array(z.string()).min(1).parse(req.body.memberIds);
+
+      const unknownIds = await findUnknownUserIds(memberIds);
+      if (unknownIds.length > 0) {
+        return res.status(400).json({ message: "Unknown group members", userIds: unknownIds });
+      }
+
+      const added = await storage.addGroupMembers(groupId, memberIds);
+      const updatedMembers = await storage.getGroupMembers(groupId);
+
+      joinRoom(added.map(m => m.userId), groupRoom(groupId));
+      await broadcastGroupUpdate(memberUserIds(updatedMembers), groupId, 'memberAdded', { userIds: added.map(m => m.userId) });
+
+      res.json(updatedMembers);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid member data", errors: error.errors });
+      }
+      console.error("Error adding group members:", error);
+      res.status(500).json({ message: "Failed to add group members" });
+    }
+  });
+
+  app.delete('/api/groups/:id/members/:memberId', isAuthenticated, requireGroupMember, async (req: any, res) => {
+    try {
+      const groupId = req.group.id;
+      const memberId = req.params.memberId;
+      const userId = req.user.userId;
+
+      if (req.group.createdBy === memberId) {
+        return res.status(400).json({ message: "Creator cannot be removed" });
+      }
+
+      // Members may leave on their own; removing someone else requires admin
+      const members: GroupMemberWithUser[] = req.groupMembers;
+      const isAdmin = members.some(m => m.userId === userId && m.role === 'admin');
+      if (memberId !== userId && !isAdmin) {
+        return res.status(403).json({ message: "Only group admins can remove members" });
+      }
+
+      if (!members.some(m => m.userId === memberId)) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      await storage.removeGroupMember(groupId, memberId);
+
+      // Notify the removed member too, then drop them from the room
+      await broadcastGroupUpdate(memberUserIds(members), groupId, 'memberRemoved', { userId: memberId });
+      io.in(userRoom(memberId)).socketsLeave(groupRoom(groupId));
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing group member:", error);
+      res.status(500).json({ message: "Failed to remove group member" });
+    }
+  });
+
+  // Group message routes
+  app.get('/api/groups/:id/messages', isAuthenticated, requireGroupMember, async (req: any, res) => {
+    try {
+      const options = parsePageQuery(req.query);
+      if (!options) {
+        return res.status(400).json({ message: "Invalid pagination parameters" });
+      }
+
+      const page = await storage.getGroupMessages(req.group.id, options);
+
+      // Messages fetched by a member have reached their device
+      await Promise.all(page.messages.map((message) => deliverGroupMessage(message, req.user.userId)));
+
+      res.json(toPageResponse(page));
+    } catch (error) {
+      console.error("Error fetching group messages:", error);
+      res.status(500).json({ message: "Failed to fetch group messages" });
+    }
+  });
+
+  app.patch('/api/groups/:id/read', isAuthenticated, requireGroupMember, async (req: any, res) => {
+    try {
+      const upToMessageId = z.number().int().optional().parse(req.body?.upToMessageId);
+
+      const messageIds = await storage.markGroupMessagesAsRead(req.group.id, req.user.userId, upToMessageId);
+      await broadcastMessagesRead(memberUserIds(req.groupMembers), { groupId: req.group.id }, req.user.userId, messageIds);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error marking group messages as read:", error);
+      res.status(500).json({ message: "Failed to mark group messages as read" });
+    }
+  });
+
+  // "Seen by" list: delivery and read times of every other member
+  app.get('/api/groups/:id/messages/:messageId/receipts', isAuthenticated, requireGroupMember, async (req: any, res) => {
+    try {
+      const message = await storage.getGroupMessage(parseInt(req.params.messageId));
+      if (!message || message.groupId !== req.group.id) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const receipts = message.receipts || {};
+      const members: GroupMemberWithUser[] = req.groupMembers;
+
+      res.json(members
+        .filter((member) => member.userId !== message.senderId)
+        .map((member) => ({
+          user: member.user,
+          deliveredAt: receipts[member.userId]?.deliveredAt || null,
+          readAt: receipts[member.userId]?.readAt || null,
+        })));
+    } catch (error) {
+      console.error("Error fetching message receipts:", error);
+      res.status(500).json({ message: "Failed to fetch message receipts" });
+    }
+  });
+
+  app.post('/api/groups/:id/messages', isAuthenticated, requireGroupMember, async (req: any, res) => {
+    try {
+      const groupId = req.group.id;
+      const userId = req.user.userId;
+
+      const validatedData = insertGroupMessageSchema.parse({
+        ...req.body,
+        groupId,
+        senderId: userId,
+      });
+
+      const attachment = await findOwnUpload(userId, validatedData.fileUrl);
+      if (validatedData.fileUrl && !attachment) {
+        return res.status(400).json({ message: "Attachments must be your own uploads" });
+      }
+      if (validatedData.messageType === 'voice' && !isVoiceAttachment(attachment)) {
+        return res.status(400).json({ message: "Voice messages need an audio upload" });
+      }
+
+      const maxFileSize = uploadLimitFor(req.group);
+      if (attachment && attachment.fileSize > maxFileSize) {
+        return sendFileTooLarge(res, maxFileSize);
+      }
+
+      const message = await storage.createGroupMessage({ ...validatedData, ...attachmentFields(attachment) }, attachment?.media);
+
+      await broadcastGroupMessage(memberUserIds(req.groupMembers), groupId, message);
+      attachGroupLinkPreview(memberUserIds(req.groupMembers), message);
+
+      res.json(message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message data", errors: error.errors });
+      }
+      console.error("Error creating group message:", error);
+      res.status(500).json({ message: "Failed to create group message" });
+    }
+  });
+
   // Socket.IO handlers
-  io.on('connection', (socket) => {
+  io.on('connection', async (socket) => {
     console.log('New Socket.IO connection:', socket.id);
 
-    socket.on('auth', async (data) => {
-      try {
-        if (data.userId) {
-          connectedClients.set(data.userId, { socket, userId: data.userId });
-          await storage.updateUserOnlineStatus(data.userId, true);
+    // The handshake has already verified the access token
+    const userId: string = socket.data.userId;
 
-          // Send the current user list to the newly connected client
-          await sendUserListToClient(socket);
-
-          // Broadcast the updated user status to all other clients
-          broadcastUserStatus(data.userId, true);
+    socket.on('typing', async (data) => {
+      try {
+        const groupId = parseInt(data.groupId);
+        const conversationId = parseInt(data.conversationId);
+
+        // Only members may signal typing to a conversation or group
+        if (!isNaN(groupId)) {
+          if (await canAccessGroup(userId, groupId)) {
+            broadcastTyping(socket, groupRoom(groupId), { ...data, userId });
+          }
+        } else if (!isNaN(conversationId)) {
+          if (await canAccessConversation(userId, conversationId)) {
+            broadcastTyping(socket, conversationRoom(conversationId), { ...data, userId });
+          }
+        }
+      } catch (error) {
+        console.error('Error handling typing:', error);
+      }
+    });
 
-          // Broadcast the full list of connected users to all clients
-          await broadcastUserList();
+    // The client has read everything up to messageId in a conversation or group
+    socket.on('messageRead', async (data) => {
+      try {
+        const messageId = parseInt(data.messageId);
+        const groupId = parseInt(data.groupId);
+        const conversationId = parseInt(data.conversationId);
+        if (isNaN(messageId)) return;
+
+        if (!isNaN(groupId)) {
+          if (await canAccessGroup(userId, groupId)) {
+            const messageIds = await storage.markGroupMessagesAsRead(groupId, userId, messageId);
+            const members = await storage.getGroupMembers(groupId);
+            await broadcastMessagesRead(memberUserIds(members), { groupId }, userId, messageIds);
+          }
+        } else if (!isNaN(conversationId)) {
+          const conversation = await storage.getConversation(conversationId);
+          if (conversation && isConversationParticipant(userId, conversation)) {
+            const messageIds = await storage.markMessagesAsRead(conversationId, userId, messageId);
+            await broadcastMessagesRead(conversationUserIds(conversation), { conversationId }, userId, messageIds);
+          }
         }
       } catch (error) {
-        console.error('Error handling auth:', error);
+        console.error('Error handling messageRead:', error);
       }
     });
 
-    socket.on('typing', (data) => {
-      broadcastTyping(data.conversationId, data.userId, data.isTyping);
+    // Return the events this user missed after the given sequence number;
+    // without one, only the latest sequence number to continue from
+    socket.on('sync', async (data, callback) => {
+      try {
+        const params = syncParamsSchema.safeParse(data || {});
+        if (!params.success) {
+          return callback?.({ message: "Invalid sync parameters" });
+        }
+
+        callback?.(await storage.getUserEvents(userId, params.data.since, params.data.limit));
+      } catch (error) {
+        console.error('Error handling sync:', error);
+        callback?.({ message: "Failed to sync" });
+      }
     });
 
     socket.on('disconnect', async () => {
-      // Find and remove the client
-      for (const [userId, client] of connectedClients.entries()) {
-        if (client.socket.id === socket.id) {
-          connectedClients.delete(userId);
+      try {
+        removeClientSocket(userId, socket);
+
+        // The user stays online while any other socket of theirs is alive
+        if (!isUserOnline(userId)) {
           await storage.updateUserOnlineStatus(userId, false);
           broadcastUserStatus(userId, false);
 
           // Broadcast the updated user list after someone disconnects
           await broadcastUserList();
-          break;
         }
+      } catch (error) {
+        console.error('Error handling disconnect:', error);
       }
     });
+
+    try {
+      const wasOnline = isUserOnline(userId);
+      addClientSocket(userId, socket);
+      await joinUserRooms(socket, userId);
+
+      // Send the current user list to the newly connected client
+      await sendUserListToClient(socket);
+
+      // Other devices of an already-online user don't change presence
+      if (!wasOnline) {
+        await storage.updateUserOnlineStatus(userId, true);
+
+        // Broadcast the updated user status to all other clients
+        broadcastUserStatus(userId, true);
+
+        // Broadcast the full list of connected users to all clients
+        await broadcastUserList();
+      }
+    } catch (error) {
+      console.error('Error handling connection:', error);
+    }
   });
 
-  function broadcastMessage(conversationId: number, message: any, senderId: string) {
+  async function findUnknownUserIds(userIds: string[]): Promise<string[]> {
+    const uniqueIds = Array.from(new Set(userIds));
+    const users = await Promise.all(uniqueIds.map((id) => storage.getUser(id)));
+    return uniqueIds.filter((_, index) => !users[index]);
+  }
+
+  // Media details are copied from the sender's own upload, never taken from the client
+  async function findOwnUpload(userId: string, fileUrl?: string | null): Promise<Upload | undefined> {
+    if (!fileUrl) return undefined;
+
+    const stored = await storage.getUploadByUrl(fileUrl);
+    return stored?.ownerId === userId ? stored : undefined;
+  }
+
+  // Record a stored file, along with its thumbnail if media processing made one
+  async function saveUpload(
+    ownerId: string,
+    fileName: string,
+    fileSize: number,
+    blob: { url: string; key: string },
+    processed: { media: MediaInfo; thumbnail?: Buffer }
+  ): Promise<Upload> {
+    const media = { ...processed.media };
+    if (processed.thumbnail) {
+      const thumbnail = await blobStore.put(processed.thumbnail, 'thumbnail.webp', 'image/webp');
+      media.thumbnailUrl = thumbnail.url;
+    }
+
+    return storage.createUpload({
+      id: nanoid(),
+      ownerId,
+      url: blob.url,
+      storageKey: blob.key,
+      fileName,
+      fileSize,
+      media,
+    });
+  }
+
+  function uploadResponse(stored: Upload) {
+    return {
+      url: stored.url,
+      fileName: stored.fileName,
+      fileSize: stored.fileSize,
+      mimeType: stored.media.mimeType,
+      media: stored.media,
+    };
+  }
+
+  // Expired sessions are cleaned up when next looked at
+  async function findOwnUploadSession(userId: string, sessionId: string): Promise<UploadSession | undefined> {
+    const session = await storage.getUploadSession(sessionId);
+    if (!session || session.ownerId !== userId) return undefined;
+
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await discardUploadSession(session.id);
+      return undefined;
+    }
+    return session;
+  }
+
+  async function discardUploadSession(sessionId: string) {
+    await discardUploadParts(sessionId);
+    await storage.deleteUploadSession(sessionId);
+  }
+
+  async function joinUserRooms(socket: Socket, userId: string) {
+    const conversations = await storage.getConversations(userId);
+    const groups = await storage.getGroups(userId);
+
+    socket.join([
+      userRoom(userId),
+      ...conversations.map(c => conversationRoom(c.id)),
+      ...groups.map(g => groupRoom(g.id)),
+    ]);
+  }
+
+  function joinRoom(userIds: string[], room: string) {
+    userIds.forEach((userId) => {
+      io.in(userRoom(userId)).socketsJoin(room);
+    });
+  }
+
+  /**
+   * Append an event to the log of each user and emit it to all of their
+   * devices, tagged with that user's sequence number so clients can tell
+   * when they missed something and catch up through sync
+   */
+  async function publishEvent(userIds: string[], event: string, data: any, onAck?: (userId: string) => void) {
+    await Promise.all(Array.from(new Set(userIds)).map(async (userId) => {
+      const { seq } = await storage.appendUserEvent(userId, event, data);
+      const payload = { ...data, seq };
+
+      if (onAck) {
+        emitWithAck(userRoom(userId), event, payload, onAck);
+      } else {
+        io.to(userRoom(userId)).emit(event, payload);
+      }
+    }));
+  }
+
+  async function broadcastMessage(conversation: Conversation, message: Message) {
     const messageData = {
       type: 'message',
-      conversationId,
+      conversationId: conversation.id,
       message,
     };
 
-    // Emit to all clients except sender
-    connectedClients.forEach((client, userId) => {
-      if (userId !== senderId) {
-        client.socket.emit('message', messageData);
-      }
+    // Sent to both participants so the sender's other devices get it too;
+    // recipients acknowledge to mark the message delivered
+    await publishEvent(conversationUserIds(conversation), 'message', messageData, (recipientId) => {
+      deliverMessage(message, recipientId).catch((error) => {
+        console.error('Error marking message delivered:', error);
+      });
     });
   }
 
-  function broadcastTyping(conversationId: number, userId: string, isTyping: boolean) {
+  /**
+   * Emit to every socket in a room, calling onAck with the user ID of each
+   * socket that acknowledges in time
+   */
+  function emitWithAck(room: string, event: string, data: any, onAck: (userId: string) => void) {
+    // Acks from a room broadcast don't say who sent them, so emit per socket
+    const socketIds = Array.from(io.sockets.adapter.rooms.get(room) || []);
+
+    socketIds.forEach((socketId) => {
+      const socket = io.sockets.sockets.get(socketId);
+      if (!socket) return;
+
+      socket.timeout(DELIVERY_ACK_TIMEOUT_MS).emit(event, data, (err: Error | null) => {
+        if (!err) onAck(socket.data.userId);
+      });
+    });
+  }
+
+  async function deliverMessage(message: Message, userId: string) {
+    const receipt = await storage.markMessageDelivered(message.id, userId);
+    if (receipt) {
+      await broadcastMessageDelivered(message, { conversationId: message.conversationId }, userId, receipt.deliveredAt);
+    }
+  }
+
+  async function deliverGroupMessage(message: GroupMessage, userId: string) {
+    const receipt = await storage.markGroupMessageDelivered(message.id, userId);
+    if (receipt) {
+      await broadcastMessageDelivered(message, { groupId: message.groupId }, userId, receipt.deliveredAt);
+    }
+  }
+
+  async function broadcastMessageDelivered(
+    message: Message | GroupMessage,
+    target: { conversationId?: number; groupId?: number },
+    userId: string,
+    deliveredAt: string | null
+  ) {
+    const deliveredData = {
+      type: 'messageDelivered',
+      ...target,
+      messageId: message.id,
+      userId,
+      deliveredAt,
+    };
+
+    // Only the sender's devices show delivery ticks
+    await publishEvent([message.senderId], 'messageDelivered', deliveredData);
+  }
+
+  async function broadcastMessagesRead(
+    userIds: string[],
+    target: { conversationId?: number; groupId?: number },
+    userId: string,
+    messageIds: number[]
+  ) {
+    if (messageIds.length === 0) return;
+
+    const readData = {
+      type: 'messageRead',
+      ...target,
+      messageIds,
+      userId,
+      readAt: new Date().toISOString(),
+    };
+
+    await publishEvent(userIds, 'messageRead', readData);
+  }
+
+  function broadcastTyping(socket: Socket, room: string, data: any) {
     const typingData = {
       type: 'typing',
-      conversationId,
-      userId,
-      isTyping,
+      conversationId: data.conversationId,
+      groupId: data.groupId,
+      userId: data.userId,
+      isTyping: data.isTyping,
     };
 
-    connectedClients.forEach((client, clientUserId) => {
-      if (clientUserId !== userId) {
-        client.socket.emit('typing', typingData);
-      }
+    socket.to(room).emit('typing', typingData);
+  }
+
+  async function broadcastReaction(
+    conversation: Conversation,
+    message: Message,
+    userId: string,
+    emoji: string,
+    action: 'add' | 'remove'
+  ) {
+    const reactionData = {
+      type: 'messageReaction',
+      messageId: message.id,
+      conversationId: message.conversationId,
+      reaction: { userId, emoji, action },
+    };
+
+    await publishEvent(conversationUserIds(conversation), 'messageReaction', reactionData);
+  }
+
+  async function broadcastMessageEdited(conversation: Conversation, message: Message) {
+    const editData = {
+      type: 'messageEdited',
+      conversationId: message.conversationId,
+      message,
+    };
+
+    await publishEvent(conversationUserIds(conversation), 'messageEdited', editData);
+  }
+
+  async function broadcastLinkPreview(
+    userIds: string[],
+    target: { conversationId?: number; groupId?: number },
+    messageId: number,
+    linkPreview: LinkPreview
+  ) {
+    const previewData = {
+      type: 'linkPreview',
+      ...target,
+      messageId,
+      linkPreview,
+    };
+
+    await publishEvent(userIds, 'linkPreview', previewData);
+  }
+
+  /**
+   * Unfurl the message's first link and attach the preview once fetched, so a
+   * slow site never holds up sending
+   */
+  function attachLinkPreview(conversation: Conversation, message: Message) {
+    const link = findPreviewLink(message.content);
+    if (!link) return;
+
+    unfurl(link).then(async (preview) => {
+      // The message may have been edited to another link, or deleted, meanwhile
+      const current = await storage.getMessage(message.id);
+      if (!preview || !current || current.deletedAt || findPreviewLink(current.content) !== link) return;
+
+      await storage.setMessageLinkPreview(message.id, preview);
+      await broadcastLinkPreview(conversationUserIds(conversation), { conversationId: conversation.id }, message.id, preview);
+    }).catch((error) => {
+      console.error('Error attaching link preview:', error);
+    });
+  }
+
+  function attachGroupLinkPreview(memberIds: string[], message: GroupMessage) {
+    const link = findPreviewLink(message.content);
+    if (!link) return;
+
+    unfurl(link).then(async (preview) => {
+      if (!preview) return;
+
+      await storage.setGroupMessageLinkPreview(message.id, preview);
+      await broadcastLinkPreview(memberIds, { groupId: message.groupId }, message.id, preview);
+    }).catch((error) => {
+      console.error('Error attaching link preview:', error);
+    });
+  }
+
+  // A delete-for-me only needs to reach the user's own devices
+  async function broadcastMessageDeleted(userIds: string[], message: Message, scope: 'me' | 'everyone') {
+    const deleteData = {
+      type: 'messageDeleted',
+      messageId: message.id,
+      conversationId: message.conversationId,
+      scope,
+    };
+
+    await publishEvent(userIds, 'messageDeleted', deleteData);
+  }
+
+  async function broadcastGroupMessage(memberIds: string[], groupId: number, message: GroupMessage) {
+    const messageData = {
+      type: 'groupMessage',
+      groupId,
+      message,
+    };
+
+    // Only group members receive the message, on every device they have connected
+    await publishEvent(memberIds, 'groupMessage', messageData, (recipientId) => {
+      deliverGroupMessage(message, recipientId).catch((error) => {
+        console.error('Error marking group message delivered:', error);
+      });
     });
   }
 
+  async function broadcastGroupUpdate(memberIds: string[], groupId: number, action: string, data: any) {
+    const updateData = {
+      type: 'groupUpdate',
+      groupId,
+      action,
+      data,
+    };
+
+    await publishEvent(memberIds, 'groupUpdate', updateData);
+  }
+
   function broadcastUserStatus(userId: string, isOnline: boolean) {
     const statusData = {
       type: 'userStatus',
@@ -328,7 +1513,7 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
   async function sendUserListToClient(socket: Socket) {
     try {
       // Get all users from storage
-      const allUsers = Array.from(storage['users'].values());
+      const allUsers = await storage.getAllUsers();
 
       // Create a map of online users from connectedClients
       const onlineUserIds = new Set(connectedClients.keys());
@@ -353,7 +1538,7 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
   async function broadcastUserList() {
     try {
       // Get all users from storage
-      const allUsers = Array.from(storage['users'].values());
+      const allUsers = await storage.getAllUsers();
 
       // Create a map of online users from connectedClients
       const onlineUserIds = new Set(connectedClients.keys());
@@ -369,7 +1554,7 @@ export async function registerRoutes(app: Express, io: SocketIOServer): Promise<
         users: usersWithStatus,
       });
 
-      console.log(`Broadcasted user list to ${connectedClients.size} clients. Total users: ${usersWithStatus.length}`);
+      console.log(`Broadcasted user list to ${connectedClients.size} online users. Total users: ${usersWithStatus.length}`);
     } catch (error) {
       console.error('Error broadcasting user list:', error);
     }
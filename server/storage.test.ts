@@ -0,0 +1,359 @@
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { sql } from "drizzle-orm";
+import { MongoClient } from "mongodb";
+import * as schema from "@shared/schema";
+import type { IStorage } from "./storage";
+import { MemoryStorage } from "./memStorage";
+import { PostgresStorage } from "./pgStorage";
+import { MongoStorage } from "./mongoStorage";
+import { mongoMigrations } from "./mongoMigrations";
+import { UnknownUserError } from "./utils/messageState";
+
+/**
+ * The IStorage contract, run against every backend
+ * Postgres runs in-process on PGlite with the real migrations. Mongo needs a
+ * server: set TEST_MONGODB_URI to a database the tests may empty.
+ */
+
+interface Backend {
+  name: string;
+  skip?: boolean;
+  open(): Promise<void>;
+  // Storage with no data in it
+  reset(): Promise<IStorage>;
+  close(): Promise<void>;
+}
+
+function memoryBackend(): Backend {
+  return {
+    name: "memory",
+    async open() {},
+    async reset() {
+      return new MemoryStorage();
+    },
+    async close() {},
+  };
+}
+
+function postgresBackend(): Backend {
+  let client: PGlite;
+  let db: ReturnType<typeof drizzle<typeof schema>>;
+
+  return {
+    name: "postgres",
+    async open() {
+      client = new PGlite();
+      db = drizzle({ client, schema });
+      await migrate(db, { migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations") });
+    },
+    async reset() {
+      const { rows } = await db.execute<{ tablename: string }>(
+        sql`select tablename from pg_tables where schemaname = 'public'`
+      );
+      const tables = rows.map(({ tablename }) => `"${tablename}"`).join(", ");
+      await db.execute(sql.raw(`truncate ${tables} restart identity cascade`));
+      return new PostgresStorage(db);
+    },
+    async close() {
+      await client.close();
+    },
+  };
+}
+
+function mongoBackend(): Backend {
+  const uri = process.env.TEST_MONGODB_URI;
+  let client: MongoClient;
+
+  return {
+    name: "mongo",
+    skip: !uri,
+    async open() {
+      client = await MongoClient.connect(uri!);
+      await client.db().dropDatabase();
+      for (const migration of mongoMigrations) {
+        await migration.up(client.db());
+      }
+    },
+    async reset() {
+      const db = client.db();
+      for (const collection of await db.collections()) {
+        await collection.deleteMany({});
+      }
+      return new MongoStorage(db);
+    },
+    async close() {
+      await client?.close();
+    },
+  };
+}
+
+const backends = [memoryBackend(), postgresBackend(), mongoBackend()];
+
+describe.each(backends)("$name storage", (backend) => {
+  let storage: IStorage;
+
+  beforeAll(() => (backend.skip ? undefined : backend.open()), 60000);
+  afterAll(() => (backend.skip ? undefined : backend.close()));
+  beforeEach(async (context) => {
+    if (backend.skip) return context.skip();
+    storage = await backend.reset();
+    for (const [id, firstName] of [["ann", "Ann"], ["bob", "Bob"], ["cy", "Cy"]]) {
+      await storage.upsertUser({ id, email: `${id}@example.com`, firstName, lastName: "Test" });
+    }
+  });
+
+  async function send(
+    conversationId: number,
+    senderId: string,
+    content: string,
+    extra: Partial<schema.InsertMessage> = {},
+    media?: schema.MediaInfo,
+  ) {
+    return storage.createMessage({ conversationId, senderId, content, ...extra }, media);
+  }
+
+  describe("users", () => {
+    it("finds users by ID and email", async () => {
+      expect((await storage.getUser("ann"))?.firstName).toBe("Ann");
+      expect((await storage.getUserByEmail("bob@example.com"))?.id).toBe("bob");
+      expect(await storage.getUser("ghost")).toBeUndefined();
+    });
+
+    it("updates a user on a second upsert", async () => {
+      await storage.upsertUser({ id: "ann", email: "ann@example.com", firstName: "Anna", lastName: "Test" });
+
+      expect((await storage.getUser("ann"))?.firstName).toBe("Anna");
+      expect(await storage.getAllUsers()).toHaveLength(3);
+    });
+  });
+
+  describe("conversations", () => {
+    it("returns the same conversation whichever user starts it", async () => {
+      const first = await storage.getOrCreateConversation("ann", "bob");
+      const second = await storage.getOrCreateConversation("bob", "ann");
+
+      expect(second.id).toBe(first.id);
+      expect((await storage.getConversations("ann")).map(conv => conv.id)).toEqual([first.id]);
+    });
+
+    it("lists conversations with both participants", async () => {
+      const conversation = await storage.getOrCreateConversation("ann", "bob");
+      const [listed] = await storage.getConversations("bob");
+
+      expect(listed.id).toBe(conversation.id);
+      expect([listed.participant1.id, listed.participant2.id].sort()).toEqual(["ann", "bob"]);
+    });
+
+    it("rejects unknown users", async () => {
+      await expect(storage.getOrCreateConversation("ann", "ghost")).rejects.toThrow(UnknownUserError);
+      expect(await storage.getConversations("ann")).toEqual([]);
+    });
+  });
+
+  describe("messages", () => {
+    it("pages through a conversation oldest first", async () => {
+      const { id } = await storage.getOrCreateConversation("ann", "bob");
+      for (let i = 1; i <= 5; i++) {
+        await send(id, "ann", `message ${i}`);
+      }
+
+      const latest = await storage.getMessages(id, { limit: 2 });
+      expect(latest.messages.map(m => m.content)).toEqual(["message 4", "message 5"]);
+      expect(latest.hasMore).toBe(true);
+      expect(latest.messages[0].sender.id).toBe("ann");
+
+      const oldest = latest.messages[0];
+      const earlier = await storage.getMessages(id, { limit: 10, before: { createdAt: oldest.createdAt!, id: oldest.id } });
+      expect(earlier.messages.map(m => m.content)).toEqual(["message 1", "message 2", "message 3"]);
+      expect(earlier.hasMore).toBe(false);
+
+      const first = earlier.messages[0];
+      const later = await storage.getMessages(id, { limit: 2, after: { createdAt: first.createdAt!, id: first.id } });
+      expect(later.messages.map(m => m.content)).toEqual(["message 2", "message 3"]);
+      expect(later.hasMore).toBe(true);
+    });
+
+    it("stores a retried send once", async () => {
+      const { id } = await storage.getOrCreateConversation("ann", "bob");
+      const first = await send(id, "ann", "hello", { clientMessageId: "send-1" });
+      const retry = await send(id, "ann", "hello", { clientMessageId: "send-1" });
+
+      expect(retry.id).toBe(first.id);
+      expect((await storage.getMessageByClientId("ann", "send-1"))?.id).toBe(first.id);
+      expect((await storage.getMessages(id)).messages).toHaveLength(1);
+    });
+
+    it("keeps edits in the message's history", async () => {
+      const { id } = await storage.getOrCreateConversation("ann", "bob");
+      const message = await send(id, "ann", "helo");
+
+      const edited = await storage.editMessage(message.id, "hello");
+
+      expect(edited?.content).toBe("hello");
+      expect(edited?.editedAt).toBeInstanceOf(Date);
+      expect(edited?.editHistory.map(entry => entry.content)).toEqual(["helo"]);
+    });
+
+    it("adds and removes reactions per user", async () => {
+      const { id } = await storage.getOrCreateConversation("ann", "bob");
+      const message = await send(id, "ann", "hello");
+
+      await storage.addMessageReaction(message.id, "ann", "👍");
+      await storage.addMessageReaction(message.id, "bob", "👍");
+      await storage.addMessageReaction(message.id, "bob", "🎉");
+      await storage.removeMessageReaction(message.id, "bob", "🎉");
+
+      expect((await storage.getMessage(message.id))?.reactions).toEqual({ "👍": ["ann", "bob"] });
+    });
+
+    it("clears content, files and media when deleted for everyone", async () => {
+      const { id } = await storage.getOrCreateConversation("ann", "bob");
+      const message = await send(
+        id,
+        "ann",
+        "photo",
+        { messageType: "image", fileUrl: "/uploads/photo.jpg", fileName: "photo.jpg", fileSize: 100 },
+        { mimeType: "image/jpeg", width: 10, height: 10, thumbnailUrl: "/uploads/thumb.webp" },
+      );
+      expect(message.media?.thumbnailUrl).toBe("/uploads/thumb.webp");
+      await storage.setMessageLinkPreview(message.id, { url: "https://example.com", title: "Example" });
+
+      const deleted = await storage.deleteMessageForEveryone(message.id);
+
+      expect(deleted).toMatchObject({
+        content: "",
+        fileUrl: null,
+        fileName: null,
+        fileSize: null,
+        media: null,
+        linkPreview: null,
+        reactions: {},
+      });
+      expect(deleted?.deletedAt).toBeInstanceOf(Date);
+    });
+
+    it("hides a message deleted for one user from them only", async () => {
+      const { id } = await storage.getOrCreateConversation("ann", "bob");
+      const message = await send(id, "ann", "oops");
+
+      await storage.deleteMessageForUser(message.id, "bob");
+
+      expect((await storage.getMessages(id, { viewerId: "bob" })).messages).toEqual([]);
+      expect((await storage.getMessages(id, { viewerId: "ann" })).messages).toHaveLength(1);
+    });
+
+    it("keeps thread replies out of the conversation", async () => {
+      const { id } = await storage.getOrCreateConversation("ann", "bob");
+      const root = await send(id, "ann", "question");
+      await send(id, "bob", "answer", { threadRootId: root.id });
+
+      const page = await storage.getMessages(id);
+      expect(page.messages.map(m => m.content)).toEqual(["question"]);
+      expect(page.messages[0].replyCount).toBe(1);
+
+      const thread = await storage.getMessageThread(root.id);
+      expect(thread?.replies.map(m => m.content)).toEqual(["answer"]);
+    });
+
+    it("marks the other user's messages read", async () => {
+      const { id } = await storage.getOrCreateConversation("ann", "bob");
+      const fromAnn = await send(id, "ann", "one");
+      await send(id, "bob", "two");
+
+      expect(await storage.markMessagesAsRead(id, "bob")).toEqual([fromAnn.id]);
+      expect(await storage.markMessagesAsRead(id, "bob")).toEqual([]);
+      expect((await storage.getMessage(fromAnn.id))?.receipts.bob?.readAt).toBeTruthy();
+    });
+  });
+
+  describe("groups", () => {
+    it("adds the creator as admin and members once each", async () => {
+      const group = await storage.createGroup({ name: "Team", createdBy: "ann" }, ["bob", "bob"]);
+
+      const added = await storage.addGroupMembers(group.id, ["bob", "cy"]);
+      expect(added.map(member => member.userId)).toEqual(["cy"]);
+
+      const members = await storage.getGroupMembers(group.id);
+      expect(members.map(member => [member.userId, member.role, member.user.firstName]).sort()).toEqual([
+        ["ann", "admin", "Ann"],
+        ["bob", "member", "Bob"],
+        ["cy", "member", "Cy"],
+      ]);
+    });
+
+    it("refuses to create a group with unknown members", async () => {
+      await expect(storage.createGroup({ name: "Team", createdBy: "ann" }, ["bob", "ghost"]))
+        .rejects.toThrow(UnknownUserError);
+      expect(await storage.getGroups("ann")).toEqual([]);
+    });
+
+    it("refuses to add unknown members", async () => {
+      const group = await storage.createGroup({ name: "Team", createdBy: "ann" }, []);
+
+      await expect(storage.addGroupMembers(group.id, ["cy", "ghost"])).rejects.toMatchObject({ userIds: ["ghost"] });
+      expect((await storage.getGroupMembers(group.id)).map(member => member.userId)).toEqual(["ann"]);
+    });
+
+    it("removes members", async () => {
+      const group = await storage.createGroup({ name: "Team", createdBy: "ann" }, ["bob"]);
+
+      await storage.removeGroupMember(group.id, "bob");
+
+      expect((await storage.getGroups("bob"))).toEqual([]);
+      expect((await storage.getGroupMembers(group.id)).map(member => member.userId)).toEqual(["ann"]);
+    });
+  });
+
+  describe("search", () => {
+    it("matches word prefixes in the user's own conversations and groups", async () => {
+      const own = await storage.getOrCreateConversation("ann", "bob");
+      const other = await storage.getOrCreateConversation("bob", "cy");
+      const group = await storage.createGroup({ name: "Team", createdBy: "ann" }, ["cy"]);
+      await send(own.id, "bob", "Lunch on Friday?");
+      await send(own.id, "bob", "Dinner tonight");
+      await send(other.id, "cy", "Lunch without Ann");
+      await storage.createGroupMessage({ groupId: group.id, senderId: "cy", content: "team lunch" });
+
+      const results = await storage.searchMessages("ann", { terms: ["lun"] });
+
+      expect(results.map(result => result.message.content).sort()).toEqual(["Lunch on Friday?", "team lunch"]);
+      expect(results.find(result => result.groupId === group.id)?.conversationId).toBeNull();
+    });
+  });
+
+  describe("uploads", () => {
+    it("finds an upload by its URL", async () => {
+      await storage.createUpload({
+        id: "up1",
+        ownerId: "ann",
+        url: "/uploads/a.png",
+        storageKey: "a.png",
+        fileName: "a.png",
+        fileSize: 10,
+        media: { mimeType: "image/png" },
+      });
+
+      expect((await storage.getUploadByUrl("/uploads/a.png"))?.ownerId).toBe("ann");
+      expect(await storage.getUploadByUrl("/uploads/b.png")).toBeUndefined();
+    });
+  });
+
+  describe("user events", () => {
+    it("numbers each user's events and pages from a sequence number", async () => {
+      for (const type of ["a", "b", "c"]) {
+        await storage.appendUserEvent("ann", type, {});
+      }
+      await storage.appendUserEvent("bob", "x", {});
+
+      const page = await storage.getUserEvents("ann", 1);
+
+      expect(page.events.map(event => [event.seq, event.type])).toEqual([[2, "b"], [3, "c"]]);
+      expect(page.latestSeq).toBe(3);
+      expect(page.reset).toBe(false);
+    });
+  });
+});
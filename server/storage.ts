@@ -1,206 +1,191 @@
 import {
-  users,
-  conversations,
-  messages,
   type User,
   type UpsertUser,
   type Conversation,
   type ConversationWithUsers,
   type Message,
   type MessageWithSender,
-  type InsertConversation,
+  type MessageThread,
   type InsertMessage,
+  type GroupChat,
+  type GroupChatWithMembers,
+  type GroupMember,
+  type GroupMemberWithUser,
+  type GroupMessage,
+  type GroupMessageWithSender,
+  type InsertGroupChat,
+  type InsertGroupMessage,
+  type RefreshTokenFamily,
+  type MessagePage,
+  type MessagePageOptions,
+  type MessageSearchFilters,
+  type MessageSearchResult,
+  type MessageReceipt,
+  type LinkPreview,
+  type MediaInfo,
+  type Upload,
+  type UploadSession,
+  type UserEvent,
+  type UserEventPage,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, or, and, desc, asc } from "drizzle-orm";
-
+import path from "path";
+import { memoryStorageConfig, storageBackend, type StorageBackend } from "./config/storage";
+import { closeDB, connectDB } from "./config/db";
+import { closePostgres, connectPostgres } from "./db";
+import { assertMigrated } from "./migrations";
+import type { ArchiveRecord } from "./utils/archive";
+import { StorageJournal } from "./utils/journal";
+import { MemoryStorage } from "./memStorage";
+import { PostgresStorage } from "./pgStorage";
+import { MongoStorage } from "./mongoStorage";
+
+/**
+ * The storage contract every backend implements
+ * Routes and auth only ever talk to this, so switching STORAGE_BACKEND
+ * changes where data lives without changing behavior.
+ */
 export interface IStorage {
-  // User operations (required for Replit Auth)
+  // User operations
   getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
   upsertUser(user: UpsertUser): Promise<User>;
   updateUserOnlineStatus(id: string, isOnline: boolean): Promise<void>;
-  
+
+  // Credential operations
+  getUserPasswordHash(userId: string): Promise<string | undefined>;
+  setUserPassword(userId: string, passwordHash: string): Promise<void>;
+
+  // Refresh token family operations
+  createRefreshTokenFamily(family: Pick<RefreshTokenFamily, "id" | "userId" | "currentTokenId" | "userAgent">): Promise<RefreshTokenFamily>;
+  getRefreshTokenFamily(familyId: string): Promise<RefreshTokenFamily | undefined>;
+  rotateRefreshToken(familyId: string, newTokenId: string): Promise<void>;
+  revokeRefreshTokenFamily(familyId: string): Promise<void>;
+  revokeUserRefreshTokenFamilies(userId: string): Promise<void>;
+
   // Conversation operations
   getConversations(userId: string): Promise<ConversationWithUsers[]>;
+  getConversation(conversationId: number): Promise<Conversation | undefined>;
   getOrCreateConversation(participant1Id: string, participant2Id: string): Promise<Conversation>;
-  
+
   // Message operations
-  getMessages(conversationId: number): Promise<MessageWithSender[]>;
-  createMessage(message: InsertMessage): Promise<Message>;
-  markMessagesAsRead(conversationId: number, userId: string): Promise<void>;
-  
+  getMessages(conversationId: number, options?: MessagePageOptions): Promise<MessagePage<MessageWithSender>>;
+  getMessage(messageId: number): Promise<Message | undefined>;
+  getMessageByClientId(senderId: string, clientMessageId: string): Promise<Message | undefined>;
+  getMessageThread(rootId: number, viewerId?: string): Promise<MessageThread | undefined>;
+  // media comes from the upload that fileUrl references
+  createMessage(message: InsertMessage, media?: MediaInfo): Promise<Message>;
+  editMessage(messageId: number, content: string): Promise<Message | undefined>;
+  setMessageLinkPreview(messageId: number, linkPreview: LinkPreview | null): Promise<Message | undefined>;
+  deleteMessageForEveryone(messageId: number): Promise<Message | undefined>;
+  deleteMessageForUser(messageId: number, userId: string): Promise<void>;
+  markMessageDelivered(messageId: number, userId: string): Promise<MessageReceipt | undefined>;
+  markMessagesAsRead(conversationId: number, userId: string, upToMessageId?: number): Promise<number[]>;
+  addMessageReaction(messageId: number, userId: string, emoji: string): Promise<void>;
+  removeMessageReaction(messageId: number, userId: string, emoji: string): Promise<void>;
+
+  // Group operations
+  getGroups(userId: string): Promise<GroupChatWithMembers[]>;
+  getGroup(groupId: number): Promise<GroupChat | undefined>;
+  createGroup(group: InsertGroupChat, memberIds: string[]): Promise<GroupChat>;
+  updateGroup(groupId: number, updates: Partial<Pick<GroupChat, "name" | "description" | "avatar" | "maxUploadSize">>): Promise<GroupChat | undefined>;
+  deleteGroup(groupId: number): Promise<void>;
+  getGroupMembers(groupId: number): Promise<GroupMemberWithUser[]>;
+  addGroupMembers(groupId: number, userIds: string[]): Promise<GroupMember[]>;
+  removeGroupMember(groupId: number, userId: string): Promise<void>;
+
+  // Group message operations
+  getGroupMessages(groupId: number, options?: MessagePageOptions): Promise<MessagePage<GroupMessageWithSender>>;
+  getGroupMessage(messageId: number): Promise<GroupMessage | undefined>;
+  createGroupMessage(message: InsertGroupMessage, media?: MediaInfo): Promise<GroupMessage>;
+  setGroupMessageLinkPreview(messageId: number, linkPreview: LinkPreview | null): Promise<GroupMessage | undefined>;
+  markGroupMessageDelivered(messageId: number, userId: string): Promise<MessageReceipt | undefined>;
+  markGroupMessagesAsRead(groupId: number, userId: string, upToMessageId?: number): Promise<number[]>;
+
   // Search operations
   searchUsers(query: string, currentUserId: string): Promise<User[]>;
+  searchMessages(userId: string, filters: MessageSearchFilters): Promise<MessageSearchResult[]>;
+
+  // Upload operations
+  createUpload(upload: Omit<Upload, "createdAt">): Promise<Upload>;
+  getUploadByUrl(url: string): Promise<Upload | undefined>;
+  createUploadSession(session: Omit<UploadSession, "createdAt" | "receivedParts">): Promise<UploadSession>;
+  getUploadSession(sessionId: string): Promise<UploadSession | undefined>;
+  markUploadPartReceived(sessionId: string, partIndex: number): Promise<UploadSession | undefined>;
+  deleteUploadSession(sessionId: string): Promise<void>;
+
+  // Event log operations
+  appendUserEvent(userId: string, type: string, data: any): Promise<UserEvent>;
+  getUserEvents(userId: string, since?: number, limit?: number): Promise<UserEventPage>;
+
+  // Archive operations, for moving data between backends (see utils/archive)
+  // Records are yielded users, uploads, conversations, messages, groups,
+  // group members, then group messages, each kind in ID order
+  exportRecords(): AsyncIterable<ArchiveRecord>;
+  // Stores a record as archived, apart from its numeric ID; returns the new ID,
+  // or undefined for users and uploads, which keep theirs
+  importRecord(record: ArchiveRecord): Promise<number | undefined>;
 }
 
-export class DatabaseStorage implements IStorage {
-  async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user;
-  }
-
-  async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values(userData)
-      .onConflictDoUpdate({
-        target: users.id,
-        set: {
-          ...userData,
-          updatedAt: new Date(),
-        },
-      })
-      .returning();
-    return user;
-  }
-
-  async updateUserOnlineStatus(id: string, isOnline: boolean): Promise<void> {
-    await db
-      .update(users)
-      .set({
-        isOnline,
-        lastSeen: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(users.id, id));
-  }
-
-  async getConversations(userId: string): Promise<ConversationWithUsers[]> {
-    // First get all conversations for the user
-    const userConversations = await db
-      .select()
-      .from(conversations)
-      .where(
-        or(
-          eq(conversations.participant1Id, userId),
-          eq(conversations.participant2Id, userId)
-        )
-      )
-      .orderBy(desc(conversations.lastMessageAt));
-
-    const result: ConversationWithUsers[] = [];
-
-    for (const conversation of userConversations) {
-      // Get participant details
-      const [participant1] = await db
-        .select()
-        .from(users)
-        .where(eq(users.id, conversation.participant1Id));
-
-      const [participant2] = await db
-        .select()
-        .from(users)
-        .where(eq(users.id, conversation.participant2Id));
-
-      // Get latest messages for this conversation
-      const latestMessages = await db
-        .select()
-        .from(messages)
-        .where(eq(messages.conversationId, conversation.id))
-        .orderBy(desc(messages.createdAt))
-        .limit(1);
-
-      result.push({
-        ...conversation,
-        participant1: participant1 || {} as User,
-        participant2: participant2 || {} as User,
-        messages: latestMessages,
-      });
-    }
-
-    return result;
-  }
-
-  async getOrCreateConversation(participant1Id: string, participant2Id: string): Promise<Conversation> {
-    // Check if conversation already exists
-    const [existing] = await db
-      .select()
-      .from(conversations)
-      .where(
-        or(
-          and(
-            eq(conversations.participant1Id, participant1Id),
-            eq(conversations.participant2Id, participant2Id)
-          ),
-          and(
-            eq(conversations.participant1Id, participant2Id),
-            eq(conversations.participant2Id, participant1Id)
-          )
-        )
+/**
+ * Create the storage for a backend
+ * Database backends connect in connectStorage(), before the first request
+ */
+export function createStorage(backend: StorageBackend): IStorage {
+  switch (backend) {
+    case "postgres":
+      return new PostgresStorage();
+    case "mongo":
+      return new MongoStorage();
+    default:
+      return new MemoryStorage(
+        memoryStorageConfig.dataDir
+          ? new StorageJournal(path.resolve(memoryStorageConfig.dataDir), memoryStorageConfig)
+          : undefined
       );
-
-    if (existing) {
-      return existing;
-    }
-
-    // Create new conversation
-    const [newConversation] = await db
-      .insert(conversations)
-      .values({
-        participant1Id,
-        participant2Id,
-      })
-      .returning();
-
-    return newConversation;
-  }
-
-  async getMessages(conversationId: number): Promise<MessageWithSender[]> {
-    const result = await db
-      .select()
-      .from(messages)
-      .leftJoin(users, eq(messages.senderId, users.id))
-      .where(eq(messages.conversationId, conversationId))
-      .orderBy(asc(messages.createdAt));
-
-    return result.map(row => ({
-      ...row.messages!,
-      sender: row.users!,
-    }));
-  }
-
-  async createMessage(message: InsertMessage): Promise<Message> {
-    const [newMessage] = await db
-      .insert(messages)
-      .values(message)
-      .returning();
-
-    // Update conversation's lastMessageAt
-    await db
-      .update(conversations)
-      .set({ lastMessageAt: new Date() })
-      .where(eq(conversations.id, message.conversationId));
-
-    return newMessage;
   }
+}
 
-  async markMessagesAsRead(conversationId: number, userId: string): Promise<void> {
-    await db
-      .update(messages)
-      .set({ isRead: true })
-      .where(
-        and(
-          eq(messages.conversationId, conversationId),
-          eq(messages.senderId, userId)
-        )
-      );
+/**
+ * Connect to the configured backend's database, if it has one
+ * Memory storage loads whatever its journal kept instead
+ * @param options.checkMigrations - Refuse a database with pending migrations (default true)
+ */
+export async function connectStorage(options: { checkMigrations?: boolean } = {}): Promise<void> {
+  const { checkMigrations = true } = options;
+
+  switch (storageBackend) {
+    case "postgres":
+      await connectPostgres();
+      if (checkMigrations) await assertMigrated("postgres");
+      break;
+    case "mongo":
+      await connectDB();
+      if (checkMigrations) await assertMigrated("mongo");
+      break;
+    default:
+      if (storage instanceof MemoryStorage) {
+        await storage.restore();
+      }
   }
+}
 
-  async searchUsers(query: string, currentUserId: string): Promise<User[]> {
-    const result = await db
-      .select()
-      .from(users)
-      .where(
-        or(
-          eq(users.firstName, query),
-          eq(users.lastName, query),
-          eq(users.email, query)
-        )
-      )
-      .limit(10);
-
-    return result.filter(user => user.id !== currentUserId);
+/**
+ * Flush and close the configured backend, before the process exits
+ */
+export async function closeStorage(): Promise<void> {
+  switch (storageBackend) {
+    case "postgres":
+      await closePostgres();
+      break;
+    case "mongo":
+      await closeDB();
+      break;
+    default:
+      if (storage instanceof MemoryStorage) {
+        await storage.close();
+      }
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage(storageBackend);
@@ -0,0 +1,51 @@
+import { memoryStorageConfig, storageBackend } from "./config/storage";
+import { closeStorage, connectStorage, storage } from "./storage";
+import { exportArchive, importArchive, type ArchiveCounts } from "./utils/archive";
+
+/**
+ * Export the configured STORAGE_BACKEND to a data archive, or import one into it
+ * Usage: tsx server/transfer.ts export|import <file.jsonl[.gz]>
+ * (npm run data:export / npm run data:import)
+ *
+ * To move between backends, export with one STORAGE_BACKEND and import with
+ * another. Import into an empty database: importing the same archive twice
+ * duplicates its conversations and groups. Stop the server first when using
+ * memory storage, since both would write the same journal.
+ */
+
+const COMMANDS = ["export", "import"];
+
+function describe(counts: ArchiveCounts): string {
+  return Object.keys(counts)
+    .map((kind) => `${counts[kind as keyof ArchiveCounts]} ${kind}`)
+    .join(", ") || "nothing";
+}
+
+(async () => {
+  const [command, filePath] = process.argv.slice(2);
+  if (!COMMANDS.includes(command) || !filePath) {
+    console.error(`Usage: tsx server/transfer.ts ${COMMANDS.join("|")} <file.jsonl[.gz]>`);
+    process.exit(1);
+  }
+
+  if (storageBackend === "memory" && !memoryStorageConfig.dataDir) {
+    console.error("Memory storage keeps nothing without MEMORY_STORAGE_DIR; set it to export or import");
+    process.exit(1);
+  }
+
+  await connectStorage();
+  try {
+    if (command === "export") {
+      const counts = await exportArchive(storage, filePath, storageBackend);
+      console.log(`Exported ${describe(counts)} from ${storageBackend} storage to ${filePath}`);
+    } else {
+      const counts = await importArchive(storage, filePath);
+      console.log(`Imported ${describe(counts)} from ${filePath} into ${storageBackend} storage`);
+    }
+  } finally {
+    await closeStorage();
+  }
+})().catch((error) => {
+  console.error("Transfer failed:", error);
+  process.exit(1);
+});
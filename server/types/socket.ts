@@ -5,6 +5,8 @@
 
 /**
  * Events sent from server to client
+ * Events with a seq are also kept in the user's event log; seq increases by
+ * one per event, so a gap means the client missed something and should sync
  */
 export interface ServerToClientEvents {
   // New message received
@@ -12,6 +14,7 @@ export interface ServerToClientEvents {
 
   // Message reaction added or removed
   messageReaction: (data: {
+    seq: number;
     messageId: string;
     conversationId: string;
     reaction: {
@@ -21,32 +24,82 @@ export interface ServerToClientEvents {
     };
   }) => void;
 
+  // Message content edited by its sender
+  messageEdited: (data: { seq: number; conversationId: string; message: any }) => void;
+
+  // Preview of a message's first link, fetched after the message was sent
+  linkPreview: (data: {
+    seq: number;
+    messageId: string;
+    conversationId?: string;
+    groupId?: string;
+    linkPreview: { url: string; title?: string; description?: string; imageUrl?: string; siteName?: string };
+  }) => void;
+
+  // Message deleted for everyone, or for the receiving user only
+  messageDeleted: (data: {
+    seq: number;
+    messageId: string;
+    conversationId: string;
+    scope: 'me' | 'everyone';
+  }) => void;
+
   // User online/offline status changed
   userStatus: (data: { userId: string; isOnline: boolean; lastSeen: Date }) => void;
 
   // User is typing
   typing: (data: { userId: string; conversationId: string; isTyping: boolean }) => void;
 
-  // Message marked as read
-  messageRead: (data: { messageId: string; conversationId: string; userId: string }) => void;
+  // Message acknowledged by one of the recipient's devices; sent to the sender only
+  messageDelivered: (data: {
+    seq: number;
+    messageId: string;
+    conversationId?: string;
+    groupId?: string;
+    userId: string;
+    deliveredAt: string;
+  }) => void;
+
+  // Messages read by a recipient, sent to the whole conversation/group
+  messageRead: (data: {
+    seq: number;
+    messageIds: string[];
+    conversationId?: string;
+    groupId?: string;
+    userId: string;
+    readAt: string;
+  }) => void;
 
-  // Group updated (member added/removed/group deleted)
-  groupUpdate: (data: { groupId: string; action: string; data: any }) => void;
+  // New message posted to a group the user belongs to
+  // Clients acknowledge it to mark it delivered
+  groupMessage: (data: { seq: number; groupId: string; message: any }) => void;
+
+  // Group updated (created/updated/member added/removed/group deleted)
+  groupUpdate: (data: { seq: number; groupId: string; action: string; data: any }) => void;
 }
 
 /**
  * Events sent from client to server
  */
 export interface ClientToServerEvents {
-  // Authenticate socket connection with user ID
-  auth: (data: { userId: string }) => void;
-
   // User is typing in conversation/group
-  typing: (data: { conversationId: string; isTyping: boolean }) => void;
+  // The user ID comes from the authenticated handshake, never from the payload
+  typing: (data: { conversationId?: string; groupId?: string; isTyping: boolean }) => void;
 
   // User stopped typing
   stopTyping: (data: { conversationId: string }) => void;
 
-  // User read a message
-  messageRead: (data: { messageId: string; conversationId: string }) => void;
+  // User read everything up to and including a message
+  messageRead: (data: { messageId: string; conversationId?: string; groupId?: string }) => void;
+
+  // Fetch the events logged after seq `since`; without it, just the latest seq
+  sync: (
+    data: { since?: number },
+    callback: (page: {
+      events: { seq: number; type: string; data: any; createdAt: Date }[];
+      latestSeq: number;
+      hasMore: boolean;
+      reset: boolean;
+    }) => void
+  ) => void;
 }
@@ -0,0 +1,197 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { once } from 'events';
+import readline from 'readline';
+import type { Readable, Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import type {
+  Conversation,
+  GroupChat,
+  GroupMember,
+  GroupMessage,
+  Message,
+  Upload,
+  User,
+} from '@shared/schema';
+import type { IStorage } from '../storage';
+import { parseWithDates, stringifyWithDates } from './json';
+
+/**
+ * Versioned archive of users, conversations, groups and messages, for
+ * moving data between storage backends
+ *
+ * An archive is JSONL (gzipped when the file name ends in .gz): a header
+ * line, then one record per line. Records come in an order where each only
+ * refers to records before it, so an import can assign new numeric IDs as it
+ * goes. Reactions, receipts and edits travel inside their messages.
+ * Attachments are exported as metadata only; their files stay wherever the
+ * uploads were stored. Refresh tokens, upload sessions and the event log are
+ * left out, so users sign in again after an import.
+ */
+
+export const ARCHIVE_FORMAT = 'connect-archive';
+export const ARCHIVE_VERSION = 1;
+
+// Rows read from a database per query while exporting
+export const EXPORT_BATCH_SIZE = 500;
+
+export interface ArchiveHeader {
+  kind: 'header';
+  format: string;
+  version: number;
+  backend: string;
+  exportedAt: Date;
+}
+
+export type ArchiveRecord =
+  | { kind: 'user'; record: User; passwordHash: string | null }
+  | { kind: 'upload'; record: Upload }
+  | { kind: 'conversation'; record: Conversation }
+  | { kind: 'message'; record: Message }
+  | { kind: 'group'; record: GroupChat }
+  | { kind: 'groupMember'; record: GroupMember }
+  | { kind: 'groupMessage'; record: GroupMessage };
+
+export type ArchiveKind = ArchiveRecord['kind'];
+export type ArchiveCounts = Partial<Record<ArchiveKind, number>>;
+
+function isGzipped(filePath: string): boolean {
+  return filePath.endsWith('.gz');
+}
+
+/**
+ * Write every record in storage to an archive file
+ * @param backend - Name of the backend, recorded in the header
+ * @returns Number of records written, by kind
+ */
+export async function exportArchive(storage: IStorage, filePath: string, backend: string): Promise<ArchiveCounts> {
+  const file = createWriteStream(filePath);
+  let output: Writable = file;
+  if (isGzipped(filePath)) {
+    output = createGzip();
+    output.pipe(file);
+  }
+
+  const write = async (line: unknown) => {
+    // Wait for the file to catch up rather than buffering a whole history
+    if (!output.write(stringifyWithDates(line) + '\n')) {
+      await once(output, 'drain');
+    }
+  };
+
+  const header: ArchiveHeader = {
+    kind: 'header',
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    backend,
+    exportedAt: new Date(),
+  };
+  await write(header);
+
+  const counts: ArchiveCounts = {};
+  for await (const record of storage.exportRecords()) {
+    await write(record);
+    counts[record.kind] = (counts[record.kind] || 0) + 1;
+  }
+
+  output.end();
+  await finished(file);
+  return counts;
+}
+
+/**
+ * Load an archive into storage
+ * Conversations, messages, groups and memberships get new IDs from the
+ * target backend, and references between them are rewritten to match.
+ * @returns Number of records imported, by kind
+ */
+export async function importArchive(storage: IStorage, filePath: string): Promise<ArchiveCounts> {
+  const file = createReadStream(filePath);
+  const input: Readable = isGzipped(filePath) ? file.pipe(createGunzip()) : file;
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  // Archived ID -> ID in the target backend
+  const conversationIds = new Map<number, number>();
+  const messageIds = new Map<number, number>();
+  const groupIds = new Map<number, number>();
+
+  const counts: ArchiveCounts = {};
+  let lineNumber = 0;
+  let header: ArchiveHeader | undefined;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    let entry: ArchiveHeader | ArchiveRecord;
+    try {
+      entry = parseWithDates(line);
+    } catch {
+      throw new Error(`Line ${lineNumber} of ${filePath} is not valid JSON`);
+    }
+    if (!header) {
+      header = checkHeader(entry);
+      continue;
+    }
+    if (entry.kind === 'header') {
+      throw new Error(`Unexpected second header at line ${lineNumber}`);
+    }
+
+    const remap = (ids: Map<number, number>, id: number | null, what: string): number | null => {
+      if (id === null) return null;
+      const mapped = ids.get(id);
+      if (mapped === undefined) {
+        throw new Error(`Line ${lineNumber} refers to ${what} ${id}, which is not earlier in the archive`);
+      }
+      return mapped;
+    };
+
+    switch (entry.kind) {
+      case 'conversation':
+        conversationIds.set(entry.record.id, (await storage.importRecord(entry))!);
+        break;
+      case 'message': {
+        const record: Message = {
+          ...entry.record,
+          conversationId: remap(conversationIds, entry.record.conversationId, 'conversation')!,
+          replyToId: remap(messageIds, entry.record.replyToId, 'message'),
+          threadRootId: remap(messageIds, entry.record.threadRootId, 'message'),
+        };
+        messageIds.set(entry.record.id, (await storage.importRecord({ kind: 'message', record }))!);
+        break;
+      }
+      case 'group':
+        groupIds.set(entry.record.id, (await storage.importRecord(entry))!);
+        break;
+      case 'groupMember':
+      case 'groupMessage':
+        await storage.importRecord({
+          ...entry,
+          record: { ...entry.record, groupId: remap(groupIds, entry.record.groupId, 'group')! },
+        } as ArchiveRecord);
+        break;
+      case 'user':
+      case 'upload':
+        await storage.importRecord(entry);
+        break;
+      default:
+        throw new Error(`Unknown record kind "${(entry as { kind: string }).kind}" at line ${lineNumber}`);
+    }
+    counts[entry.kind] = (counts[entry.kind] || 0) + 1;
+  }
+
+  if (!header) {
+    throw new Error(`${filePath} is empty`);
+  }
+  return counts;
+}
+
+function checkHeader(entry: ArchiveHeader | ArchiveRecord): ArchiveHeader {
+  if (entry.kind !== 'header' || entry.format !== ARCHIVE_FORMAT) {
+    throw new Error('Not a data archive: the first line must be its header');
+  }
+  if (entry.version > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${entry.version} is newer than this server understands (${ARCHIVE_VERSION})`);
+  }
+  return entry;
+}
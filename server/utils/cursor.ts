@@ -0,0 +1,86 @@
+import type { MessagePage, MessagePageOptions } from '@shared/schema';
+
+/**
+ * Opaque pagination cursor for message lists
+ * Orders by createdAt, then by id to break ties between messages created
+ * in the same millisecond
+ */
+export interface MessageCursor {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Encode a message position as a URL-safe cursor
+ * @param createdAt - Message creation time
+ * @param id - Message ID (numeric or ObjectId)
+ * @returns Cursor string
+ */
+export function encodeCursor(createdAt: Date, id: string | number): string {
+  return Buffer.from(`${createdAt.getTime()}:${id}`).toString('base64url');
+}
+
+/**
+ * Decode a cursor created by encodeCursor
+ * @param cursor - Cursor string
+ * @returns Decoded cursor or null if malformed
+ */
+export function decodeCursor(cursor: string): MessageCursor | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator === -1) return null;
+
+  const time = Number(decoded.slice(0, separator));
+  const id = decoded.slice(separator + 1);
+  if (!Number.isFinite(time) || !id) return null;
+
+  return { createdAt: new Date(time), id };
+}
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Parse before/after/limit query parameters into storage page options
+ * @param query - Request query
+ * @returns Page options, or null if a parameter is invalid
+ */
+export function parsePageQuery(query: Record<string, unknown>): MessagePageOptions | null {
+  const options: MessagePageOptions = {};
+
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1) return null;
+    options.limit = Math.min(limit, MAX_PAGE_SIZE);
+  }
+
+  for (const key of ['before', 'after'] as const) {
+    if (query[key] === undefined) continue;
+    if (typeof query[key] !== 'string') return null;
+
+    const cursor = decodeCursor(query[key] as string);
+    const id = cursor ? Number(cursor.id) : NaN;
+    if (!cursor || !Number.isInteger(id)) return null;
+
+    options[key] = { createdAt: cursor.createdAt, id };
+  }
+
+  if (options.before && options.after) return null;
+
+  return options;
+}
+
+/**
+ * Build the response body for a page of messages
+ * startCursor pages to older messages (before), endCursor to newer ones (after)
+ */
+export function toPageResponse<T extends { id: number; createdAt: Date | null }>(page: MessagePage<T>) {
+  const first = page.messages[0];
+  const last = page.messages[page.messages.length - 1];
+
+  return {
+    messages: page.messages,
+    hasMore: page.hasMore,
+    startCursor: first ? encodeCursor(first.createdAt || new Date(0), first.id) : null,
+    endCursor: last ? encodeCursor(last.createdAt || new Date(0), last.id) : null,
+  };
+}
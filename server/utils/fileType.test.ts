@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { contentMatchesType, extensionForType } from "./fileType";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+const PDF = Buffer.from("%PDF-1.7\n");
+const ZIP = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+const ELF = Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01]);
+
+function windowsExecutable(): Buffer {
+  const data = Buffer.alloc(0x80);
+  data.write("MZ", 0, "ascii");
+  data.writeUInt32LE(0x40, 0x3c);
+  data.write("PE\0\0", 0x40, "binary");
+  return data;
+}
+
+describe("contentMatchesType", () => {
+  it("accepts content of the declared type", () => {
+    expect(contentMatchesType(PNG, "image/png")).toBe(true);
+    expect(contentMatchesType(PDF, "application/pdf")).toBe(true);
+    expect(contentMatchesType(ZIP, "application/vnd.openxmlformats-officedocument.wordprocessingml.document")).toBe(true);
+    expect(contentMatchesType(Buffer.from("a,b\n1,2\n"), "text/csv")).toBe(true);
+  });
+
+  it("ignores the case of the declared type", () => {
+    expect(contentMatchesType(PNG, "IMAGE/PNG")).toBe(true);
+  });
+
+  it("refuses content of another known type", () => {
+    expect(contentMatchesType(PNG, "application/pdf")).toBe(false);
+    expect(contentMatchesType(PDF, "image/jpeg")).toBe(false);
+    expect(contentMatchesType(ZIP, "text/plain")).toBe(false);
+  });
+
+  it("refuses executables whatever they are labeled as", () => {
+    expect(contentMatchesType(ELF, "application/octet-stream")).toBe(false);
+    expect(contentMatchesType(windowsExecutable(), "text/plain")).toBe(false);
+    expect(contentMatchesType(Buffer.from("#!/bin/sh\nrm -rf /\n"), "text/plain")).toBe(false);
+  });
+
+  it("only takes unrecognized content as text when it has no NUL bytes", () => {
+    expect(contentMatchesType(Buffer.from("MZ is a plain word here"), "text/plain")).toBe(true);
+    expect(contentMatchesType(Buffer.from([0x41, 0x00, 0x42]), "text/plain")).toBe(false);
+  });
+
+  it("refuses unrecognized content labeled as anything but text", () => {
+    expect(contentMatchesType(Buffer.from("<html><script>alert(1)</script>"), "text/html")).toBe(false);
+    expect(contentMatchesType(Buffer.from("<svg onload=alert(1)>"), "image/svg+xml")).toBe(false);
+    expect(contentMatchesType(Buffer.from("hello"), "image/png")).toBe(false);
+  });
+});
+
+describe("extensionForType", () => {
+  it("gives the extension of a checked type", () => {
+    expect(extensionForType("image/jpeg")).toBe("jpg");
+    expect(extensionForType("Text/Plain")).toBe("txt");
+  });
+
+  it("gives none for types a browser might render", () => {
+    expect(extensionForType("text/html")).toBeUndefined();
+    expect(extensionForType("image/svg+xml")).toBeUndefined();
+    expect(extensionForType("application/xml")).toBeUndefined();
+  });
+});
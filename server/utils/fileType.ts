@@ -0,0 +1,189 @@
+import { mimeTypeMatches } from '../config/uploadPolicy';
+
+/**
+ * Magic-byte signatures of the file types we accept
+ * Each lists the declared MIME types (or families) that content may be labeled as
+ */
+interface Signature {
+  offset: number;
+  bytes: number[];
+  // Further bytes that must match, e.g. the format name inside a RIFF header
+  subtype?: { offset: number; bytes: number[] };
+  types: string[];
+}
+
+const ascii = (text: string) => text.split('').map((char) => char.charCodeAt(0));
+
+const SIGNATURES: Signature[] = [
+  { offset: 0, bytes: [0xff, 0xd8, 0xff], types: ['image/jpeg', 'image/pjpeg'] },
+  { offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], types: ['image/png', 'image/apng'] },
+  { offset: 0, bytes: ascii('GIF8'), types: ['image/gif'] },
+  { offset: 0, bytes: ascii('BM'), subtype: { offset: 6, bytes: [0, 0, 0, 0] }, types: ['image/bmp', 'image/x-ms-bmp'] },
+  { offset: 0, bytes: [0x49, 0x49, 0x2a, 0x00], types: ['image/tiff'] },
+  { offset: 0, bytes: [0x4d, 0x4d, 0x00, 0x2a], types: ['image/tiff'] },
+  { offset: 0, bytes: ascii('RIFF'), subtype: { offset: 8, bytes: ascii('WEBP') }, types: ['image/webp'] },
+  { offset: 0, bytes: ascii('RIFF'), subtype: { offset: 8, bytes: ascii('WAVE') }, types: ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'] },
+  { offset: 0, bytes: ascii('RIFF'), subtype: { offset: 8, bytes: ascii('AVI ') }, types: ['video/x-msvideo', 'video/avi'] },
+  // ISO base media: MP4, MOV, M4A, 3GP, AVIF, HEIC
+  { offset: 4, bytes: ascii('ftyp'), types: ['video/*', 'audio/mp4', 'audio/x-m4a', 'audio/m4a', 'image/avif', 'image/heic', 'image/heif'] },
+  { offset: 0, bytes: [0x00, 0x00, 0x01, 0xba], types: ['video/mpeg'] },
+  { offset: 0, bytes: [0x00, 0x00, 0x01, 0xb3], types: ['video/mpeg'] },
+  { offset: 0, bytes: ascii('FORM'), subtype: { offset: 8, bytes: ascii('AIFF') }, types: ['audio/aiff', 'audio/x-aiff'] },
+  { offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3], types: ['video/webm', 'audio/webm', 'video/x-matroska'] },
+  { offset: 0, bytes: ascii('OggS'), types: ['audio/ogg', 'audio/opus', 'video/ogg', 'application/ogg'] },
+  { offset: 0, bytes: ascii('fLaC'), types: ['audio/flac', 'audio/x-flac'] },
+  { offset: 0, bytes: ascii('ID3'), types: ['audio/mpeg', 'audio/mp3'] },
+  { offset: 0, bytes: [0xff, 0xfb], types: ['audio/mpeg', 'audio/mp3'] },
+  { offset: 0, bytes: [0xff, 0xf3], types: ['audio/mpeg', 'audio/mp3'] },
+  { offset: 0, bytes: [0xff, 0xf2], types: ['audio/mpeg', 'audio/mp3'] },
+  { offset: 0, bytes: [0xff, 0xf1], types: ['audio/aac'] },
+  { offset: 0, bytes: [0xff, 0xf9], types: ['audio/aac'] },
+  { offset: 0, bytes: ascii('%PDF-'), types: ['application/pdf'] },
+  // ZIP, and the document formats built on it
+  {
+    offset: 0,
+    bytes: [0x50, 0x4b, 0x03, 0x04],
+    types: [
+      'application/zip',
+      'application/x-zip-compressed',
+      'application/epub+zip',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+  },
+  // Legacy Office documents
+  {
+    offset: 0,
+    bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+    types: ['application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint'],
+  },
+  { offset: 0, bytes: ascii('Rar!'), types: ['application/vnd.rar', 'application/x-rar-compressed'] },
+  { offset: 0, bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], types: ['application/x-7z-compressed'] },
+  { offset: 0, bytes: [0x1f, 0x8b], types: ['application/gzip', 'application/x-gzip'] },
+];
+
+// Programs are refused whatever they are labeled as
+const EXECUTABLE_SIGNATURES: number[][] = [
+  [0x7f, 0x45, 0x4c, 0x46], // ELF
+  [0xfe, 0xed, 0xfa, 0xce], // Mach-O
+  [0xfe, 0xed, 0xfa, 0xcf],
+  [0xce, 0xfa, 0xed, 0xfe],
+  [0xcf, 0xfa, 0xed, 0xfe],
+  ascii('#!'), // Scripts
+];
+
+// Formats without a signature, accepted when the content looks like text
+const TEXT_TYPES = ['text/plain', 'text/csv'];
+const TEXT_SNIFF_BYTES = 8192;
+
+function startsWith(data: Buffer, bytes: number[], offset = 0): boolean {
+  if (data.length < offset + bytes.length) return false;
+  return bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+function isExecutable(data: Buffer): boolean {
+  if (EXECUTABLE_SIGNATURES.some((bytes) => startsWith(data, bytes))) return true;
+
+  // Windows PE: "MZ" header pointing at a "PE\0\0" header; "MZ" alone is common in text
+  if (startsWith(data, ascii('MZ')) && data.length >= 0x40) {
+    return startsWith(data, [0x50, 0x45, 0x00, 0x00], data.readUInt32LE(0x3c));
+  }
+  return false;
+}
+
+/**
+ * Check that a file's content is consistent with its declared MIME type
+ * @param data - File contents
+ * @param mimeType - MIME type reported by the client
+ * @returns False for executables, for content of a different known format,
+ *   and for unrecognized content that isn't plain text
+ */
+export function contentMatchesType(data: Buffer, mimeType: string): boolean {
+  const type = mimeType.toLowerCase();
+
+  if (isExecutable(data)) {
+    return false;
+  }
+
+  const signature = SIGNATURES.find((sig) =>
+    startsWith(data, sig.bytes, sig.offset) &&
+    (!sig.subtype || startsWith(data, sig.subtype.bytes, sig.subtype.offset))
+  );
+  if (signature) {
+    return signature.types.some((pattern) => mimeTypeMatches(type, pattern));
+  }
+
+  // Binary content has NUL bytes early on; text doesn't
+  return TEXT_TYPES.includes(type) && !data.subarray(0, TEXT_SNIFF_BYTES).includes(0);
+}
+
+// Extensions stored files are given, by the MIME type their content was checked against
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/pjpeg': 'jpg',
+  'image/png': 'png',
+  'image/apng': 'png',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/x-ms-bmp': 'bmp',
+  'image/tiff': 'tiff',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/vnd.wave': 'wav',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/aiff': 'aiff',
+  'audio/x-aiff': 'aiff',
+  'audio/webm': 'weba',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'opus',
+  'audio/flac': 'flac',
+  'audio/x-flac': 'flac',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/aac': 'aac',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/3gpp': '3gp',
+  'video/x-msvideo': 'avi',
+  'video/avi': 'avi',
+  'video/mpeg': 'mpeg',
+  'video/webm': 'webm',
+  'video/x-matroska': 'mkv',
+  'video/ogg': 'ogv',
+  'application/ogg': 'ogx',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip',
+  'application/epub+zip': 'epub',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/msword': 'doc',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.ms-powerpoint': 'ppt',
+  'application/vnd.rar': 'rar',
+  'application/x-rar-compressed': 'rar',
+  'application/x-7z-compressed': '7z',
+  'application/gzip': 'gz',
+  'application/x-gzip': 'gz',
+  'text/plain': 'txt',
+  'text/csv': 'csv',
+};
+
+/**
+ * Extension to store a file under, chosen from its checked MIME type rather
+ * than the client's file name, so a stored file is never served as a type
+ * the browser would render or run
+ * @returns The extension without a dot, or undefined for other types
+ */
+export function extensionForType(mimeType: string): string | undefined {
+  return EXTENSIONS[mimeType.toLowerCase()];
+}
@@ -0,0 +1,255 @@
+import { createReadStream, createWriteStream, promises as fs, type WriteStream } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { parseWithDates, stringifyWithDates } from './json';
+
+/**
+ * Append-only journal with periodic snapshots, used to keep MemoryStorage
+ * across restarts
+ *
+ * Every change is a whole record written or removed, so replaying an entry
+ * twice gives the same result as replaying it once. The data directory holds:
+ *   snapshot.json          - every record as of some generation
+ *   journal-<gen>.jsonl    - changes made since that generation, one per line
+ * Compaction starts a new journal generation, writes a snapshot of it and
+ * then removes the older journals. A crash at any point leaves a snapshot
+ * plus journals that replay to the latest state.
+ */
+
+const SNAPSHOT_VERSION = 1;
+const SNAPSHOT_FILE = 'snapshot.json';
+const JOURNAL_FILE = /^journal-(\d+)\.jsonl$/;
+
+export type RecordKey = string | number;
+
+// A record written to a table; without a value the record was removed
+export interface JournalEntry {
+  table: string;
+  key: RecordKey;
+  value?: unknown;
+}
+
+export interface JournalState {
+  tables: Record<string, Array<[RecordKey, unknown]>>;
+  // Next IDs handed out, kept so IDs of removed records are not reused
+  sequences: Record<string, number>;
+}
+
+interface Snapshot extends JournalState {
+  version: number;
+  generation: number;
+  createdAt: string;
+}
+
+export interface JournalOptions {
+  snapshotIntervalMs: number;
+  maxJournalEntries: number;
+}
+
+export class StorageJournal {
+  private generation = 0;
+  private stream: WriteStream | null = null;
+  private entryCount = 0;
+  private replayedEntries = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private compacting: Promise<void> | null = null;
+  private dump: (() => JournalState) | null = null;
+
+  constructor(
+    private dir: string,
+    private options: JournalOptions,
+  ) {}
+
+  /**
+   * Feed the latest snapshot and every journal after it to `apply`, in order
+   * @returns Sequences saved with the snapshot
+   */
+  async replay(apply: (entry: JournalEntry) => void): Promise<Record<string, number>> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    let sequences: Record<string, number> = {};
+    const snapshot = await this.readSnapshot();
+    if (snapshot) {
+      this.generation = snapshot.generation;
+      sequences = snapshot.sequences;
+      Object.keys(snapshot.tables).forEach((table) => {
+        snapshot.tables[table].forEach(([key, value]) => apply({ table, key, value }));
+      });
+    }
+
+    for (const generation of await this.journalGenerations()) {
+      if (generation < this.generation) continue;
+      await this.readJournal(generation, apply);
+      this.generation = generation;
+    }
+
+    return sequences;
+  }
+
+  /**
+   * Start journaling changes and taking periodic snapshots
+   * @param dump - Returns every record, for snapshots
+   */
+  start(dump: () => JournalState): void {
+    this.dump = dump;
+
+    // Never append to a replayed journal: its last line may be cut off
+    this.openJournal(this.generation + 1);
+    if (this.replayedEntries > 0) this.compact();
+
+    this.timer = setInterval(() => {
+      if (this.entryCount > 0) this.compact();
+    }, this.options.snapshotIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Record a change; written in order, without waiting for the disk
+   */
+  append(entry: JournalEntry): void {
+    if (!this.stream) return;
+
+    this.stream.write(stringifyWithDates(entry) + '\n');
+    this.entryCount++;
+
+    if (this.entryCount >= this.options.maxJournalEntries) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Snapshot the current state and drop the journals it replaces
+   * Only one compaction runs at a time; a request during one joins it
+   */
+  compact(): Promise<void> {
+    if (!this.compacting) {
+      this.compacting = this.writeSnapshot()
+        .catch((error) => console.error('Error compacting storage journal:', error))
+        .finally(() => {
+          this.compacting = null;
+        });
+    }
+    return this.compacting;
+  }
+
+  /**
+   * Take a final snapshot and stop journaling
+   */
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (!this.stream) return;
+
+    await this.compact();
+    await this.closeJournal(this.stream);
+    this.stream = null;
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    if (!this.dump || !this.stream) return;
+
+    // Switch journals and read the state together, so every change lands
+    // either in the snapshot or in the new journal
+    const previous = this.stream;
+    const generation = this.generation + 1;
+    this.openJournal(generation);
+    const snapshot: Snapshot = {
+      version: SNAPSHOT_VERSION,
+      generation,
+      createdAt: new Date().toISOString(),
+      ...this.dump(),
+    };
+    const text = stringifyWithDates(snapshot);
+    await this.closeJournal(previous);
+
+    // Write then rename, so a snapshot cut off mid-write never replaces a whole one
+    const snapshotPath = path.join(this.dir, SNAPSHOT_FILE);
+    const handle = await fs.open(`${snapshotPath}.tmp`, 'w');
+    try {
+      await handle.writeFile(text);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(`${snapshotPath}.tmp`, snapshotPath);
+
+    for (const old of await this.journalGenerations()) {
+      if (old < generation) await fs.rm(this.journalPath(old), { force: true });
+    }
+  }
+
+  private async readSnapshot(): Promise<Snapshot | null> {
+    let text: string;
+    try {
+      text = await fs.readFile(path.join(this.dir, SNAPSHOT_FILE), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const snapshot: Snapshot = parseWithDates(text);
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported storage snapshot version ${snapshot.version} in ${this.dir}`);
+    }
+    return snapshot;
+  }
+
+  private async readJournal(generation: number, apply: (entry: JournalEntry) => void): Promise<void> {
+    const lines = readline.createInterface({
+      input: createReadStream(this.journalPath(generation), 'utf8'),
+      crlfDelay: Infinity,
+    });
+
+    let lineNumber = 0;
+    let unreadable: number | null = null;
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line) continue;
+
+      // Only the last line can be cut off by a crash; anything earlier is corruption
+      if (unreadable !== null) {
+        throw new Error(`Unreadable entry at line ${unreadable} of ${this.journalPath(generation)}`);
+      }
+
+      let entry: JournalEntry;
+      try {
+        entry = parseWithDates(line);
+      } catch {
+        unreadable = lineNumber;
+        continue;
+      }
+      apply(entry);
+      this.replayedEntries++;
+    }
+
+    if (unreadable !== null) {
+      console.warn(`Ignoring incomplete last entry of ${this.journalPath(generation)}`);
+    }
+  }
+
+  private async journalGenerations(): Promise<number[]> {
+    const files = await fs.readdir(this.dir);
+    return files
+      .map((file) => JOURNAL_FILE.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => Number(match[1]))
+      .sort((a, b) => a - b);
+  }
+
+  private openJournal(generation: number): void {
+    this.generation = generation;
+    this.entryCount = 0;
+    this.stream = createWriteStream(this.journalPath(generation), { flags: 'a' });
+    this.stream.on('error', (error) => console.error('Error writing storage journal:', error));
+  }
+
+  private closeJournal(stream: WriteStream): Promise<void> {
+    return new Promise((resolve) => stream.end(resolve));
+  }
+
+  private journalPath(generation: number): string {
+    return path.join(this.dir, `journal-${generation}.jsonl`);
+  }
+}
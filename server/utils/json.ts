@@ -0,0 +1,25 @@
+/**
+ * JSON that keeps Dates
+ * Dates are written as { "$date": "<ISO string>" }, as in MongoDB extended
+ * JSON, and read back as Dates.
+ */
+
+function replacer(this: any, key: string, value: unknown) {
+  // By the time the replacer runs, toJSON has already turned Dates into strings
+  const original = this[key];
+  return original instanceof Date ? { $date: original.toISOString() } : value;
+}
+
+function reviver(_key: string, value: any) {
+  return value && typeof value === 'object' && typeof value.$date === 'string' && Object.keys(value).length === 1
+    ? new Date(value.$date)
+    : value;
+}
+
+export function stringifyWithDates(value: unknown): string {
+  return JSON.stringify(value, replacer);
+}
+
+export function parseWithDates<T = any>(text: string): T {
+  return JSON.parse(text, reviver);
+}
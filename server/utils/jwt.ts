@@ -1,24 +1,23 @@
 import jwt from 'jsonwebtoken';
-
-// JWT secrets from environment variables
-const JWT_ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || 'your-access-secret-key-here';
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key-here';
+import { jwtConfig } from '../config/auth';
 
 /**
  * Generate JWT access token
  * Expires in 1 hour
  * @param userId - User ID
  * @param email - User email
+ * @param familyId - Refresh token family (login session) the token belongs to
  * @returns JWT access token
  */
-export function generateAccessToken(userId: string, email: string): string {
+export function generateAccessToken(userId: string, email: string, familyId: string): string {
   return jwt.sign(
     {
       userId,
       email,
+      familyId,
       type: 'access',
     },
-    JWT_ACCESS_SECRET,
+    jwtConfig.accessSecret,
     {
       expiresIn: '1h', // 1 hour
     }
@@ -29,15 +28,19 @@ export function generateAccessToken(userId: string, email: string): string {
  * Generate JWT refresh token
  * Expires in 7 days
  * @param userId - User ID
+ * @param familyId - Token family, one per login on a device
+ * @param tokenId - Unique ID of this token within the family
  * @returns JWT refresh token
  */
-export function generateRefreshToken(userId: string): string {
+export function generateRefreshToken(userId: string, familyId: string, tokenId: string): string {
   return jwt.sign(
     {
       userId,
+      familyId,
+      tokenId,
       type: 'refresh',
     },
-    JWT_REFRESH_SECRET,
+    jwtConfig.refreshSecret,
     {
       expiresIn: '7d', // 7 days
     }
@@ -50,11 +53,17 @@ export function generateRefreshToken(userId: string): string {
  * @returns Decoded token payload
  * @throws Error if token is invalid or expired
  */
-export function verifyAccessToken(token: string): { userId: string; email: string; type: string } {
+export function verifyAccessToken(token: string): {
+  userId: string;
+  email: string;
+  familyId: string;
+  type: string;
+} {
   try {
-    const decoded = jwt.verify(token, JWT_ACCESS_SECRET) as {
+    const decoded = jwt.verify(token, jwtConfig.accessSecret) as {
       userId: string;
       email: string;
+      familyId: string;
       type: string;
     };
     return decoded;
@@ -69,10 +78,17 @@ export function verifyAccessToken(token: string): { userId: string; email: strin
  * @returns Decoded token payload
  * @throws Error if token is invalid or expired
  */
-export function verifyRefreshToken(token: string): { userId: string; type: string } {
+export function verifyRefreshToken(token: string): {
+  userId: string;
+  familyId: string;
+  tokenId: string;
+  type: string;
+} {
   try {
-    const decoded = jwt.verify(token, JWT_REFRESH_SECRET) as {
+    const decoded = jwt.verify(token, jwtConfig.refreshSecret) as {
       userId: string;
+      familyId: string;
+      tokenId: string;
       type: string;
     };
     return decoded;
@@ -0,0 +1,114 @@
+import sharp from 'sharp';
+import { parseBuffer, parseFile } from 'music-metadata';
+import type { MediaInfo } from '@shared/schema';
+
+const THUMBNAIL_SIZE = 320;
+const PLACEHOLDER_SIZE = 16;
+
+// Every image is re-encoded, so none is stored with its metadata; formats sharp
+// can't decode (e.g. BMP, or HEIC without an HEVC decoder) are refused instead
+const isImage = (mimeType: string) => mimeType.startsWith('image/');
+
+export interface ProcessedMedia {
+  // File contents to store, with image metadata removed
+  data: Buffer;
+  media: MediaInfo;
+  // WebP thumbnail for images, to be stored next to the file
+  thumbnail?: Buffer;
+}
+
+/**
+ * Read media details from an uploaded file
+ * Images are re-encoded with their EXIF orientation applied and all other
+ * metadata (including GPS location) dropped, and get a thumbnail and a blur
+ * placeholder. Audio and video get their duration.
+ * @param data - File contents
+ * @param mimeType - MIME type reported by the client
+ * @returns Processed media, or null if an image could not be decoded, in
+ *   which case it must not be stored
+ */
+export async function processMedia(data: Buffer, mimeType: string): Promise<ProcessedMedia | null> {
+  if (isImage(mimeType)) {
+    return processImage(data, mimeType);
+  }
+
+  if (mimeType.startsWith('audio/') || mimeType.startsWith('video/')) {
+    return { data, media: { mimeType, duration: await readDuration(data, mimeType) } };
+  }
+
+  return { data, media: { mimeType } };
+}
+
+/**
+ * Like processMedia, for a file on disk that may be too large to load
+ * Only re-encoded images end up in memory; uploadPolicy.maxImageSize keeps
+ * them small enough for that
+ * @param filePath - Path of the file
+ * @param mimeType - MIME type reported by the client
+ * @returns Processed media, where data is only set when the file was
+ *   re-encoded, or null if an image could not be decoded
+ */
+export async function processMediaFile(
+  filePath: string,
+  mimeType: string
+): Promise<(Omit<ProcessedMedia, 'data'> & { data?: Buffer }) | null> {
+  if (isImage(mimeType)) {
+    return processImage(filePath, mimeType);
+  }
+
+  if (mimeType.startsWith('audio/') || mimeType.startsWith('video/')) {
+    try {
+      const metadata = await parseFile(filePath, { duration: true, skipCovers: true });
+      return { media: { mimeType, duration: metadata.format.duration } };
+    } catch (error) {
+      return { media: { mimeType } };
+    }
+  }
+
+  return { media: { mimeType } };
+}
+
+// Takes the image's contents or the path of a file holding it
+async function processImage(input: Buffer | string, mimeType: string): Promise<ProcessedMedia | null> {
+  const animated = mimeType === 'image/gif' || mimeType === 'image/webp';
+
+  try {
+    // sharp writes no metadata unless asked to, so re-encoding strips EXIF
+    const stripped = await sharp(input, { animated }).rotate().toBuffer();
+    const { width, height, pageHeight } = await sharp(stripped).metadata();
+
+    const thumbnail = await sharp(stripped)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+
+    const placeholder = await sharp(stripped)
+      .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' })
+      .webp({ quality: 40 })
+      .toBuffer();
+
+    return {
+      data: stripped,
+      thumbnail,
+      media: {
+        mimeType,
+        width,
+        // Animated images report the height of all frames stacked
+        height: pageHeight || height,
+        placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+      },
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+async function readDuration(data: Buffer, mimeType: string): Promise<number | undefined> {
+  try {
+    const metadata = await parseBuffer(data, mimeType, { duration: true, skipCovers: true });
+    return metadata.format.duration;
+  } catch (error) {
+    // Unknown containers are stored without a duration
+    return undefined;
+  }
+}
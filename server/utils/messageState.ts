@@ -0,0 +1,119 @@
+import type { MessageReceipt, UserEvent, UserEventPage } from '@shared/schema';
+
+/**
+ * Rules shared by every storage backend
+ * Kept apart from the backends so reactions, receipts and the event log
+ * behave the same whichever one is configured.
+ */
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const DEFAULT_EVENT_PAGE_SIZE = 500;
+
+// Older events are dropped; clients that fall further behind resync from scratch
+export const MAX_USER_EVENTS = 1000;
+
+/**
+ * Thrown when a conversation or group would refer to users that don't exist
+ * Postgres enforces this with foreign keys; the other backends check for it
+ */
+export class UnknownUserError extends Error {
+  constructor(public userIds: string[]) {
+    super(`Unknown users: ${userIds.join(', ')}`);
+  }
+}
+
+// Emoji -> IDs of the users who reacted with it
+export type Reactions = Record<string, string[]>;
+
+/**
+ * Add or remove one user's reaction
+ * A user reacting again with the same emoji moves to the end of its list
+ * @returns New reactions; emojis nobody uses any more are dropped
+ */
+export function applyReaction(
+  reactions: unknown,
+  userId: string,
+  emoji: string,
+  action: 'add' | 'remove'
+): Reactions {
+  const updated: Reactions = { ...((reactions as Reactions) || {}) };
+  const users = (updated[emoji] || []).filter((id) => id !== userId);
+
+  if (action === 'add') {
+    users.push(userId);
+  }
+
+  if (users.length > 0) {
+    updated[emoji] = users;
+  } else {
+    delete updated[emoji];
+  }
+  return updated;
+}
+
+/**
+ * A recipient's receipt once the message reached them
+ * @returns The receipt, or undefined if it was already delivered
+ */
+export function deliveredReceipt(receipt: MessageReceipt | undefined, now: string): MessageReceipt | undefined {
+  if (receipt?.deliveredAt) return undefined;
+  return { deliveredAt: now, readAt: receipt?.readAt || null };
+}
+
+/**
+ * A recipient's receipt once they read the message; reading implies delivery
+ * @returns The receipt, or undefined if it was already read
+ */
+export function readReceipt(receipt: MessageReceipt | undefined, now: string): MessageReceipt | undefined {
+  if (receipt?.readAt) return undefined;
+  return { deliveredAt: receipt?.deliveredAt || now, readAt: now };
+}
+
+/**
+ * Fields cleared when a message is deleted for everyone
+ * A tombstone is kept so the conversation still shows where the message was
+ */
+export function deletedMessageFields(deletedAt: Date) {
+  return {
+    content: '',
+    fileUrl: null,
+    fileName: null,
+    fileSize: null,
+    media: null,
+    linkPreview: null,
+    reactions: {},
+    editHistory: [],
+    deletedAt,
+  };
+}
+
+/**
+ * Build the page of events a client asked for
+ * @param since - Last seq the client has seen, if any
+ * @param latestSeq - Seq of the user's newest event, 0 if none
+ * @param oldestSeq - Seq of the oldest event still kept
+ * @param missed - Kept events after `since`, oldest first; at most limit + 1 are needed
+ */
+export function toUserEventPage(
+  since: number | undefined,
+  latestSeq: number,
+  oldestSeq: number,
+  missed: UserEvent[],
+  limit: number
+): UserEventPage {
+  if (since === undefined) {
+    return { events: [], latestSeq, hasMore: false, reset: false };
+  }
+
+  // A cursor ahead of the log means the log was lost, e.g. after a restart
+  if (since > latestSeq || since < oldestSeq - 1) {
+    return { events: [], latestSeq, hasMore: false, reset: true };
+  }
+
+  return {
+    events: missed.slice(0, limit),
+    latestSeq,
+    hasMore: missed.length > limit,
+    reset: false,
+  };
+}
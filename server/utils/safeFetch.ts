@@ -0,0 +1,189 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import zlib from 'zlib';
+import type { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Fetching URLs chosen by users without reaching into our own network
+ * Every address a host name resolves to is checked before connecting, and
+ * the connection is made to that checked address, so a second DNS answer
+ * can't swap in an internal one. Redirects are followed by hand and checked
+ * the same way.
+ */
+
+// Loopback, private, link-local, shared, multicast and documentation ranges;
+// BlockList applies the IPv4 ranges to IPv4-mapped IPv6 addresses too
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64],
+  ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv6'));
+
+const ALLOWED_PORTS = ['', '80', '443'];
+const MAX_REDIRECTS = 3;
+
+export class UnsafeUrlError extends Error {}
+
+export interface SafeFetchOptions {
+  // Whole request, including redirects
+  timeoutMs: number;
+  // Longer bodies are cut off here rather than refused
+  maxBytes: number;
+  accept?: string;
+}
+
+export interface SafeFetchResponse {
+  // After redirects
+  url: string;
+  status: number;
+  contentType: string;
+  body: Buffer;
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Used in place of dns.lookup for every connection
+function publicLookup(hostname: string, options: any, callback: (...args: any[]) => void) {
+  dns.lookup(hostname, { all: true }, (error, addresses) => {
+    if (error) return callback(error);
+
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(new UnsafeUrlError(`${hostname} resolves to a non-public address`));
+    }
+
+    if (options?.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * Check that a URL may be fetched before any connection is made
+ * Host names are checked later, as they are resolved
+ */
+function assertFetchableUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnsafeUrlError(`Unsupported protocol ${url.protocol}`);
+  }
+  if (!ALLOWED_PORTS.includes(url.port)) {
+    throw new UnsafeUrlError(`Port ${url.port} is not allowed`);
+  }
+  if (url.username || url.password) {
+    throw new UnsafeUrlError('URLs with credentials are not allowed');
+  }
+
+  // Literal addresses skip the lookup, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw new UnsafeUrlError(`${host} is not a public address`);
+  }
+}
+
+function decompressor(res: http.IncomingMessage): Transform | null {
+  switch (res.headers['content-encoding']) {
+    case 'gzip':
+      return zlib.createGunzip();
+    case 'deflate':
+      return zlib.createInflate();
+    case 'br':
+      return zlib.createBrotliDecompress();
+    default:
+      return null;
+  }
+}
+
+function request(url: URL, options: SafeFetchOptions, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, {
+      lookup: publicLookup as any,
+      signal,
+      headers: {
+        'User-Agent': 'ConnectLinkPreview/1.0',
+        'Accept': options.accept || '*/*',
+        'Accept-Encoding': 'gzip, deflate, br',
+      },
+    }, resolve);
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Read a response body, decompressed, up to maxBytes
+ * Any stream failing (a corrupt body, a dropped connection, the timeout)
+ * rejects, so callers are never left waiting
+ */
+async function readBody(res: http.IncomingMessage, maxBytes: number, signal: AbortSignal): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  const collect = async (source: AsyncIterable<Buffer>) => {
+    for await (const chunk of source) {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length >= maxBytes) return;
+    }
+  };
+
+  try {
+    const decoder = decompressor(res);
+    await (decoder ? pipeline(res, decoder, collect, { signal }) : pipeline(res, collect, { signal }));
+  } catch (error) {
+    // Stopping at maxBytes aborts the rest of the pipeline; the body read so far is kept
+    if (length < maxBytes) throw error;
+  } finally {
+    res.destroy();
+  }
+  return Buffer.concat(chunks).subarray(0, maxBytes);
+}
+
+/**
+ * GET a user-supplied URL with the protections described above
+ * @throws UnsafeUrlError if the URL, or one it redirects to, isn't public
+ */
+export async function safeFetch(target: string, options: SafeFetchOptions): Promise<SafeFetchResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+
+  try {
+    let url = new URL(target);
+    for (let redirects = 0; ; redirects++) {
+      assertFetchableUrl(url);
+      const res = await request(url, options, controller.signal);
+      const status = res.statusCode || 0;
+
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error('Too many redirects');
+        }
+        url = new URL(res.headers.location, url);
+        continue;
+      }
+
+      return {
+        url: url.toString(),
+        status,
+        contentType: res.headers['content-type'] || '',
+        body: await readBody(res, options.maxBytes, controller.signal),
+      };
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
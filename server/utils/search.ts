@@ -0,0 +1,105 @@
+/**
+ * Text helpers for message search
+ * Shared by the in-memory inverted index and the search route
+ */
+
+// Built at runtime because the compile target predates the `u` flag
+const WORD_PATTERN = "[\\p{L}\\p{N}]+";
+
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Split text into lowercase word tokens
+ * @param text - Text to tokenize
+ * @returns Tokens in order of appearance
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(new RegExp(WORD_PATTERN, "gu")) || [];
+}
+
+/**
+ * Parse a search box query
+ * Supports the `has:file` operator; everything else is a search term
+ * @param query - Raw query string
+ * @returns Search terms and operator flags
+ */
+export function parseSearchQuery(query: string): { terms: string[]; hasFile: boolean } {
+  let hasFile = false;
+
+  const text = query.replace(/(^|\s)has:file(?=\s|$)/gi, () => {
+    hasFile = true;
+    return " ";
+  });
+
+  return { terms: tokenize(text), hasFile };
+}
+
+/**
+ * Check whether a token matches any term
+ * Terms match as word prefixes so partially typed words still find results
+ */
+export function matchesTerm(token: string, terms: string[]): boolean {
+  return terms.some((term) => token.startsWith(term));
+}
+
+/**
+ * Cut a snippet around the first matched term and locate every match in it
+ * Highlights are [start, end) offsets into the snippet, so clients can render
+ * them without trusting any markup from the server
+ * @param text - Full message text
+ * @param terms - Search terms
+ * @returns Snippet and highlight ranges
+ */
+export function buildSnippet(text: string, terms: string[]): { snippet: string; highlights: [number, number][] } {
+  const matches: [number, number][] = [];
+  const pattern = new RegExp(WORD_PATTERN, "gu");
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (matchesTerm(match[0].toLowerCase(), terms)) {
+      matches.push([match.index, match.index + match[0].length]);
+    }
+  }
+
+  const first = matches[0];
+  let start = first ? Math.max(0, first[0] - SNIPPET_RADIUS) : 0;
+  let end = first ? Math.min(text.length, first[1] + SNIPPET_RADIUS) : Math.min(text.length, SNIPPET_RADIUS * 2);
+
+  // Don't cut words in half at the edges
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && (!first || space < first[0])) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > (first ? first[1] : start)) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const offset = prefix.length - start;
+
+  return {
+    snippet: prefix + text.slice(start, end) + suffix,
+    highlights: matches
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s + offset, e + offset] as [number, number]),
+  };
+}
+
+/**
+ * Snippet for a search result
+ * Cut from the file name when only the file name matched
+ * @param message - Matched message
+ * @param terms - Search terms
+ */
+export function messageSnippet(
+  message: { content: string; fileName: string | null },
+  terms: string[]
+): { snippet: string; highlights: [number, number][] } {
+  const text = terms.length > 0 && !tokenize(message.content).some((token) => matchesTerm(token, terms))
+    ? message.fileName || message.content
+    : message.content;
+
+  return buildSnippet(text, terms);
+}
@@ -0,0 +1,47 @@
+import { Writable } from "stream";
+import { describe, expect, it, vi } from "vitest";
+import { MemoryStorage } from "../memStorage";
+import { writeTranscript, type TranscriptContext } from "./transcript";
+
+async function conversationWithMessages(count: number) {
+  const storage = new MemoryStorage();
+  const ann = await storage.upsertUser({ id: "ann", email: "ann@example.com", firstName: "Ann", lastName: "Test" });
+  const bob = await storage.upsertUser({ id: "bob", email: "bob@example.com", firstName: "Bob", lastName: "Test" });
+  const conversation = await storage.getOrCreateConversation(ann.id, bob.id);
+  for (let i = 0; i < count; i++) {
+    await storage.createMessage({ conversationId: conversation.id, senderId: ann.id, content: `message ${i}` });
+  }
+
+  const context: TranscriptContext = { conversation, participants: [ann, bob], viewerId: ann.id, exportedAt: new Date() };
+  return { storage, context };
+}
+
+describe("writeTranscript", () => {
+  it("writes every message", async () => {
+    const { storage, context } = await conversationWithMessages(3);
+    const chunks: string[] = [];
+    const output = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk.toString());
+        callback();
+      },
+    });
+
+    await writeTranscript(storage, output, "txt", context);
+
+    expect(chunks.join("")).toMatch(/message 0[\s\S]*message 1[\s\S]*message 2/);
+  });
+
+  it("stops when the output closes while full", async () => {
+    const { storage, context } = await conversationWithMessages(500);
+    const getMessages = vi.spyOn(storage, "getMessages");
+    // Takes one chunk and never asks for more, like a client that stopped reading
+    const output = new Writable({ highWaterMark: 1, write() {} });
+
+    const written = writeTranscript(storage, output, "txt", context);
+    setTimeout(() => output.destroy(), 10);
+
+    await expect(written).resolves.toBeUndefined();
+    expect(getMessages.mock.calls.length).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,304 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Writable } from 'stream';
+import type { Conversation, MessageWithSender, User } from '@shared/schema';
+import { escapeHtml, markdownToHtml, markdownToPlainText } from '@shared/markdown';
+import type { IStorage } from '../storage';
+import { LOCAL_UPLOAD_DIR, LOCAL_UPLOAD_URL_PATH } from '../blobStore';
+import { safeFetch } from './safeFetch';
+
+/**
+ * Conversation transcripts a participant can download
+ * Messages are read a page at a time, oldest first, and written as they are
+ * read, so a long history is never held in memory. The transcript holds what
+ * the viewer sees in the app: messages they deleted for themselves are left
+ * out, and thread replies follow the message they reply to.
+ */
+
+export const TRANSCRIPT_FORMATS = ['json', 'html', 'txt'] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+const PAGE_SIZE = 200;
+
+// Larger images are embedded by their thumbnail, or only named
+const MAX_INLINE_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_FETCH_TIMEOUT_MS = 10000;
+const INLINE_IMAGE_TYPES = /^image\/(png|jpeg|gif|webp|avif)$/;
+
+export interface TranscriptContext {
+  conversation: Conversation;
+  participants: User[];
+  viewerId: string;
+  exportedAt: Date;
+}
+
+interface TranscriptRenderer {
+  contentType: string;
+  header(context: TranscriptContext): string;
+  message(message: MessageWithSender, position: { first: boolean; inThread: boolean }): Promise<string>;
+  footer(): string;
+}
+
+function displayName(user: Partial<User> | undefined): string {
+  const name = [user?.firstName, user?.lastName].filter(Boolean).join(' ');
+  return name || user?.email || 'Unknown user';
+}
+
+function formatTime(date: Date | null): string {
+  return date ? `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC` : '';
+}
+
+/**
+ * Parse the ?format= of an export request
+ * @returns The format, or undefined if it isn't one of TRANSCRIPT_FORMATS
+ */
+export function parseTranscriptFormat(value: unknown): TranscriptFormat | undefined {
+  const format = value === undefined ? 'json' : value;
+  return (TRANSCRIPT_FORMATS as readonly unknown[]).includes(format) ? (format as TranscriptFormat) : undefined;
+}
+
+export function transcriptContentType(format: TranscriptFormat): string {
+  return renderers[format].contentType;
+}
+
+/**
+ * File name offered for a transcript, e.g. chat-ann-lee-2026-10-18.html
+ */
+export function transcriptFileName(context: TranscriptContext, format: TranscriptFormat): string {
+  const other = context.participants.find((user) => user.id !== context.viewerId);
+  const slug = displayName(other).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'conversation';
+  return `chat-${slug}-${context.exportedAt.toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Wait for a full output to take more
+ * @returns False if the output closed or failed instead, e.g. because the
+ *   client went away, in which case it never drains
+ */
+function drained(output: Writable): Promise<boolean> {
+  if (output.destroyed) return Promise.resolve(false);
+
+  return new Promise((resolve) => {
+    const settle = (isDrained: boolean) => () => {
+      output.off('drain', onDrain);
+      output.off('close', onGone);
+      output.off('error', onGone);
+      resolve(isDrained);
+    };
+    const onDrain = settle(true);
+    const onGone = settle(false);
+
+    output.on('drain', onDrain);
+    output.on('close', onGone);
+    output.on('error', onGone);
+  });
+}
+
+/**
+ * Write a conversation's transcript, waiting on the output when it is full
+ * Stops early, without an error, once the output is closed
+ */
+export async function writeTranscript(
+  storage: IStorage,
+  output: Writable,
+  format: TranscriptFormat,
+  context: TranscriptContext,
+): Promise<void> {
+  const renderer = renderers[format];
+  // Resolves to whether writing can go on
+  const write = async (chunk: string): Promise<boolean> => {
+    if (output.destroyed) return false;
+    return !chunk || output.write(chunk) || drained(output);
+  };
+
+  if (!(await write(renderer.header(context)))) return;
+
+  let first = true;
+  let after: { createdAt: Date; id: number } = { createdAt: new Date(0), id: 0 };
+  for (;;) {
+    const page = await storage.getMessages(context.conversation.id, {
+      after,
+      limit: PAGE_SIZE,
+      viewerId: context.viewerId,
+    });
+
+    for (const message of page.messages) {
+      if (!(await write(await renderer.message(message, { first, inThread: false })))) return;
+      first = false;
+
+      if (message.replyCount) {
+        const thread = await storage.getMessageThread(message.id, context.viewerId);
+        for (const reply of thread?.replies || []) {
+          if (!(await write(await renderer.message(reply, { first, inThread: true })))) return;
+        }
+      }
+    }
+
+    const last = page.messages[page.messages.length - 1];
+    if (!page.hasMore || !last) break;
+    after = { createdAt: last.createdAt || new Date(0), id: last.id };
+  }
+
+  await write(renderer.footer());
+}
+
+/**
+ * Read an uploaded image so it can be embedded as a data URL
+ * Local uploads are read from disk; others (e.g. Cloudinary) are fetched
+ * @returns The data URL, or null if the image is missing or too large
+ */
+async function imageDataUrl(url: string, mimeType: string): Promise<string | null> {
+  try {
+    let data: Buffer;
+    if (url.startsWith(`${LOCAL_UPLOAD_URL_PATH}/`)) {
+      const filePath = path.join(LOCAL_UPLOAD_DIR, path.basename(url));
+      if ((await fs.stat(filePath)).size > MAX_INLINE_IMAGE_BYTES) return null;
+      data = await fs.readFile(filePath);
+    } else {
+      const response = await safeFetch(url, {
+        timeoutMs: IMAGE_FETCH_TIMEOUT_MS,
+        // One byte over the limit shows the body was cut off
+        maxBytes: MAX_INLINE_IMAGE_BYTES + 1,
+        accept: mimeType,
+      });
+      if (response.status !== 200 || response.body.length > MAX_INLINE_IMAGE_BYTES) return null;
+      data = response.body;
+    }
+    return `data:${mimeType};base64,${data.toString('base64')}`;
+  } catch (error) {
+    console.error('Error embedding image in transcript:', error);
+    return null;
+  }
+}
+
+async function inlineImage(message: MessageWithSender): Promise<string | null> {
+  const mimeType = message.media?.mimeType || '';
+  if (!message.fileUrl || !INLINE_IMAGE_TYPES.test(mimeType)) return null;
+
+  return (await imageDataUrl(message.fileUrl, mimeType))
+    // Thumbnails are always stored as WebP
+    || (message.media?.thumbnailUrl ? await imageDataUrl(message.media.thumbnailUrl, 'image/webp') : null);
+}
+
+const jsonRenderer: TranscriptRenderer = {
+  contentType: 'application/json; charset=utf-8',
+
+  header({ conversation, participants, exportedAt }) {
+    const meta = {
+      exportedAt,
+      conversation: { id: conversation.id, createdAt: conversation.createdAt },
+      participants: participants.map(({ id, email, firstName, lastName }) => ({ id, email, firstName, lastName })),
+    };
+    // Leave the object open for the messages array
+    return `${JSON.stringify(meta).slice(0, -1)},"messages":[\n`;
+  },
+
+  async message(message, { first }) {
+    const { sender, replyTo, deletedFor, clientMessageId, ...fields } = message;
+    const exported = {
+      ...fields,
+      sender: { id: sender.id, name: displayName(sender) },
+      replyTo: replyTo ? { id: replyTo.id, content: replyTo.content } : null,
+    };
+    return `${first ? '' : ',\n'}${JSON.stringify(exported)}`;
+  },
+
+  footer() {
+    return '\n]}\n';
+  },
+};
+
+const textRenderer: TranscriptRenderer = {
+  contentType: 'text/plain; charset=utf-8',
+
+  header({ participants, exportedAt }) {
+    return `Conversation between ${participants.map(displayName).join(' and ')}\n`
+      + `Exported ${formatTime(exportedAt)}\n\n`;
+  },
+
+  async message(message, { inThread }) {
+    const indent = inThread ? '    ' : '';
+    const lines: string[] = [];
+
+    if (message.deletedAt) {
+      lines.push('This message was deleted');
+    } else {
+      if (message.replyTo) {
+        lines.push(`> ${displayName(message.replyTo.sender)}: ${markdownToPlainText(message.replyTo.content).split('\n')[0]}`);
+      }
+      if (message.content) lines.push(...markdownToPlainText(message.content).split('\n'));
+      if (message.fileName) lines.push(`[Attachment: ${message.fileName}]`);
+    }
+
+    const edited = message.editedAt ? ' (edited)' : '';
+    const heading = `${indent}[${formatTime(message.createdAt)}] ${displayName(message.sender)}${edited}:`;
+    return `${heading}\n${lines.map((line) => `${indent}  ${line}`).join('\n')}\n\n`;
+  },
+
+  footer() {
+    return '';
+  },
+};
+
+const HTML_STYLE = `
+body{font-family:system-ui,sans-serif;max-width:48rem;margin:2rem auto;padding:0 1rem;color:#1f2937}
+header{border-bottom:1px solid #e5e7eb;margin-bottom:1rem}
+.message{margin:0 0 1rem}.thread{margin-left:2rem;border-left:2px solid #e5e7eb;padding-left:.75rem}
+.meta{font-size:.8rem;color:#6b7280}.sender{font-weight:600;color:#111827}
+.deleted{font-style:italic;color:#6b7280}.reply{border-left:3px solid #93c5fd;padding-left:.5rem;color:#4b5563;font-size:.9rem}
+img{max-width:100%;height:auto;border-radius:.5rem}pre{background:#f3f4f6;padding:.5rem;overflow:auto}
+code{font-family:ui-monospace,monospace}blockquote{border-left:3px solid #d1d5db;margin:0;padding-left:.75rem}
+`.trim();
+
+const htmlRenderer: TranscriptRenderer = {
+  contentType: 'text/html; charset=utf-8',
+
+  header({ participants, exportedAt }) {
+    const title = `Conversation between ${participants.map(displayName).join(' and ')}`;
+    return '<!DOCTYPE html>\n<html lang="en"><head><meta charset="utf-8">'
+      + '<meta name="viewport" content="width=device-width, initial-scale=1">'
+      // Only inline styles and data: images; nothing in a message can load or run anything
+      + `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'unsafe-inline'">`
+      + `<title>${escapeHtml(title)}</title><style>${HTML_STYLE}</style></head><body>\n`
+      + `<header><h1>${escapeHtml(title)}</h1><p class="meta">Exported ${escapeHtml(formatTime(exportedAt))}</p></header>\n`;
+  },
+
+  async message(message, { inThread }) {
+    const parts: string[] = [];
+
+    if (message.deletedAt) {
+      parts.push('<p class="deleted">This message was deleted</p>');
+    } else {
+      if (message.replyTo) {
+        const quoted = markdownToPlainText(message.replyTo.content).split('\n')[0];
+        parts.push(`<div class="reply">${escapeHtml(displayName(message.replyTo.sender))}: ${escapeHtml(quoted)}</div>`);
+      }
+      if (message.content) parts.push(markdownToHtml(message.content));
+
+      const image = await inlineImage(message);
+      if (image) {
+        parts.push(`<p><img src="${image}" alt="${escapeHtml(message.fileName || 'Image')}"></p>`);
+      } else if (message.fileName) {
+        parts.push(`<p class="meta">Attachment: ${escapeHtml(message.fileName)}</p>`);
+      }
+    }
+
+    const time = message.createdAt
+      ? `<time datetime="${message.createdAt.toISOString()}">${escapeHtml(formatTime(message.createdAt))}</time>`
+      : '';
+    const edited = message.editedAt ? ' (edited)' : '';
+    return `<div class="message${inThread ? ' thread' : ''}">`
+      + `<div class="meta"><span class="sender">${escapeHtml(displayName(message.sender))}</span> ${time}${edited}</div>`
+      + `${parts.join('')}</div>\n`;
+  },
+
+  footer() {
+    return '</body></html>\n';
+  },
+};
+
+const renderers: Record<TranscriptFormat, TranscriptRenderer> = {
+  json: jsonRenderer,
+  html: htmlRenderer,
+  txt: textRenderer,
+};
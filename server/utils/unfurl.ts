@@ -0,0 +1,181 @@
+import type { LinkPreview } from '@shared/schema';
+import { safeFetch } from './safeFetch';
+
+/**
+ * Link previews from Open Graph / Twitter card tags, falling back to the
+ * page's oEmbed endpoint for whatever the tags leave out
+ */
+
+const FETCH_TIMEOUT_MS = 5000;
+// The tags we want are in the head, near the top of the page
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_OEMBED_BYTES = 64 * 1024;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+// Previews are cached per URL; failures for less time, since they may be transient
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const FAILURE_CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 1000;
+
+const cache = new Map<string, { preview: LinkPreview | null; expiresAt: number }>();
+// Several messages with the same link share one fetch
+const pending = new Map<string, Promise<LinkPreview | null>>();
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function clean(text: string | undefined, maxLength: number): string | undefined {
+  if (!text) return undefined;
+  const collapsed = decodeEntities(text).replace(/\s+/g, ' ').trim();
+  if (!collapsed) return undefined;
+  return collapsed.length > maxLength ? `${collapsed.slice(0, maxLength - 1)}…` : collapsed;
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(tag)) !== null) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+// Only http(s) images are shown, resolved against the page they were found on
+function absoluteUrl(value: string | undefined, base: string): string | undefined {
+  if (!value) return undefined;
+  try {
+    const url = new URL(decodeEntities(value.trim()), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+interface PageMetadata {
+  meta: Record<string, string>;
+  title?: string;
+  oembedUrl?: string;
+}
+
+function parsePage(html: string): PageMetadata {
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  const meta: Record<string, string> = {};
+  (head.match(/<meta\s[^>]*>/gi) || []).forEach((tag) => {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    // The first of repeated tags (e.g. several og:image) is the primary one
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  });
+
+  const oembedLink = (head.match(/<link\s[^>]*>/gi) || [])
+    .map(parseAttributes)
+    .find((attributes) => (attributes.type || '').toLowerCase() === 'application/json+oembed' && attributes.href);
+
+  return {
+    meta,
+    title: head.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1],
+    oembedUrl: oembedLink?.href,
+  };
+}
+
+async function fetchOEmbed(url: string): Promise<Record<string, any> | null> {
+  try {
+    const res = await safeFetch(url, { timeoutMs: FETCH_TIMEOUT_MS, maxBytes: MAX_OEMBED_BYTES, accept: 'application/json' });
+    if (res.status !== 200) return null;
+    const data = JSON.parse(res.body.toString('utf8'));
+    return data && typeof data === 'object' ? data : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function decodeBody(body: Buffer, contentType: string): string {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(body);
+  } catch (error) {
+    return body.toString('utf8');
+  }
+}
+
+async function fetchPreview(url: string): Promise<LinkPreview | null> {
+  const res = await safeFetch(url, {
+    timeoutMs: FETCH_TIMEOUT_MS,
+    maxBytes: MAX_HTML_BYTES,
+    accept: 'text/html,application/xhtml+xml',
+  });
+  if (res.status !== 200 || !/^(text\/html|application\/xhtml\+xml)/i.test(res.contentType)) {
+    return null;
+  }
+
+  const { meta, title, oembedUrl } = parsePage(decodeBody(res.body, res.contentType));
+  const preview: LinkPreview = {
+    url,
+    title: clean(meta['og:title'] || meta['twitter:title'] || title, MAX_TITLE_LENGTH),
+    description: clean(meta['og:description'] || meta['twitter:description'] || meta['description'], MAX_DESCRIPTION_LENGTH),
+    imageUrl: absoluteUrl(meta['og:image'] || meta['og:image:url'] || meta['twitter:image'], res.url),
+    siteName: clean(meta['og:site_name'], MAX_TITLE_LENGTH),
+  };
+
+  const oembedTarget = absoluteUrl(oembedUrl, res.url);
+  if (oembedTarget && (!preview.title || !preview.imageUrl || !preview.siteName)) {
+    const oembed = await fetchOEmbed(oembedTarget);
+    if (oembed) {
+      preview.title = preview.title || clean(String(oembed.title || ''), MAX_TITLE_LENGTH);
+      preview.imageUrl = preview.imageUrl || absoluteUrl(oembed.thumbnail_url, oembedTarget);
+      preview.siteName = preview.siteName || clean(String(oembed.provider_name || ''), MAX_TITLE_LENGTH);
+    }
+  }
+
+  return preview.title ? preview : null;
+}
+
+/**
+ * Build a preview for a link
+ * @param url - http(s) URL found in a message
+ * @returns The preview, or null when the page can't be fetched, isn't
+ *   public, or has nothing to show
+ */
+export async function unfurl(url: string): Promise<LinkPreview | null> {
+  const cached = cache.get(url);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.preview;
+  }
+
+  const inFlight = pending.get(url);
+  if (inFlight) return inFlight;
+
+  const promise = fetchPreview(url)
+    .catch(() => null)
+    .then((preview) => {
+      cache.delete(url);
+      cache.set(url, { preview, expiresAt: Date.now() + (preview ? CACHE_TTL_MS : FAILURE_CACHE_TTL_MS) });
+
+      // Maps iterate in insertion order, so the first key is the oldest
+      if (cache.size > MAX_CACHE_ENTRIES) {
+        cache.delete(cache.keys().next().value!);
+      }
+      return preview;
+    })
+    .finally(() => pending.delete(url));
+
+  pending.set(url, promise);
+  return promise;
+}
@@ -0,0 +1,74 @@
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+
+// Parts of chunked uploads wait here, one directory per upload session
+const PARTS_DIR = path.resolve(process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'connect-upload-parts'));
+
+// Session IDs come from the URL, so keep them from escaping PARTS_DIR
+function sessionDir(sessionId: string): string {
+  if (!/^[\w-]+$/.test(sessionId)) {
+    throw new Error('Invalid upload session ID');
+  }
+  return path.join(PARTS_DIR, sessionId);
+}
+
+/**
+ * Store one part of a chunked upload, replacing an earlier copy of it
+ * @param sessionId - Upload session ID
+ * @param partIndex - Zero-based part number
+ * @param data - Part contents
+ */
+export async function writeUploadPart(sessionId: string, partIndex: number, data: Buffer): Promise<void> {
+  const dir = sessionDir(sessionId);
+  await fs.mkdir(dir, { recursive: true });
+
+  // Write then rename, so a part cut off mid-write is never mistaken for a whole one
+  const partPath = path.join(dir, String(partIndex));
+  await fs.writeFile(`${partPath}.tmp`, data);
+  await fs.rename(`${partPath}.tmp`, partPath);
+}
+
+/**
+ * Join all parts of an upload, in order, into a single file
+ * @param sessionId - Upload session ID
+ * @param partCount - Number of parts
+ * @returns Path of the joined file, inside the session's directory
+ */
+export async function assembleUploadParts(sessionId: string, partCount: number): Promise<string> {
+  const dir = sessionDir(sessionId);
+  const filePath = path.join(dir, 'file');
+  const output = createWriteStream(filePath);
+
+  try {
+    for (let i = 0; i < partCount; i++) {
+      await pipeline(createReadStream(path.join(dir, String(i))), output, { end: false });
+    }
+  } finally {
+    await new Promise((resolve) => output.end(resolve));
+  }
+
+  return filePath;
+}
+
+/**
+ * Read the first bytes of an upload's first part, for content sniffing
+ */
+export async function readUploadHead(sessionId: string, length: number): Promise<Buffer> {
+  const handle = await fs.open(path.join(sessionDir(sessionId), '0'), 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Delete every stored part of an upload session
+ */
+export async function discardUploadParts(sessionId: string): Promise<void> {
+  await fs.rm(sessionDir(sessionId), { recursive: true, force: true });
+}
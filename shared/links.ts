@@ -0,0 +1,48 @@
+/**
+ * Finding bare URLs in message text
+ * Used by the markdown parser, so server and client agree on what is a link
+ */
+
+// http(s) URLs, stopping before whitespace and angle brackets
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"]+/gi;
+
+// Punctuation that usually ends the sentence rather than the URL
+const TRAILING_PUNCTUATION = /[.,:;!?'")\]}]+$/;
+
+export interface TextLink {
+  url: string;
+  // Position of the URL in the text
+  start: number;
+  end: number;
+}
+
+/**
+ * Find every http(s) URL in a piece of text
+ * @param text - Message content
+ * @returns Links in order of appearance
+ */
+export function findLinks(text: string): TextLink[] {
+  const links: TextLink[] = [];
+  let match: RegExpExecArray | null;
+
+  URL_PATTERN.lastIndex = 0;
+  while ((match = URL_PATTERN.exec(text)) !== null) {
+    let url = match[0];
+
+    // Keep a closing parenthesis that belongs to the URL, e.g. wiki links
+    const trailing = url.match(TRAILING_PUNCTUATION);
+    if (trailing) {
+      let cut = trailing[0];
+      const opening = url.split("(").length - 1;
+      const closing = url.split(")").length - 1;
+      if (cut.startsWith(")") && opening >= closing) {
+        cut = cut.slice(1);
+      }
+      url = url.slice(0, url.length - cut.length);
+    }
+
+    links.push({ url, start: match.index, end: match.index + url.length });
+  }
+
+  return links;
+}
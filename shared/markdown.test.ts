@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { escapeHtml, findPreviewLink, isSafeUrl, markdownToHtml, parseMarkdown } from "./markdown";
+
+describe("parseMarkdown", () => {
+  it("parses links", () => {
+    expect(parseMarkdown("see [the docs](https://example.com/docs)")).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "text", text: "see " },
+          { type: "link", url: "https://example.com/docs", children: [{ type: "text", text: "the docs" }] },
+        ],
+      },
+    ]);
+  });
+
+  it("parses long runs of unclosed markup in linear time", () => {
+    for (const content of ["[".repeat(100000), "[a](".repeat(25000), "*a".repeat(50000)]) {
+      const started = performance.now();
+      expect(findPreviewLink(content)).toBeUndefined();
+      expect(performance.now() - started).toBeLessThan(2000);
+    }
+  });
+});
+
+describe("isSafeUrl", () => {
+  it("allows web and mail links", () => {
+    expect(isSafeUrl("https://example.com/a?b=c")).toBe(true);
+    expect(isSafeUrl("HTTP://example.com")).toBe(true);
+    expect(isSafeUrl("mailto:ann@example.com")).toBe(true);
+  });
+
+  it("refuses script, data and relative links", () => {
+    for (const url of ["javascript:alert(1)", "JavaScript:alert(1)", "data:text/html,<script>", "vbscript:msgbox", "//evil.example", "/uploads/a.txt"]) {
+      expect(isSafeUrl(url), url).toBe(false);
+    }
+  });
+
+  it("refuses links that could break out of an attribute", () => {
+    expect(isSafeUrl('https://example.com/"onmouseover="alert(1)')).toBe(false);
+    expect(isSafeUrl("https://example.com/<script>")).toBe(false);
+  });
+});
+
+describe("markdownToHtml", () => {
+  it("escapes HTML in text", () => {
+    expect(markdownToHtml("<img src=x onerror=alert(1)> & 'quotes'"))
+      .toBe("<p>&lt;img src=x onerror=alert(1)&gt; &amp; &#39;quotes&#39;</p>");
+  });
+
+  it("escapes HTML in code, code blocks and their language", () => {
+    expect(markdownToHtml("`<b>`")).toBe("<p><code>&lt;b&gt;</code></p>");
+    expect(markdownToHtml("```html\n<script>alert(1)</script>\n```"))
+      .toBe('<pre><code class="language-html">&lt;script&gt;alert(1)&lt;/script&gt;</code></pre>');
+  });
+
+  it("escapes link text and targets", () => {
+    expect(markdownToHtml("[<b>bold</b>](https://example.com/?a=1&b=2)"))
+      .toBe('<p><a href="https://example.com/?a=1&amp;b=2" rel="noopener noreferrer">&lt;b&gt;bold&lt;/b&gt;</a></p>');
+  });
+
+  it("leaves unsafe links as text", () => {
+    expect(markdownToHtml("[click](javascript:alert(1))")).toBe("<p>[click](javascript:alert(1))</p>");
+    expect(markdownToHtml("[click](data:text/html,hi)")).toBe("<p>[click](data:text/html,hi)</p>");
+  });
+
+  it("keeps quotes in a link target inside its attribute", () => {
+    expect(markdownToHtml("https://example.com/'onmouseover='alert(1)")).toBe(
+      '<p><a href="https://example.com/&#39;onmouseover=&#39;alert(1)" rel="noopener noreferrer">' +
+      "https://example.com/&#39;onmouseover=&#39;alert(1)</a></p>"
+    );
+  });
+});
+
+describe("escapeHtml", () => {
+  it("escapes every character that is special in content or attributes", () => {
+    expect(escapeHtml(`<a href="x" title='y'>&</a>`))
+      .toBe("&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;");
+  });
+});
+
+describe("findPreviewLink", () => {
+  it("finds the first web link outside of code", () => {
+    expect(findPreviewLink("`https://code.example` then [site](https://example.com) and https://later.example"))
+      .toBe("https://example.com");
+  });
+
+  it("skips links that aren't web links", () => {
+    expect(findPreviewLink("[mail](mailto:ann@example.com) [js](javascript:alert(1))")).toBeUndefined();
+  });
+});
@@ -0,0 +1,383 @@
+import { findLinks } from "./links";
+
+/**
+ * The markdown subset used in messages
+ * Parsed into a tree rather than HTML, so the client renders it as elements
+ * and nothing in a message can inject markup. The server parses with the same
+ * code, so both sides agree on what is a link, a code span, and so on.
+ *
+ * Blocks: paragraphs, ``` code blocks (with an optional language), > quotes,
+ * - / * / + bulleted and 1. numbered lists. Inline: **bold** / __bold__,
+ * *italic* / _italic_, `code`, [text](url) and bare URLs. A backslash
+ * escapes punctuation; single newlines are kept as line breaks.
+ */
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "emphasis"; children: InlineNode[] }
+  | { type: "code"; text: string }
+  | { type: "link"; url: string; children: InlineNode[] }
+  | { type: "break" };
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "codeBlock"; language?: string; text: string }
+  | { type: "blockquote"; children: BlockNode[] }
+  | { type: "list"; ordered: boolean; start: number; items: InlineNode[][] };
+
+// Deeper nesting is left as plain text, which keeps parsing time bounded
+const MAX_DEPTH = 8;
+
+const FENCE = /^\s*```\s*([\w+#.-]*)\s*$/;
+const QUOTE = /^\s*>\s?/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const ESCAPABLE = "\\`*_[]()>#+-.!~";
+// Matched in place at each [; the bounds keep a failed match from scanning
+// the rest of the message, which would make parsing quadratic
+const LINK = new RegExp(/\[([^[\]\n]{1,1000})\]\(([^)\s]{1,2048})\)/.source, "y");
+
+/**
+ * Whether a link target may be used as an href
+ * Only web and mail links are; javascript:, data: and the like never are
+ */
+export function isSafeUrl(url: string): boolean {
+  return /^(https?:\/\/|mailto:)[^\s<>"]+$/i.test(url);
+}
+
+function isWhitespace(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char);
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[A-Za-z0-9]/.test(char);
+}
+
+/**
+ * Find where an emphasis run opened at `start` closes
+ * Runs of the doubled delimiter are skipped when looking for a single one,
+ * so *a **b** c* nests instead of closing early.
+ */
+function findClosingDelimiter(text: string, start: number, delimiter: string): number {
+  const char = delimiter[0];
+  let i = start + delimiter.length;
+
+  while (i < text.length) {
+    if (text[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (text[i] === "`") {
+      // Delimiters inside code spans don't count; an unclosed backtick is literal
+      const end = text.indexOf("`", i + 1);
+      if (end > i + 1) {
+        i = end + 1;
+        continue;
+      }
+    }
+    if (text.startsWith(delimiter, i)) {
+      const isDoubledRun = delimiter.length === 1 && text[i + 1] === char;
+      const closes = i > start + delimiter.length &&
+        !isWhitespace(text[i - 1]) &&
+        // Underscores inside words, as in snake_case, are literal
+        !(char === "_" && isWordChar(text[i + delimiter.length]));
+      if (isDoubledRun) {
+        i += 2;
+        continue;
+      }
+      if (closes) return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+function parseInline(text: string, depth = 0, inLink = false): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = "";
+  // A delimiter with no closer after one position has none after any later
+  // one either, so each is searched for at most once per failure
+  const unclosed: Record<string, boolean> = {};
+
+  const flush = () => {
+    if (!buffer) return;
+    if (inLink) {
+      nodes.push({ type: "text", text: buffer });
+    } else {
+      // Bare URLs become links
+      let position = 0;
+      findLinks(buffer).forEach((link) => {
+        if (link.start > position) nodes.push({ type: "text", text: buffer.slice(position, link.start) });
+        nodes.push({ type: "link", url: link.url, children: [{ type: "text", text: link.url }] });
+        position = link.end;
+      });
+      if (position < buffer.length) nodes.push({ type: "text", text: buffer.slice(position) });
+    }
+    buffer = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "\\" && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    if (char === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: "code", text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === "[" && !inLink && depth < MAX_DEPTH) {
+      LINK.lastIndex = i;
+      const match = LINK.exec(text);
+      if (match && isSafeUrl(match[2])) {
+        flush();
+        nodes.push({ type: "link", url: match[2], children: parseInline(match[1], depth + 1, true) });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if ((char === "*" || char === "_") && depth < MAX_DEPTH) {
+      const delimiter = text[i + 1] === char ? char + char : char;
+      const opens = !isWhitespace(text[i + delimiter.length]) && !(char === "_" && isWordChar(text[i - 1]));
+      const end = opens && !unclosed[delimiter] ? findClosingDelimiter(text, i, delimiter) : -1;
+      if (opens && end === -1) {
+        unclosed[delimiter] = true;
+      }
+      if (end !== -1) {
+        flush();
+        const children = parseInline(text.slice(i + delimiter.length, end), depth + 1, inLink);
+        nodes.push(delimiter.length === 2 ? { type: "strong", children } : { type: "emphasis", children });
+        i = end + delimiter.length;
+        continue;
+      }
+      // An unmatched run is literal as a whole, so ** never half-opens
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+function parseBlocks(lines: string[], depth: number): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  const startsBlock = (line: string) =>
+    FENCE.test(line) || (QUOTE.test(line) && depth < MAX_DEPTH) || BULLET_ITEM.test(line) || NUMBERED_ITEM.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // An unclosed fence runs to the end of the message
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: "codeBlock", language: fence[1].toLowerCase() || undefined, text: code.join("\n") });
+      continue;
+    }
+
+    if (QUOTE.test(line) && depth < MAX_DEPTH) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ""));
+        i++;
+      }
+      blocks.push({ type: "blockquote", children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    const numbered = NUMBERED_ITEM.exec(line);
+    if (BULLET_ITEM.test(line) || numbered) {
+      const pattern = numbered ? NUMBERED_ITEM : BULLET_ITEM;
+      const items: InlineNode[][] = [];
+      let match: RegExpExecArray | null;
+      while (i < lines.length && (match = pattern.exec(lines[i]))) {
+        items.push(parseInline(match[match.length - 1], depth));
+        i++;
+      }
+      blocks.push({ type: "list", ordered: !!numbered, start: numbered ? parseInt(numbered[1], 10) : 1, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n"), depth) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse message content
+ * @param content - Message content as typed
+ * @returns Block nodes in order
+ */
+export function parseMarkdown(content: string): BlockNode[] {
+  return parseBlocks(content.replace(/\r\n?/g, "\n").split("\n"), 0);
+}
+
+function inlineText(nodes: InlineNode[]): string {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case "text":
+      case "code":
+        return node.text;
+      case "break":
+        return "\n";
+      default:
+        return inlineText(node.children);
+    }
+  }).join("");
+}
+
+function blocksText(blocks: BlockNode[]): string {
+  return blocks.map((block) => {
+    switch (block.type) {
+      case "paragraph":
+        return inlineText(block.children);
+      case "codeBlock":
+        return block.text;
+      case "blockquote":
+        return blocksText(block.children);
+      case "list":
+        return block.items.map(inlineText).join("\n");
+    }
+  }).join("\n");
+}
+
+/**
+ * Message content without its formatting, e.g. for conversation list previews
+ */
+export function markdownToPlainText(content: string): string {
+  return blocksText(parseMarkdown(content));
+}
+
+function collectLinks(nodes: InlineNode[], urls: string[]): void {
+  nodes.forEach((node) => {
+    if (node.type === "link") {
+      urls.push(node.url);
+    } else if (node.type === "strong" || node.type === "emphasis") {
+      collectLinks(node.children, urls);
+    }
+  });
+}
+
+function collectBlockLinks(blocks: BlockNode[], urls: string[]): void {
+  blocks.forEach((block) => {
+    if (block.type === "paragraph") collectLinks(block.children, urls);
+    if (block.type === "blockquote") collectBlockLinks(block.children, urls);
+    if (block.type === "list") block.items.forEach((item) => collectLinks(item, urls));
+  });
+}
+
+/**
+ * The link a message's preview is made for: its first web link outside of code
+ */
+export function findPreviewLink(content: string): string | undefined {
+  const urls: string[] = [];
+  collectBlockLinks(parseMarkdown(content), urls);
+  return urls.find((url) => /^https?:/i.test(url));
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Escape text for use in HTML content or a quoted attribute
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function inlineHtml(nodes: InlineNode[]): string {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case "text":
+        return escapeHtml(node.text);
+      case "strong":
+        return `<strong>${inlineHtml(node.children)}</strong>`;
+      case "emphasis":
+        return `<em>${inlineHtml(node.children)}</em>`;
+      case "code":
+        return `<code>${escapeHtml(node.text)}</code>`;
+      case "link":
+        return isSafeUrl(node.url)
+          ? `<a href="${escapeHtml(node.url)}" rel="noopener noreferrer">${inlineHtml(node.children)}</a>`
+          : inlineHtml(node.children);
+      case "break":
+        return "<br>";
+    }
+  }).join("");
+}
+
+function blocksHtml(blocks: BlockNode[]): string {
+  return blocks.map((block) => {
+    switch (block.type) {
+      case "paragraph":
+        return `<p>${inlineHtml(block.children)}</p>`;
+      case "codeBlock": {
+        const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : "";
+        return `<pre><code${language}>${escapeHtml(block.text)}</code></pre>`;
+      }
+      case "blockquote":
+        return `<blockquote>${blocksHtml(block.children)}</blockquote>`;
+      case "list": {
+        const items = block.items.map((item) => `<li>${inlineHtml(item)}</li>`).join("");
+        if (!block.ordered) return `<ul>${items}</ul>`;
+        return block.start === 1 ? `<ol>${items}</ol>` : `<ol start="${block.start}">${items}</ol>`;
+      }
+    }
+  }).join("");
+}
+
+/**
+ * Message content as HTML, e.g. for exported transcripts
+ * Everything from the message is escaped, so the result is safe to embed.
+ */
+export function markdownToHtml(content: string): string {
+  return blocksHtml(parseMarkdown(content));
+}
@@ -8,6 +8,7 @@ import {
   serial,
   integer,
   boolean,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -37,6 +38,26 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Password hashes are kept apart from users so they never leak into user lists
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  passwordHash: varchar("password_hash").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One refresh token family per login on a device. Only the latest token in a
+// family may be used; presenting an older one revokes the whole family.
+export const refreshTokenFamilies = pgTable("refresh_token_families", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  currentTokenId: varchar("current_token_id").notNull(),
+  previousTokenId: varchar("previous_token_id"),
+  userAgent: varchar("user_agent"),
+  rotatedAt: timestamp("rotated_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
   participant1Id: varchar("participant1_id").notNull().references(() => users.id),
@@ -49,14 +70,108 @@ export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   conversationId: serial("conversation_id").notNull().references(() => conversations.id),
   senderId: varchar("sender_id").notNull().references(() => users.id),
+  // Idempotency key chosen by the sending client, unique per sender
+  clientMessageId: varchar("client_message_id"),
   content: text("content").notNull(),
   messageType: varchar("message_type").default("text"),
   fileUrl: varchar("file_url"),
   fileName: varchar("file_name"),
   fileSize: integer("file_size"),
+  // Copied from the upload that fileUrl points to
+  media: jsonb("media").$type<MediaInfo>(),
+  // Filled in by the server after the message is sent, for its first link
+  linkPreview: jsonb("link_preview").$type<LinkPreview>(),
   isRead: boolean("is_read").default(false),
+  // Delivery and read times per recipient, keyed by user ID
+  receipts: jsonb("receipts").$type<Record<string, MessageReceipt>>().default({}),
   reactions: jsonb("reactions").default('{}'),
+  // Message quoted by an inline reply
+  replyToId: integer("reply_to_id"),
+  // Root message of the thread this reply was posted in; thread replies are
+  // kept out of the main conversation
+  threadRootId: integer("thread_root_id"),
+  replyCount: integer("reply_count").default(0),
+  lastReplyAt: timestamp("last_reply_at"),
+  // Previous versions of the content, oldest first
+  editHistory: jsonb("edit_history").$type<MessageEdit[]>().default([]),
+  editedAt: timestamp("edited_at"),
+  // Set when the sender deletes the message for everyone; content is cleared
+  deletedAt: timestamp("deleted_at"),
+  // Users who deleted the message for themselves only
+  deletedFor: jsonb("deleted_for").$type<string[]>().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("messages_sender_client_message_id").on(table.senderId, table.clientMessageId),
+]);
+
+export type MessageReceipt = {
+  deliveredAt: string | null;
+  readAt: string | null;
+};
+
+export type MessageEdit = {
+  content: string;
+  editedAt: string;
+};
+
+export type MediaInfo = {
+  mimeType: string;
+  // Pixel size of images, after applying their EXIF orientation
+  width?: number;
+  height?: number;
+  // Length of audio and video in seconds
+  duration?: number;
+  // Peak level of each slice of a voice recording, 0-255, for drawing it
+  waveform?: number[];
+  thumbnailUrl?: string;
+  // Tiny data URL image, shown blurred until the full image has loaded
+  placeholder?: string;
+};
+
+export type LinkPreview = {
+  url: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+};
+
+export const MESSAGE_TYPES = ["text", "image", "file", "voice"] as const;
+export type MessageType = (typeof MESSAGE_TYPES)[number];
+
+// Number of bars a voice message's waveform is summarized into
+export const VOICE_WAVEFORM_BARS = 64;
+// Longest voice message that can be recorded, in seconds
+export const MAX_VOICE_DURATION = 10 * 60;
+// Longest message content, in characters
+export const MAX_MESSAGE_LENGTH = 10000;
+
+// Files stored through POST /api/uploads, looked up by URL when a message references one
+export const uploads = pgTable("uploads", {
+  id: varchar("id").primaryKey(),
+  ownerId: varchar("owner_id").notNull().references(() => users.id),
+  url: varchar("url").notNull().unique(),
+  storageKey: varchar("storage_key").notNull(),
+  fileName: varchar("file_name").notNull(),
+  fileSize: integer("file_size").notNull(),
+  media: jsonb("media").$type<MediaInfo>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Chunked uploads in progress; parts can be sent in any order and resent, and
+// the session is turned into an upload once every part has arrived
+export const uploadSessions = pgTable("upload_sessions", {
+  id: varchar("id").primaryKey(),
+  ownerId: varchar("owner_id").notNull().references(() => users.id),
+  fileName: varchar("file_name").notNull(),
+  fileSize: integer("file_size").notNull(),
+  mimeType: varchar("mime_type").notNull(),
+  // Group the file is meant for, whose size limit applies
+  groupId: integer("group_id"),
+  chunkSize: integer("chunk_size").notNull(),
+  receivedParts: jsonb("received_parts").$type<number[]>().notNull().default([]),
   createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
 });
 
 export const groupChats = pgTable("group_chats", {
@@ -65,6 +180,8 @@ export const groupChats = pgTable("group_chats", {
   description: text("description"),
   createdBy: varchar("created_by").notNull(),
   avatar: varchar("avatar"),
+  // Lower per-group limit for uploads in bytes; null uses the server-wide one
+  maxUploadSize: integer("max_upload_size"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -87,10 +204,26 @@ export const groupMessages = pgTable("group_messages", {
   fileUrl: varchar("file_url"),
   fileName: varchar("file_name"),
   fileSize: integer("file_size"),
+  media: jsonb("media").$type<MediaInfo>(),
+  linkPreview: jsonb("link_preview").$type<LinkPreview>(),
   reactions: jsonb("reactions").default('{}'),
+  receipts: jsonb("receipts").$type<Record<string, MessageReceipt>>().default({}),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Events sent to each user, kept so clients can catch up after reconnecting;
+// seq counts up per user and only the latest events are kept
+export const userEvents = pgTable("user_events", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  seq: integer("seq").notNull(),
+  type: varchar("type").notNull(),
+  data: jsonb("data"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("user_events_user_seq").on(table.userId, table.seq),
+]);
+
 // Relations
 export const userRelations = relations(users, ({ many }) => ({
   sentMessages: many(messages),
@@ -123,6 +256,33 @@ export const messageRelations = relations(messages, ({ one }) => ({
   }),
 }));
 
+export const groupChatRelations = relations(groupChats, ({ many }) => ({
+  members: many(groupMembers),
+  messages: many(groupMessages),
+}));
+
+export const groupMemberRelations = relations(groupMembers, ({ one }) => ({
+  group: one(groupChats, {
+    fields: [groupMembers.groupId],
+    references: [groupChats.id],
+  }),
+  user: one(users, {
+    fields: [groupMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const groupMessageRelations = relations(groupMessages, ({ one }) => ({
+  group: one(groupChats, {
+    fields: [groupMessages.groupId],
+    references: [groupChats.id],
+  }),
+  sender: one(users, {
+    fields: [groupMessages.senderId],
+    references: [users.id],
+  }),
+}));
+
 // Schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
@@ -135,15 +295,51 @@ export const insertConversationSchema = createInsertSchema(conversations).omit({
   lastMessageAt: true,
 });
 
-export const insertMessageSchema = createInsertSchema(messages).omit({
+export const insertMessageSchema = createInsertSchema(messages, {
+  content: (schema) => schema.max(MAX_MESSAGE_LENGTH),
+  clientMessageId: (schema) => schema.min(1).max(64),
+  messageType: z.enum(MESSAGE_TYPES).optional(),
+}).omit({
   id: true,
   createdAt: true,
   isRead: true,
+  receipts: true,
+  replyCount: true,
+  lastReplyAt: true,
+  editHistory: true,
+  editedAt: true,
+  deletedAt: true,
+  deletedFor: true,
+  media: true,
+  linkPreview: true,
+});
+
+export const insertGroupChatSchema = createInsertSchema(groupChats, {
+  maxUploadSize: (schema) => schema.int().positive(),
+}).omit({
+  id: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertGroupMessageSchema = createInsertSchema(groupMessages, {
+  content: (schema) => schema.max(MAX_MESSAGE_LENGTH),
+  messageType: z.enum(MESSAGE_TYPES).optional(),
+}).omit({
+  id: true,
+  receipts: true,
+  media: true,
+  linkPreview: true,
+  createdAt: true,
 });
 
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type RefreshTokenFamily = typeof refreshTokenFamilies.$inferSelect;
+export type Upload = typeof uploads.$inferSelect;
+export type UploadSession = typeof uploadSessions.$inferSelect;
 export type Conversation = typeof conversations.$inferSelect;
 export type ConversationWithUsers = Conversation & {
   participant1: User;
@@ -153,6 +349,77 @@ export type ConversationWithUsers = Conversation & {
 export type Message = typeof messages.$inferSelect;
 export type MessageWithSender = Message & {
   sender: User;
+  replyTo?: (Message & { sender: User }) | null;
+};
+export type MessageThread = {
+  root: MessageWithSender;
+  replies: MessageWithSender[];
+};
+export type GroupChat = typeof groupChats.$inferSelect;
+export type GroupMember = typeof groupMembers.$inferSelect;
+export type GroupMemberWithUser = GroupMember & {
+  user: User;
+};
+export type GroupChatWithMembers = GroupChat & {
+  members: GroupMemberWithUser[];
+  messages: GroupMessage[];
+};
+export type GroupMessage = typeof groupMessages.$inferSelect;
+export type GroupMessageWithSender = GroupMessage & {
+  sender: User;
+};
+export type MessageSearchFilters = {
+  terms: string[];
+  senderId?: string;
+  conversationId?: number;
+  groupId?: number;
+  from?: Date;
+  to?: Date;
+  hasFile?: boolean;
+  limit?: number;
+};
+export type MessageSearchResult = {
+  // Exactly one of conversationId and groupId is set
+  conversationId: number | null;
+  groupId: number | null;
+  message: MessageWithSender | GroupMessageWithSender;
+  snippet: string;
+  // [start, end) offsets of matched terms within the snippet
+  highlights: [number, number][];
+};
+export type MessagePageOptions = {
+  // Leave out messages this user deleted for themselves
+  viewerId?: string;
+  before?: { createdAt: Date; id: number };
+  after?: { createdAt: Date; id: number };
+  limit?: number;
+};
+export type MessagePage<T> = {
+  messages: T[];
+  hasMore: boolean;
+};
+export type UserEvent = {
+  // Increases by one for every event sent to the user
+  seq: number;
+  type: string;
+  data: any;
+  createdAt: Date;
+};
+export type UserEventPage = {
+  events: UserEvent[];
+  latestSeq: number;
+  hasMore: boolean;
+  // The requested events are no longer kept, so the client has to refetch everything
+  reset: boolean;
 };
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type InsertGroupChat = z.infer<typeof insertGroupChatSchema>;
+export type InsertGroupMessage = z.infer<typeof insertGroupMessageSchema>;
+
+// Sent as form fields with a voice recording's upload; the duration is only
+// used when the server can't read it from the file itself
+export const voiceDetailsSchema = z.object({
+  duration: z.coerce.number().positive().max(MAX_VOICE_DURATION).optional(),
+  waveform: z.array(z.number().int().min(0).max(255)).max(VOICE_WAVEFORM_BARS).optional(),
+});